@@ -3,25 +3,75 @@ import React, { useState, useEffect } from 'react';
 import MarketCard from './components/MarketCard';
 import AnalysisDisplay from './components/AnalysisDisplay';
 import Button from './components/Button';
-import { getMarketData, getTrendingMarkets, TrendingMarket } from './services/polymarketService';
-import { analyzeMarket } from './services/geminiService';
-import { MarketData, AnalysisResult, AnalysisMode } from './types';
+import HistoryPanel from './components/HistoryPanel';
+import SearchAutocomplete from './components/SearchAutocomplete';
+import ErrorBanner, { ErrorContext } from './components/ErrorBanner';
+import CacheDebugPanel from './components/CacheDebugPanel';
+import ScreenerView from './components/ScreenerView';
+import BrowseView from './components/BrowseView';
+import BacktestView from './components/BacktestView';
+import PortfolioView from './components/PortfolioView';
+import ArbitrageView from './components/ArbitrageView';
+import SettingsView from './components/SettingsView';
+import FollowUpChat from './components/FollowUpChat';
+import { LivePrices } from './components/LivePriceIndicator';
+import { applyEventPriceTick, applyPriceTick, buildAnalysisTarget, getEventData, getSimulatedEvent, subscribeToPrices } from './services/polymarketService';
+import { analyzeMarket, applyStreamEvent, EMPTY_PARTIAL } from './services/geminiService';
+import { AnalysisRecord, saveAnalysis } from './services/analysisHistory';
+import { createRequestChannel } from './services/requestChannel';
+import { AbortedError } from './services/errors';
+import { MarketData, AnalysisResult, AnalysisMode, AnalysisModeId, EventData, PartialAnalysis } from './types';
+
+const analysisLabel = (data: MarketData, mode: AnalysisModeId) => `${data.id} ${mode}`;
+
+/**
+ * Outcome tokens worth streaming prices for; simulated and settled markets have none
+ */
+const streamedTokens = (data: MarketData | null): string[] =>
+  data && data.provenance !== 'simulated' && data.status === 'open'
+    ? data.outcomes.flatMap((outcome) => (outcome.tokenId ? [outcome.tokenId] : []))
+    : [];
+
+type View = 'analyze' | 'browse' | 'screener' | 'arbitrage' | 'portfolio' | 'backtest' | 'settings';
+
+const VIEWS: Array<{ id: View; label: string }> = [
+  { id: 'analyze', label: 'Analyze' },
+  { id: 'browse', label: 'Browse' },
+  { id: 'screener', label: 'Screener' },
+  { id: 'arbitrage', label: 'Arbitrage' },
+  { id: 'portfolio', label: 'Portfolio' },
+  { id: 'backtest', label: 'Backtest' },
+  { id: 'settings', label: 'Settings' },
+];
 
 function App() {
+  const [view, setView] = useState<View>('analyze');
   const [url, setUrl] = useState('');
+  const [eventData, setEventData] = useState<EventData | null>(null);
+  const [selectedMarketIds, setSelectedMarketIds] = useState<string[]>([]);
   const [marketData, setMarketData] = useState<MarketData | null>(null);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
-  const [mode, setMode] = useState<AnalysisMode>(AnalysisMode.QUICK);
+  const [partialAnalysis, setPartialAnalysis] = useState<PartialAnalysis | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [mode, setMode] = useState<AnalysisModeId>(AnalysisMode.QUICK);
+  const [livePrices, setLivePrices] = useState<LivePrices | null>(null);
   
   const [isFetching, setIsFetching] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+
+  // Latest-wins slots: starting a request aborts the one it supersedes
+  const [fetchRequests] = useState(() => createRequestChannel('fetch'));
+  const [analysisRequests] = useState(() => createRequestChannel('analysis'));
+  const [error, setError] = useState<{
+    error: unknown;
+    context: ErrorContext;
+    retry?: () => void;
+    input?: string;
+  } | null>(null);
   
   // Theme state: 'dark' by default
   const [theme, setTheme] = useState<'light' | 'dark'>('dark');
-
-  // Trending Markets State
-  const [trendingMarkets, setTrendingMarkets] = useState<TrendingMarket[]>([]);
+  const [showCacheDebug, setShowCacheDebug] = useState(false);
 
   // Handle Theme Toggle
   useEffect(() => {
@@ -33,33 +83,38 @@ function App() {
     }
   }, [theme]);
 
-  // Fetch Trending Markets on Mount
+  // Stream prices for the displayed outcomes; restarts only when the set of tokens changes
+  const tokenKey = streamedTokens(marketData).join(',');
   useEffect(() => {
-    const fetchTrending = async () => {
-      try {
-        const markets = await getTrendingMarkets();
-        if (markets.length > 0) {
-          setTrendingMarkets(markets);
-        } else {
-          // Fallback if API fails
-          setTrendingMarkets([
-             { title: "2024 Presidential Election Winner", slug: "presidential-election-winner-2024" },
-             { title: "Bitcoin Price 2024", slug: "bitcoin-price-above-100k-2024" },
-             { title: "Fed Interest Rate Cuts", slug: "will-fed-cut-rates-in-march-2024" }
-          ]);
-        }
-      } catch (e) {
-        console.error("Failed to load trending markets", e);
-        // Fallback
-        setTrendingMarkets([
-             { title: "2024 Presidential Election Winner", slug: "presidential-election-winner-2024" },
-             { title: "Bitcoin Price 2024", slug: "bitcoin-price-above-100k-2024" },
-             { title: "Fed Interest Rate Cuts", slug: "will-fed-cut-rates-in-march-2024" }
-        ]);
-      }
-    };
-    fetchTrending();
-  }, []);
+    if (!tokenKey) {
+      setLivePrices(null);
+      return;
+    }
+    // Last known price per token, to tell which way each tick moved
+    const prices = new Map<string, number>();
+    marketData?.outcomes.forEach((outcome) => outcome.tokenId && prices.set(outcome.tokenId, outcome.price));
+    setLivePrices({ status: 'connecting', ticks: {} });
+    const stream = subscribeToPrices(tokenKey.split(','), {
+      onStatus: (status) => setLivePrices((prev) => prev && { ...prev, status }),
+      onTick: (tick) => {
+        const previous = prices.get(tick.tokenId);
+        prices.set(tick.tokenId, tick.price);
+        setMarketData((prev) => prev && applyPriceTick(prev, tick));
+        setEventData((prev) => prev && applyEventPriceTick(prev, tick));
+        setLivePrices((prev) =>
+          prev && {
+            ...prev,
+            updatedAt: tick.timestamp,
+            ticks:
+              previous === undefined || previous === tick.price
+                ? prev.ticks
+                : { ...prev.ticks, [tick.tokenId]: { direction: tick.price > previous ? 'up' : 'down', at: tick.timestamp } },
+          }
+        );
+      },
+    });
+    return () => stream.close();
+  }, [tokenKey]);
 
   const toggleTheme = () => {
     setTheme(prev => prev === 'dark' ? 'light' : 'dark');
@@ -68,43 +123,99 @@ function App() {
   const handleFetch = async (inputUrl: string) => {
     if (!inputUrl) return;
     
+    analysisRequests.cancel();
     setIsFetching(true);
     setError(null);
     setAnalysis(null);
+    setEventData(null);
     setMarketData(null); // Clear previous
 
     try {
-      const data = await getMarketData(inputUrl);
-      setMarketData(data);
-      handleAnalyze(data, AnalysisMode.QUICK);
+      const { value: event } = await fetchRequests.run(inputUrl, (signal) => getEventData(inputUrl, signal));
+      showEvent(event);
     } catch (err: any) {
+      if (err instanceof AbortedError) return;
       console.error(err);
-      setError("Failed to fetch market data. Please check the URL and try again.");
+      setError({ error: err, context: 'fetch', retry: () => handleFetch(inputUrl), input: inputUrl });
     } finally {
-      setIsFetching(false);
+      // A superseding fetch owns the spinner now
+      if (!fetchRequests.current()) setIsFetching(false);
+    }
+  };
+
+  const openMarket = (marketUrl: string) => {
+    setView('analyze');
+    setUrl(marketUrl);
+    handleFetch(marketUrl);
+  };
+
+  const showEvent = (event: EventData) => {
+    const data = buildAnalysisTarget(event, [event.defaultMarketId]);
+    setEventData(event);
+    setSelectedMarketIds([event.defaultMarketId]);
+    setMarketData(data);
+    // Simulated numbers and markets no longer trading are only analyzed when the user explicitly asks
+    if (data.provenance !== 'simulated' && data.status === 'open') {
+      handleAnalyze(data, AnalysisMode.QUICK);
     }
   };
 
-  const handleAnalyze = async (data: MarketData, selectedMode: AnalysisMode) => {
+  const handleAnalyze = async (data: MarketData, selectedMode: AnalysisModeId) => {
     setIsAnalyzing(true);
     setMode(selectedMode);
+    setError(null);
+    setPartialAnalysis(EMPTY_PARTIAL);
     
     try {
-      const result = await analyzeMarket(data, selectedMode);
+      const { value, request } = await analysisRequests.run(analysisLabel(data, selectedMode), (signal, request) =>
+        analyzeMarket(data, selectedMode, {
+          signal,
+          onEvent: (event) => {
+            if (analysisRequests.isCurrent(request)) {
+              setPartialAnalysis((prev) => applyStreamEvent(prev ?? EMPTY_PARTIAL, event));
+            }
+          },
+        })
+      );
+      const result = { ...value, request };
       setAnalysis(result);
+      saveAnalysis(data, selectedMode, result)
+        .then(() => setHistoryVersion((v) => v + 1))
+        .catch((e) => console.warn("Failed to save analysis history", e));
     } catch (err: any) {
+      if (err instanceof AbortedError) return;
       console.error(err);
-      setError("Analysis failed. Please try again.");
+      setError({ error: err, context: 'analyze', retry: () => handleAnalyze(data, selectedMode) });
     } finally {
-      setIsAnalyzing(false);
+      // Leave the loading state alone if a newer analysis superseded this one
+      if (!analysisRequests.current()) {
+        setIsAnalyzing(false);
+        setPartialAnalysis(null);
+      }
     }
   };
 
-  const onModeChange = (newMode: AnalysisMode) => {
-    if (marketData && !isAnalyzing) {
-      handleAnalyze(marketData, newMode);
-    } else {
+  const onSelectionChange = (ids: string[]) => {
+    setSelectedMarketIds(ids);
+    if (eventData && ids.length > 0) {
+      analysisRequests.cancel();
+      setMarketData(buildAnalysisTarget(eventData, ids));
+      setAnalysis(null);
+    }
+  };
+
+  const onRestoreAnalysis = (record: AnalysisRecord) => {
+    analysisRequests.cancel();
+    setMode(record.mode);
+    setAnalysis(record.result);
+  };
+
+  // A switch while an analysis runs supersedes it, unless it asks for the same thing again
+  const onModeChange = (newMode: AnalysisModeId) => {
+    if (!marketData) {
       setMode(newMode);
+    } else if (analysisRequests.current()?.label !== analysisLabel(marketData, newMode)) {
+      handleAnalyze(marketData, newMode);
     }
   };
 
@@ -121,6 +232,21 @@ function App() {
             <span className="text-lg font-bold tracking-tight text-gray-900 dark:text-white">
               Edge Explorer
             </span>
+            <div className="ml-4 flex gap-1">
+              {VIEWS.map((item) => (
+                <button
+                  key={item.id}
+                  onClick={() => setView(item.id)}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                    view === item.id
+                      ? 'bg-gray-100 text-gray-900 dark:bg-slate-800 dark:text-white'
+                      : 'text-gray-500 hover:text-gray-900 dark:text-slate-400 dark:hover:text-white'
+                  }`}
+                >
+                  {item.label}
+                </button>
+              ))}
+            </div>
           </div>
           
           <div className="flex items-center gap-4">
@@ -133,6 +259,16 @@ function App() {
                 </span>
              </div>
              
+             {/* Cache Debug Toggle */}
+             <button
+               onClick={() => setShowCacheDebug((prev) => !prev)}
+               className={`p-2 rounded-full transition-colors ${showCacheDebug ? 'bg-gray-900 text-white dark:bg-blue-600' : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-slate-800 dark:text-slate-400 dark:hover:bg-slate-700'}`}
+               aria-label="Toggle Cache Debug Panel"
+               title="Request cache stats"
+             >
+               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4"></path></svg>
+             </button>
+
              {/* Theme Toggle Button */}
              <button 
                onClick={toggleTheme}
@@ -151,125 +287,159 @@ function App() {
 
       <main className="max-w-7xl mx-auto px-4 md:px-8 py-12">
         
-        {/* Hero Section */}
-        <section className="max-w-3xl mx-auto text-center mb-12 animate-fade-in">
-          <h1 className="text-4xl md:text-5xl font-black tracking-tight text-gray-900 dark:text-white mb-4">
-            Find the Market <span className="text-transparent bg-clip-text bg-gradient-to-r from-neutral-800 to-neutral-500 dark:from-blue-400 dark:to-purple-500">Edge</span>
-          </h1>
-          <p className="text-lg text-gray-500 dark:text-slate-400 leading-relaxed max-w-2xl mx-auto">
-            Advanced AI analysis for prediction markets. Combine real-time odds with deep web research to uncover profitable opportunities.
-          </p>
-        </section>
+        {view === 'browse' ? (
+          <BrowseView onOpenMarket={openMarket} />
+        ) : view === 'screener' ? (
+          <ScreenerView onOpenMarket={openMarket} />
+        ) : view === 'arbitrage' ? (
+          <ArbitrageView onOpenMarket={openMarket} />
+        ) : view === 'portfolio' ? (
+          <PortfolioView onOpenMarket={openMarket} />
+        ) : view === 'backtest' ? (
+          <BacktestView />
+        ) : view === 'settings' ? (
+          <SettingsView />
+        ) : (
+          <>
+          {/* Hero Section */}
+          <section className="max-w-3xl mx-auto text-center mb-12 animate-fade-in">
+            <h1 className="text-4xl md:text-5xl font-black tracking-tight text-gray-900 dark:text-white mb-4">
+              Find the Market <span className="text-transparent bg-clip-text bg-gradient-to-r from-neutral-800 to-neutral-500 dark:from-blue-400 dark:to-purple-500">Edge</span>
+            </h1>
+            <p className="text-lg text-gray-500 dark:text-slate-400 leading-relaxed max-w-2xl mx-auto">
+              Advanced AI analysis for prediction markets. Combine real-time odds with deep web research to uncover profitable opportunities.
+            </p>
+          </section>
 
-        {/* Input Section */}
-        <section className="max-w-2xl mx-auto mb-16 relative z-10">
-          <div className="relative group">
-            <div className="absolute -inset-1 bg-gradient-to-r from-gray-200 to-gray-300 dark:from-blue-600 dark:to-purple-600 rounded-xl blur opacity-25 group-hover:opacity-50 transition duration-500"></div>
-            <div className="relative flex items-center bg-white dark:bg-slate-900 p-2 rounded-xl shadow-2xl shadow-gray-200/50 dark:shadow-black/50 border border-gray-100 dark:border-slate-700">
-              <div className="pl-4 pr-3 text-gray-400">
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"></path></svg>
+          {/* Input Section */}
+          <section className="max-w-2xl mx-auto mb-16 relative z-10">
+            <div className="relative group">
+              <div className="absolute -inset-1 bg-gradient-to-r from-gray-200 to-gray-300 dark:from-blue-600 dark:to-purple-600 rounded-xl blur opacity-25 group-hover:opacity-50 transition duration-500"></div>
+              <div className="relative flex items-center bg-white dark:bg-slate-900 p-2 rounded-xl shadow-2xl shadow-gray-200/50 dark:shadow-black/50 border border-gray-100 dark:border-slate-700">
+                <div className="pl-4 pr-3 text-gray-400">
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"></path></svg>
+                </div>
+                <SearchAutocomplete
+                  placeholder="Paste URL or search market..."
+                  value={url}
+                  onChange={setUrl}
+                  onSubmit={handleFetch}
+                  onSelect={(result) => {
+                    setUrl(result.url);
+                    handleFetch(result.url);
+                  }}
+                />
+                <Button 
+                  onClick={() => handleFetch(url)}
+                  isLoading={isFetching}
+                  disabled={!url}
+                  className="ml-2"
+                >
+                  Analyze
+                </Button>
               </div>
-              <input 
-                type="text" 
-                placeholder="Paste URL or search market..." 
-                className="flex-1 bg-transparent border-none text-gray-900 dark:text-white px-2 py-3 focus:outline-none placeholder-gray-400 text-base"
-                value={url}
-                onChange={(e) => setUrl(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && handleFetch(url)}
-              />
-              <Button 
-                onClick={() => handleFetch(url)}
-                isLoading={isFetching}
-                disabled={!url}
-                className="ml-2"
-              >
-                Analyze
-              </Button>
             </div>
-          </div>
 
-          {/* Trending Markets */}
-          {!marketData && (
-            <div className="mt-8 text-center animate-fade-in" style={{ animationDelay: '0.1s' }}>
-              <p className="text-xs font-semibold text-gray-400 dark:text-slate-500 uppercase tracking-widest mb-4">Trending Markets</p>
-              <div className="flex flex-wrap justify-center gap-3">
-                {trendingMarkets.map((market) => (
-                  <button
-                    key={market.slug}
-                    onClick={() => {
-                      const fullUrl = `https://polymarket.com/event/${market.slug}`;
-                      setUrl(fullUrl);
-                      handleFetch(fullUrl);
-                    }}
-                    className="text-sm px-4 py-2 rounded-full bg-white dark:bg-slate-800 text-gray-600 dark:text-slate-300 border border-gray-200 dark:border-slate-700 hover:border-gray-400 dark:hover:border-slate-500 hover:shadow-sm transition-all max-w-[240px] truncate"
-                    title={market.title}
-                  >
-                    {market.title}
-                  </button>
-                ))}
-                {trendingMarkets.length === 0 && (
-                  <span className="text-gray-400 text-sm italic">Loading trending markets...</span>
-                )}
+            {/* Browse Link */}
+            {!marketData && (
+              <div className="mt-8 text-center animate-fade-in" style={{ animationDelay: '0.1s' }}>
+                <button
+                  onClick={() => setView('browse')}
+                  className="text-sm px-4 py-2 rounded-full bg-white dark:bg-slate-800 text-gray-600 dark:text-slate-300 border border-gray-200 dark:border-slate-700 hover:border-gray-400 dark:hover:border-slate-500 hover:shadow-sm transition-all"
+                >
+                  Browse open markets by category, volume or end date →
+                </button>
               </div>
+            )}
+          </section>
+
+          {/* Error Notification */}
+          {error && (
+            <div className="max-w-2xl mx-auto mb-8 animate-fade-in">
+               <ErrorBanner
+                  error={error.error}
+                  context={error.context}
+                  onRetry={error.retry && (() => {
+                    setError(null);
+                    error.retry!();
+                  })}
+                  onDismiss={() => setError(null)}
+                  onUseSimulated={error.context === 'fetch' && error.input ? () => {
+                    fetchRequests.cancel();
+                    setError(null);
+                    showEvent(getSimulatedEvent(error.input!));
+                  } : undefined}
+               />
             </div>
           )}
-        </section>
-
-        {/* Error Notification */}
-        {error && (
-          <div className="max-w-2xl mx-auto mb-8 animate-fade-in">
-             <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 text-red-600 dark:text-red-400 px-4 py-3 rounded-lg text-center text-sm font-medium">
-                {error}
-             </div>
-          </div>
-        )}
 
-        {/* Results Section */}
-        {marketData && (
-          <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 animate-slide-up">
+          {/* Results Section */}
+          {marketData && (
+            <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 animate-slide-up">
             
-            {/* Left: Market Info */}
-            <div className="lg:col-span-5 space-y-6">
-              <MarketCard data={marketData} />
+              {/* Left: Market Info */}
+              <div className="lg:col-span-5 space-y-6">
+                <MarketCard
+                  data={marketData}
+                  event={eventData ?? undefined}
+                  selectedMarketIds={selectedMarketIds}
+                  onSelectionChange={onSelectionChange}
+                  onAnalyzeSelection={() => onModeChange(mode)}
+                  tradeIdeas={analysis?.tradeIdeas}
+                  live={livePrices ?? undefined}
+                />
+
+                <HistoryPanel
+                  marketId={marketData.id}
+                  refreshKey={historyVersion}
+                  onRestore={onRestoreAnalysis}
+                />
               
-              <div className="hidden lg:block p-6 rounded-2xl bg-gray-50 dark:bg-slate-800/50 border border-gray-100 dark:border-slate-800">
-                <h3 className="font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2">
-                  <svg className="w-5 h-5 text-purple-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
-                  How Analysis Works
-                </h3>
-                <p className="text-sm text-gray-600 dark:text-slate-400 leading-relaxed">
-                  The AI compares implied probabilities against real-world data.
-                </p>
-                <div className="mt-4 space-y-3">
-                  <div className="flex gap-3">
-                    <div className="w-8 h-8 rounded-full bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 flex items-center justify-center shrink-0 text-sm font-bold">1</div>
-                    <p className="text-xs text-gray-500 dark:text-slate-500 mt-1">Fetches live market liquidity and volume.</p>
-                  </div>
-                  <div className="flex gap-3">
-                    <div className="w-8 h-8 rounded-full bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 flex items-center justify-center shrink-0 text-sm font-bold">2</div>
-                    <p className="text-xs text-gray-500 dark:text-slate-500 mt-1">Deep mode searches Google for breaking news.</p>
-                  </div>
-                  <div className="flex gap-3">
-                    <div className="w-8 h-8 rounded-full bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 flex items-center justify-center shrink-0 text-sm font-bold">3</div>
-                    <p className="text-xs text-gray-500 dark:text-slate-500 mt-1">Generates a confidence score and trade recommendation.</p>
+                <div className="hidden lg:block p-6 rounded-2xl bg-gray-50 dark:bg-slate-800/50 border border-gray-100 dark:border-slate-800">
+                  <h3 className="font-semibold text-gray-900 dark:text-white mb-2 flex items-center gap-2">
+                    <svg className="w-5 h-5 text-purple-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
+                    How Analysis Works
+                  </h3>
+                  <p className="text-sm text-gray-600 dark:text-slate-400 leading-relaxed">
+                    The AI compares implied probabilities against real-world data.
+                  </p>
+                  <div className="mt-4 space-y-3">
+                    <div className="flex gap-3">
+                      <div className="w-8 h-8 rounded-full bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 flex items-center justify-center shrink-0 text-sm font-bold">1</div>
+                      <p className="text-xs text-gray-500 dark:text-slate-500 mt-1">Fetches live market liquidity and volume.</p>
+                    </div>
+                    <div className="flex gap-3">
+                      <div className="w-8 h-8 rounded-full bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 flex items-center justify-center shrink-0 text-sm font-bold">2</div>
+                      <p className="text-xs text-gray-500 dark:text-slate-500 mt-1">Research modes search Google for breaking news.</p>
+                    </div>
+                    <div className="flex gap-3">
+                      <div className="w-8 h-8 rounded-full bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 flex items-center justify-center shrink-0 text-sm font-bold">3</div>
+                      <p className="text-xs text-gray-500 dark:text-slate-500 mt-1">Generates a confidence score and trade recommendation.</p>
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
 
-            {/* Right: AI Analysis */}
-            <div className="lg:col-span-7">
-              <AnalysisDisplay 
-                result={analysis} 
-                mode={mode} 
-                isLoading={isAnalyzing} 
-                onAnalyze={onModeChange}
-              />
+              {/* Right: AI Analysis */}
+              <div className="lg:col-span-7">
+                <AnalysisDisplay 
+                  result={analysis} 
+                  market={marketData}
+                  partial={partialAnalysis}
+                  mode={mode} 
+                  isLoading={isAnalyzing} 
+                  onAnalyze={onModeChange}
+                />
+                {analysis && marketData && !isAnalyzing && <FollowUpChat market={marketData} analysis={analysis} />}
+              </div>
             </div>
-          </div>
+          )}
+          </>
         )}
 
       </main>
+
+      {showCacheDebug && <CacheDebugPanel onClose={() => setShowCacheDebug(false)} />}
     </div>
   );
 }
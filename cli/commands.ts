@@ -0,0 +1,223 @@
+import { AnalysisModeDefinition, AnalysisResult, MarketData } from '../types';
+import { DiscoveryItem, getDiscoveryFeed, getEventData, getMarketData } from '../services/polymarketService';
+import { analyzeMarket } from '../services/geminiService';
+import { listModes } from '../services/analysisModes';
+import { computeEdges } from '../services/sizing';
+import { formatDate, formatPercent, formatPrice, Table, table } from './format';
+
+/**
+ * What a command produced: the raw value for --json, tables for the terminal,
+ * and a single flat table for CSV
+ */
+export interface Report {
+  json: unknown;
+  tables: Table[];
+  csv: Table;
+}
+
+export class UsageError extends Error {}
+
+/**
+ * Matches --mode against registry ids and labels, ignoring case
+ */
+export const resolveMode = (input: string): AnalysisModeDefinition => {
+  const wanted = input.trim().toLowerCase();
+  const mode = listModes().find((mode) => String(mode.id).toLowerCase() === wanted || mode.label.toLowerCase() === wanted);
+  if (!mode) {
+    throw new UsageError(`Unknown mode "${input}". Use one of: ${listModes().map((mode) => mode.id).join(', ')}`);
+  }
+  return mode;
+};
+
+const marketTables = (markets: MarketData[]): Table[] => {
+  const multiple = markets.length > 1;
+  const outcomes = markets.flatMap((market) => market.outcomes.map((outcome) => ({ market, outcome })));
+  return [
+    table(
+      markets,
+      [
+        { header: 'ID', value: (market) => market.id },
+        { header: 'Question', value: (market) => market.question, maxWidth: 60 },
+        { header: 'Status', value: (market) => market.status },
+        { header: 'Volume', value: (market) => market.volume, align: 'right' },
+        { header: 'Liquidity', value: (market) => market.liquidity, align: 'right' },
+        { header: 'Ends', value: (market) => formatDate(market.endDate) },
+        { header: 'Data', value: (market) => market.provenance },
+      ],
+      multiple ? 'Markets' : 'Market'
+    ),
+    table(
+      outcomes,
+      [
+        ...(multiple ? [{ header: 'Market', value: (row: (typeof outcomes)[number]) => row.market.groupItemTitle || row.market.id, maxWidth: 30 }] : []),
+        { header: 'Outcome', value: (row) => row.outcome.name, maxWidth: 40 },
+        { header: 'Price', value: (row) => formatPrice(row.outcome.price), align: 'right' },
+        { header: 'Token', value: (row) => row.outcome.tokenId },
+      ],
+      'Outcomes'
+    ),
+  ];
+};
+
+const marketCsv = (markets: MarketData[]): Table =>
+  table(
+    markets.flatMap((market) => market.outcomes.map((outcome) => ({ market, outcome }))),
+    [
+      { header: 'market_id', value: (row) => row.market.id },
+      { header: 'question', value: (row) => row.market.question },
+      { header: 'status', value: (row) => row.market.status },
+      { header: 'outcome', value: (row) => row.outcome.name },
+      { header: 'price', value: (row) => row.outcome.price },
+      { header: 'token_id', value: (row) => row.outcome.tokenId },
+      { header: 'volume', value: (row) => row.market.volumeNum },
+      { header: 'liquidity', value: (row) => row.market.liquidityNum },
+      { header: 'end_date', value: (row) => row.market.endDate },
+      { header: 'provenance', value: (row) => row.market.provenance },
+    ]
+  );
+
+/**
+ * `fetch <url|slug>`: the market the input points at, or every market in its event with `all`
+ */
+export const fetchCommand = async (input: string, options: { all: boolean; signal: AbortSignal }): Promise<Report> => {
+  const markets = options.all
+    ? (await getEventData(input, options.signal)).markets
+    : [await getMarketData(input, options.signal)];
+  return {
+    json: options.all ? markets : markets[0],
+    tables: marketTables(markets),
+    csv: marketCsv(markets),
+  };
+};
+
+/**
+ * `analyze <url|slug>`: runs one analysis through the configured gateway
+ */
+export const analyzeCommand = async (
+  input: string,
+  options: { mode: AnalysisModeDefinition; signal: AbortSignal; onStatus?: (message: string) => void }
+): Promise<Report> => {
+  const market = await getMarketData(input, options.signal);
+  const result: AnalysisResult = await analyzeMarket(market, options.mode.id, {
+    signal: options.signal,
+    onEvent: (event) => event.type === 'status' && options.onStatus?.(event.message),
+  });
+  const edges = computeEdges(market.outcomes, result.fairProbabilities);
+  const outcomes = market.outcomes.map((outcome) => ({ outcome, edge: edges.find((edge) => edge.outcome === outcome) }));
+
+  const overview: Array<[string, string]> = [
+    ['Market', market.question],
+    ['Mode', options.mode.label],
+    ['Recommendation', result.recommendation],
+    ['Confidence', `${result.confidenceScore}/100`],
+    ['Summary', result.summary],
+  ];
+
+  return {
+    json: result,
+    tables: [
+      table(overview, [
+        { header: 'Field', value: ([field]) => field },
+        { header: 'Value', value: ([, value]) => value },
+      ]),
+      table(
+        outcomes,
+        [
+          { header: 'Outcome', value: (row) => row.outcome.name, maxWidth: 40 },
+          { header: 'Price', value: (row) => formatPrice(row.outcome.price), align: 'right' },
+          { header: 'Fair', value: (row) => formatPercent(row.edge?.fair), align: 'right' },
+          { header: 'Edge', value: (row) => formatPercent(row.edge?.edge), align: 'right' },
+          { header: 'EV/$', value: (row) => row.edge?.evPerDollar.toFixed(2), align: 'right' },
+        ],
+        'Outcomes'
+      ),
+      table(
+        result.reasoning.map((point, idx) => ({ point, idx })),
+        [
+          { header: '#', value: (row) => row.idx + 1, align: 'right' },
+          { header: 'Point', value: (row) => row.point },
+        ],
+        'Reasoning'
+      ),
+      ...(result.tradeIdeas?.length
+        ? [
+            table(
+              result.tradeIdeas,
+              [
+                { header: 'Outcome', value: (idea) => idea.outcome, maxWidth: 40 },
+                { header: 'Side', value: (idea) => idea.side },
+                { header: 'Limit', value: (idea) => formatPrice(idea.limitPrice), align: 'right' },
+                { header: 'Target', value: (idea) => formatPrice(idea.targetPrice), align: 'right' },
+                { header: 'Exit', value: (idea) => idea.exitCondition, maxWidth: 60 },
+              ],
+              'Trade ideas'
+            ),
+          ]
+        : []),
+      ...(result.sources?.length
+        ? [
+            table(
+              result.sources,
+              [
+                { header: 'Source', value: (source) => source.title, maxWidth: 50 },
+                { header: 'URL', value: (source) => source.url },
+              ],
+              'Sources'
+            ),
+          ]
+        : []),
+    ],
+    csv: table(outcomes, [
+      { header: 'market_id', value: () => market.id },
+      { header: 'question', value: () => market.question },
+      { header: 'mode', value: () => options.mode.id },
+      { header: 'recommendation', value: () => result.recommendation },
+      { header: 'confidence', value: () => result.confidenceScore },
+      { header: 'outcome', value: (row) => row.outcome.name },
+      { header: 'price', value: (row) => row.outcome.price },
+      { header: 'fair_probability', value: (row) => row.edge?.fair },
+      { header: 'edge', value: (row) => row.edge?.edge },
+      { header: 'summary', value: () => result.summary },
+    ]),
+  };
+};
+
+/**
+ * `trending`: open events with the most 24h volume
+ */
+export const trendingCommand = async (options: { limit: number; category?: string; signal: AbortSignal }): Promise<Report> => {
+  const { items } = await getDiscoveryFeed(
+    { sort: 'volume24hr', category: options.category, limit: options.limit },
+    options.signal
+  );
+  const ranked = items.map((item, idx) => ({ item, rank: idx + 1 }));
+  const leading = (item: DiscoveryItem) => (item.leading ? `${item.leading.name} ${formatPrice(item.leading.price)}` : '');
+
+  return {
+    json: items,
+    tables: [
+      table(ranked, [
+        { header: '#', value: (row) => row.rank, align: 'right' },
+        { header: 'Event', value: (row) => row.item.title, maxWidth: 50 },
+        { header: '24h Vol', value: (row) => row.item.volume24hr, align: 'right' },
+        { header: 'Liquidity', value: (row) => row.item.liquidity, align: 'right' },
+        { header: 'Mkts', value: (row) => row.item.marketCount, align: 'right' },
+        { header: 'Leading', value: (row) => leading(row.item), maxWidth: 36 },
+        { header: 'Slug', value: (row) => row.item.slug },
+      ]),
+    ],
+    csv: table(ranked, [
+      { header: 'rank', value: (row) => row.rank },
+      { header: 'event_id', value: (row) => row.item.id },
+      { header: 'title', value: (row) => row.item.title },
+      { header: 'slug', value: (row) => row.item.slug },
+      { header: 'url', value: (row) => row.item.url },
+      { header: 'volume_24hr', value: (row) => row.item.volume24hrNum },
+      { header: 'liquidity', value: (row) => row.item.liquidityNum },
+      { header: 'markets', value: (row) => row.item.marketCount },
+      { header: 'leading_outcome', value: (row) => row.item.leading?.name },
+      { header: 'leading_price', value: (row) => row.item.leading?.price },
+      { header: 'end_date', value: (row) => row.item.endDate },
+    ]),
+  };
+};
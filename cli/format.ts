@@ -0,0 +1,63 @@
+export type OutputFormat = 'table' | 'csv' | 'json';
+
+type Cell = string | number | boolean | undefined | null;
+
+export interface Column<T> {
+  header: string;
+  value: (row: T) => Cell;
+  align?: 'left' | 'right';
+  maxWidth?: number; // Table output truncates longer values; CSV never does
+}
+
+/**
+ * Rows rendered to strings, ready for either table or CSV output
+ */
+export interface Table {
+  title?: string;
+  headers: string[];
+  align: Array<'left' | 'right'>;
+  maxWidths: Array<number | undefined>;
+  cells: string[][];
+}
+
+const cellText = (value: Cell): string => (value === undefined || value === null ? '' : String(value));
+
+export const table = <T>(rows: T[], columns: Column<T>[], title?: string): Table => ({
+  title,
+  headers: columns.map((column) => column.header),
+  align: columns.map((column) => column.align ?? 'left'),
+  maxWidths: columns.map((column) => column.maxWidth),
+  cells: rows.map((row) => columns.map((column) => cellText(column.value(row)).replace(/\s+/g, ' ').trim())),
+});
+
+const truncate = (text: string, max?: number) => (max && text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+/**
+ * Fixed-width text table for terminals
+ */
+export const renderTable = ({ title, headers, align, maxWidths, cells }: Table): string => {
+  const rows = [headers, ...cells].map((row) => row.map((cell, idx) => truncate(cell, maxWidths[idx])));
+  const widths = headers.map((_, idx) => Math.max(...rows.map((row) => row[idx].length)));
+  const line = (row: string[]) =>
+    row
+      .map((cell, idx) => (align[idx] === 'right' ? cell.padStart(widths[idx]) : cell.padEnd(widths[idx])))
+      .join('  ')
+      .trimEnd();
+  const lines = [line(rows[0]), widths.map((width) => '-'.repeat(width)).join('  '), ...rows.slice(1).map(line)];
+  if (cells.length === 0) lines.push('(none)');
+  return [...(title ? [title] : []), ...lines].join('\n');
+};
+
+const csvField = (text: string) => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+/**
+ * RFC 4180 CSV with a header row
+ */
+export const renderCsv = ({ headers, cells }: Table): string =>
+  [headers, ...cells].map((row) => row.map(csvField).join(',')).join('\n');
+
+export const formatPrice = (price: number | undefined) => (price === undefined ? '' : `${(price * 100).toFixed(1)}¢`);
+
+export const formatPercent = (value: number | undefined) => (value === undefined ? '' : `${(value * 100).toFixed(1)}%`);
+
+export const formatDate = (iso: string | undefined) => (iso ? iso.slice(0, 10) : '');
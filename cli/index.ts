@@ -0,0 +1,186 @@
+import { parseArgs } from 'node:util';
+import { AnalysisMode } from '../types';
+import { ServiceError, ServiceErrorKind } from '../services/errors';
+import { analyzeCommand, fetchCommand, Report, resolveMode, trendingCommand, UsageError } from './commands';
+import { OutputFormat, renderCsv, renderTable } from './format';
+
+/**
+ * Command-line entry point for scripts and cron jobs.
+ *
+ * Environment:
+ *   VITE_GEMINI_GATEWAY_URL   analysis gateway for `analyze` (same variables as the app)
+ *   VITE_GEMINI_GATEWAY_KEY   gateway API key, if it requires one
+ *   VITE_FIXTURE_URL          read market data from the fixture server instead
+ */
+
+const USAGE = `Usage: npm run -s cli -- <command> [options]
+
+Commands:
+  fetch <url|slug>      Print the market the URL or slug points at
+  analyze <url|slug>    Analyze a market through the gateway and print the result
+  trending              List the open events with the most 24h volume
+
+Options:
+  --json                Print JSON
+  --csv                 Print CSV
+  --format <fmt>        table (default), csv or json
+  --mode <id>           Analysis mode for analyze (default quick)
+  --all                 fetch: print every market in the event
+  --limit <n>           trending: number of events (default 10, max 100)
+  --category <slug>     trending: only events with this tag, e.g. politics
+  --timeout <seconds>   Give up after this long
+  -h, --help            Show this help
+
+Exit codes:
+  0  success
+  1  unexpected failure or malformed response
+  2  bad usage
+  3  market or event not found
+  4  network, timeout, rate limit or upstream error (worth retrying)
+  5  analysis gateway not configured or rejected the request
+  6  market already resolved
+  130  interrupted`;
+
+export const EXIT_CODES = {
+  ok: 0,
+  failure: 1,
+  usage: 2,
+  notFound: 3,
+  unavailable: 4,
+  gatewayConfig: 5,
+  resolved: 6,
+  interrupted: 130,
+};
+
+const ERROR_EXIT_CODES: Record<ServiceErrorKind, number> = {
+  NOT_FOUND: EXIT_CODES.notFound,
+  NETWORK: EXIT_CODES.unavailable,
+  TIMEOUT: EXIT_CODES.unavailable,
+  RATE_LIMITED: EXIT_CODES.unavailable,
+  UPSTREAM: EXIT_CODES.unavailable,
+  MALFORMED: EXIT_CODES.failure,
+  GATEWAY_CONFIG: EXIT_CODES.gatewayConfig,
+  MARKET_RESOLVED: EXIT_CODES.resolved,
+  ABORTED: EXIT_CODES.interrupted,
+};
+
+const render = (report: Report, format: OutputFormat): string => {
+  if (format === 'json') return JSON.stringify(report.json, null, 2);
+  if (format === 'csv') return renderCsv(report.csv);
+  return report.tables.map(renderTable).join('\n\n');
+};
+
+const parseFormat = (values: { json?: boolean; csv?: boolean; format?: string }): OutputFormat => {
+  const requested = [values.json && 'json', values.csv && 'csv', values.format].filter(Boolean);
+  if (new Set(requested).size > 1) throw new UsageError('Pick one output format');
+  const format = requested[0] ?? 'table';
+  if (format !== 'table' && format !== 'csv' && format !== 'json') {
+    throw new UsageError(`Unknown format "${format}". Use table, csv or json`);
+  }
+  return format;
+};
+
+const parsePositive = (name: string, value: string | undefined, fallback: number, max = Infinity): number => {
+  if (value === undefined) return fallback;
+  const num = Number(value);
+  if (!Number.isFinite(num) || num <= 0) throw new UsageError(`--${name} must be a positive number`);
+  return Math.min(num, max);
+};
+
+const parseCommandLine = (argv: string[]) =>
+  parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean' },
+      csv: { type: 'boolean' },
+      format: { type: 'string' },
+      mode: { type: 'string' },
+      all: { type: 'boolean' },
+      limit: { type: 'string' },
+      category: { type: 'string' },
+      timeout: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+type CommandLine = ReturnType<typeof parseCommandLine>;
+
+const run = async ({ values, positionals }: CommandLine, signal: AbortSignal): Promise<string> => {
+  const [command, input, ...extra] = positionals;
+  if (values.help) return USAGE;
+  if (!command) throw new UsageError('Missing command');
+
+  const format = parseFormat(values);
+  const needsInput = command === 'fetch' || command === 'analyze';
+  if (needsInput && !input) throw new UsageError(`${command} needs a market URL or slug`);
+  if (extra.length > 0 || (!needsInput && input)) throw new UsageError(`Unexpected argument "${extra[0] ?? input}"`);
+
+  let report: Report;
+  switch (command) {
+    case 'fetch':
+      report = await fetchCommand(input, { all: Boolean(values.all), signal });
+      break;
+    case 'analyze':
+      report = await analyzeCommand(input, {
+        mode: resolveMode(values.mode ?? AnalysisMode.QUICK),
+        signal,
+        // Progress goes to stderr, and only to a terminal, so piped output stays clean
+        onStatus: process.stderr.isTTY ? (message) => process.stderr.write(`${message}\n`) : undefined,
+      });
+      break;
+    case 'trending':
+      report = await trendingCommand({
+        limit: Math.floor(parsePositive('limit', values.limit, 10, 100)),
+        category: values.category,
+        signal,
+      });
+      break;
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+  return render(report, format);
+};
+
+const main = async () => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  process.on('SIGINT', () => controller.abort());
+  // Exit quietly when the reader goes away, e.g. `| head`
+  process.stdout.on('error', (err: NodeJS.ErrnoException) => {
+    if (err.code === 'EPIPE') process.exit(EXIT_CODES.ok);
+  });
+
+  try {
+    const commandLine = parseCommandLine(process.argv.slice(2));
+    if (commandLine.values.timeout !== undefined) {
+      const seconds = parsePositive('timeout', commandLine.values.timeout, 0);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, seconds * 1000);
+    }
+    const output = await run(commandLine, controller.signal);
+    process.stdout.write(`${output}\n`);
+    return EXIT_CODES.ok;
+  } catch (err) {
+    if (timedOut) {
+      process.stderr.write('error: timed out\n');
+      return EXIT_CODES.unavailable;
+    }
+    if (err instanceof UsageError || (err as NodeJS.ErrnoException)?.code?.startsWith('ERR_PARSE_ARGS')) {
+      process.stderr.write(`error: ${(err as Error).message}\n\n${USAGE}\n`);
+      return EXIT_CODES.usage;
+    }
+    process.stderr.write(`error: ${err instanceof Error ? err.message : String(err)}\n`);
+    return err instanceof ServiceError ? ERROR_EXIT_CODES[err.kind] : EXIT_CODES.failure;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+main().then((code) => {
+  process.exitCode = code;
+});
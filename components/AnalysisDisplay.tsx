@@ -1,15 +1,25 @@
-import React from 'react';
-import { AnalysisResult, AnalysisMode } from '../types';
+import React, { useEffect, useState } from 'react';
+import { AnalysisResult, AnalysisModeId, MarketData, PartialAnalysis } from '../types';
+import { listModes, modeFor, subscribeModes } from '../services/analysisModes';
+import EdgeTable from './EdgeTable';
+import TradeIdeas from './TradeIdeas';
+import SourceList, { CitationMarkers } from './SourceList';
+import ProvenanceBanner from './ProvenanceBanner';
+import SettlementBanner from './SettlementBanner';
 
 interface AnalysisDisplayProps {
   result: AnalysisResult | null;
-  mode: AnalysisMode;
+  market?: MarketData | null;
+  partial?: PartialAnalysis | null;
+  mode: AnalysisModeId;
   isLoading: boolean;
-  onAnalyze: (mode: AnalysisMode) => void;
+  onAnalyze: (mode: AnalysisModeId) => void;
 }
 
-const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, mode, isLoading, onAnalyze }) => {
-  
+const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, market, partial, mode, isLoading, onAnalyze }) => {
+  const [modes, setModes] = useState(listModes);
+  useEffect(() => subscribeModes(() => setModes(listModes())), []);
+
   const getRecStyle = (rec: string) => {
     switch(rec) {
       case 'BUY': return { 
@@ -32,48 +42,102 @@ const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, mode, isLoadi
   };
 
   const recStyles = result ? getRecStyle(result.recommendation) : { box: '', score: '' };
+  // Settled markets can't be analyzed; closed ones can, but are flagged
+  const isResolved = market?.status === 'resolved';
 
   return (
     <div className="bg-white dark:bg-slate-900 rounded-2xl border border-gray-100 dark:border-slate-800 shadow-xl shadow-gray-200/50 dark:shadow-black/40 overflow-hidden flex flex-col h-full transition-all duration-300">
       
       {/* Header / Tabs */}
-      <div className="flex border-b border-gray-100 dark:border-slate-800">
-        <button
-          onClick={() => onAnalyze(AnalysisMode.QUICK)}
-          className={`flex-1 py-4 text-sm font-semibold transition-all relative ${
-            mode === AnalysisMode.QUICK 
-              ? 'text-gray-900 dark:text-white bg-gray-50/50 dark:bg-slate-800/50' 
-              : 'text-gray-400 dark:text-slate-500 hover:text-gray-600 dark:hover:text-slate-300'
-          }`}
-        >
-          ⚡ Quick Analysis
-          {mode === AnalysisMode.QUICK && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-neutral-900 dark:bg-blue-500"></div>}
-        </button>
-        <button
-          onClick={() => onAnalyze(AnalysisMode.DEEP)}
-          className={`flex-1 py-4 text-sm font-semibold transition-all relative ${
-            mode === AnalysisMode.DEEP 
-              ? 'text-purple-700 dark:text-purple-400 bg-purple-50/30 dark:bg-purple-900/10' 
-              : 'text-gray-400 dark:text-slate-500 hover:text-purple-600 dark:hover:text-purple-300'
-          }`}
-        >
-          🧠 Deep Research
-          {mode === AnalysisMode.DEEP && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-purple-600 dark:bg-purple-500"></div>}
-        </button>
+      <div className="flex overflow-x-auto border-b border-gray-100 dark:border-slate-800" role="tablist">
+        {modes.map((option) => {
+          const active = mode === option.id;
+          // Modes that search the web get the purple research accent
+          const accent = option.gateway.webSearch
+            ? {
+                active: 'text-purple-700 dark:text-purple-400 bg-purple-50/30 dark:bg-purple-900/10',
+                idle: 'hover:text-purple-600 dark:hover:text-purple-300',
+                bar: 'bg-purple-600 dark:bg-purple-500',
+              }
+            : {
+                active: 'text-gray-900 dark:text-white bg-gray-50/50 dark:bg-slate-800/50',
+                idle: 'hover:text-gray-600 dark:hover:text-slate-300',
+                bar: 'bg-neutral-900 dark:bg-blue-500',
+              };
+          return (
+            <button
+              key={option.id}
+              role="tab"
+              aria-selected={active}
+              onClick={() => onAnalyze(option.id)}
+              disabled={isResolved}
+              title={option.description}
+              className={`flex-1 shrink-0 whitespace-nowrap px-4 py-4 text-sm font-semibold transition-all relative disabled:opacity-40 disabled:cursor-not-allowed ${
+                active ? accent.active : `text-gray-400 dark:text-slate-500 ${accent.idle}`
+              }`}
+            >
+              {option.icon} {option.label}
+              {active && <div className={`absolute bottom-0 left-0 w-full h-0.5 ${accent.bar}`}></div>}
+            </button>
+          );
+        })}
       </div>
 
       {/* Content Area */}
       <div className="p-6 md:p-8 flex-1 min-h-[400px] flex flex-col">
-        {isLoading ? (
+        {market && <ProvenanceBanner provenance={market.provenance} className="mb-6" />}
+        {market && <SettlementBanner market={market} className="mb-6" />}
+
+        {isLoading && partial && (partial.summary || partial.reasoning.length > 0) ? (
+          <div className="space-y-8">
+            {/* Streaming status */}
+            <div className="flex items-center gap-3 text-xs font-medium text-gray-500 dark:text-slate-400 tracking-wide uppercase">
+              <div className="w-4 h-4 border-2 border-gray-200 dark:border-slate-700 border-t-neutral-900 dark:border-t-blue-500 rounded-full animate-spin"></div>
+              <span className="animate-pulse">{partial.status?.message ?? 'Receiving analysis...'}</span>
+            </div>
+
+            {partial.summary && (
+              <div className="animate-fade-in">
+                <h3 className="text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest mb-3">Executive Summary</h3>
+                <p className="text-gray-700 dark:text-slate-300 leading-7 font-normal">{partial.summary}</p>
+              </div>
+            )}
+
+            {partial.reasoning.length > 0 && (
+              <div>
+                <h3 className="text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest mb-3">Key Factors</h3>
+                <ul className="space-y-3">
+                  {partial.reasoning.map((point, idx) => (
+                    <li key={idx} className="flex gap-3 text-sm text-gray-600 dark:text-slate-400 leading-relaxed animate-fade-in">
+                      <div className="mt-1.5 w-1.5 h-1.5 rounded-full bg-neutral-900 dark:bg-blue-500 flex-shrink-0"></div>
+                      <span>
+                        {point}
+                        <CitationMarkers indices={partial.citations[idx]} sources={partial.sources} />
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {partial.sources.length > 0 && (
+              <ul className="space-y-1 pt-6 border-t border-gray-100 dark:border-slate-800">
+                {partial.sources.map((source, idx) => (
+                  <li key={idx} className="text-xs text-purple-600 dark:text-purple-400 truncate animate-fade-in">{source.title}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : isLoading ? (
           <div className="m-auto flex flex-col items-center justify-center space-y-6">
             <div className="relative w-16 h-16">
               <div className="absolute inset-0 border-4 border-gray-200 dark:border-slate-800 rounded-full"></div>
               <div className="absolute inset-0 border-4 border-t-neutral-900 dark:border-t-blue-500 rounded-full animate-spin"></div>
             </div>
             <p className="text-sm font-medium text-gray-500 dark:text-slate-400 animate-pulse tracking-wide">
-              {mode === AnalysisMode.DEEP 
-                ? "SEARCHING LIVE SOURCES & ANALYZING..." 
-                : "ANALYZING MARKET DATA..."}
+              {partial?.status
+                ? `${partial.status.message.toUpperCase()}...`
+                : `${modeFor(mode).loadingCopy.toUpperCase()}...`}
             </p>
           </div>
         ) : !result ? (
@@ -81,9 +145,13 @@ const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, mode, isLoadi
             <div className="w-20 h-20 bg-gray-50 dark:bg-slate-800 rounded-full flex items-center justify-center mb-6">
               <svg className="w-10 h-10 text-gray-300 dark:text-slate-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1.5" d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z"></path></svg>
             </div>
-            <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-2">Ready to Analyze</h3>
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-2">
+              {isResolved ? 'Nothing Left to Analyze' : 'Ready to Analyze'}
+            </h3>
             <p className="text-gray-500 dark:text-slate-400 text-sm leading-relaxed">
-              Select an analysis mode above to let the AI research this market for you.
+              {isResolved
+                ? 'This market has already resolved. Past analyses are still available in the history panel.'
+                : 'Select an analysis mode above to let the AI research this market for you.'}
             </p>
           </div>
         ) : (
@@ -108,6 +176,16 @@ const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, mode, isLoadi
               </p>
             </div>
 
+            {/* Outcome-level trades */}
+            {result.tradeIdeas && result.tradeIdeas.length > 0 && (
+              <TradeIdeas ideas={result.tradeIdeas} outcomes={market?.outcomes} />
+            )}
+
+            {/* Fair Value vs Market */}
+            {market && result.fairProbabilities && (
+              <EdgeTable outcomes={market.outcomes} fairProbabilities={result.fairProbabilities} />
+            )}
+
             {/* Reasoning Points */}
             <div>
               <h3 className="text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest mb-3">Key Factors</h3>
@@ -115,41 +193,18 @@ const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, mode, isLoadi
                 {result.reasoning.map((point, idx) => (
                   <li key={idx} className="flex gap-3 text-sm text-gray-600 dark:text-slate-400 leading-relaxed">
                     <div className="mt-1.5 w-1.5 h-1.5 rounded-full bg-neutral-900 dark:bg-blue-500 flex-shrink-0"></div>
-                    <span>{point}</span>
+                    <span>
+                      {point}
+                      <CitationMarkers indices={result.citations?.[idx]} sources={result.sources ?? []} />
+                    </span>
                   </li>
                 ))}
               </ul>
             </div>
 
-            {/* Sources (Deep Mode Only) */}
-            {mode === AnalysisMode.DEEP && result.sources && result.sources.length > 0 && (
-              <div className="pt-6 border-t border-gray-100 dark:border-slate-800">
-                <h3 className="text-xs font-bold text-purple-600 dark:text-purple-400 uppercase tracking-widest mb-4 flex items-center gap-2">
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 20H5a2 2 0 01-2-2V6a2 2 0 012-2h10a2 2 0 012 2v1m2 13a2 2 0 01-2-2V7m2 13a2 2 0 002-2V9a2 2 0 00-2-2h-2m-4-3H9M7 16h6M7 8h6v4H7V8z"></path></svg>
-                  Verified Sources
-                </h3>
-                <div className="grid grid-cols-1 gap-2">
-                  {result.sources.map((source, idx) => (
-                    <a 
-                      key={idx}
-                      href={source.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center justify-between p-3 rounded-lg bg-gray-50 hover:bg-white border border-gray-200 hover:border-purple-300 hover:shadow-md dark:bg-slate-800 dark:hover:bg-slate-750 dark:border-slate-700 dark:hover:border-purple-500/50 transition-all group"
-                    >
-                      <div className="min-w-0">
-                        <div className="text-sm font-semibold text-gray-900 dark:text-slate-200 group-hover:text-purple-600 dark:group-hover:text-purple-400 truncate">
-                          {source.title}
-                        </div>
-                        <div className="text-xs text-gray-500 dark:text-slate-500 truncate mt-0.5">
-                          {new URL(source.url).hostname}
-                        </div>
-                      </div>
-                      <svg className="w-4 h-4 text-gray-400 group-hover:text-purple-500 dark:text-slate-600 dark:group-hover:text-purple-400 transform group-hover:translate-x-1 transition-all" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"></path></svg>
-                    </a>
-                  ))}
-                </div>
-              </div>
+            {/* Sources, numbered to match the citation markers */}
+            {result.sources && result.sources.length > 0 && (
+              <SourceList sources={result.sources} analyzedAt={result.request?.issuedAt ?? Date.now()} />
             )}
           </div>
         )}
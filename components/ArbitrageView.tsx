@@ -0,0 +1,267 @@
+import React, { useRef, useState } from 'react';
+import { getDiscoveryFeed, MARKET_CATEGORIES } from '../services/polymarketService';
+import { parseMarketList } from '../services/screener';
+import { ArbitrageTrade, MispricingFinding, MispricingKind, scanForArbitrage } from '../services/arbitrage';
+import { AbortedError } from '../services/errors';
+import Button from './Button';
+
+type Source = 'top' | 'list';
+
+interface ArbitrageViewProps {
+  onOpenMarket: (url: string) => void;
+}
+
+const KIND_STYLES: Record<MispricingKind, { label: string; className: string }> = {
+  overround: {
+    label: 'Overround',
+    className: 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-300 dark:border-amber-800/60',
+  },
+  underround: {
+    label: 'Underround',
+    className: 'bg-sky-50 text-sky-700 border-sky-200 dark:bg-sky-900/20 dark:text-sky-300 dark:border-sky-800/60',
+  },
+  complement: {
+    label: 'YES/NO mismatch',
+    className: 'bg-purple-50 text-purple-700 border-purple-200 dark:bg-purple-900/20 dark:text-purple-300 dark:border-purple-800/60',
+  },
+};
+
+const cents = (price: number) => `${(price * 100).toFixed(1)}¢`;
+const pct = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+
+const inputClass =
+  'bg-gray-50 dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded px-2 py-1.5 text-sm text-gray-900 dark:text-white';
+
+/**
+ * Legs of one trade with its cost, proceeds and locked-in return
+ */
+const TradeTable: React.FC<{ title: string; trade: ArbitrageTrade }> = ({ title, trade }) => {
+  const locked = trade.profit > 0;
+  return (
+    <div>
+      <div className="flex items-baseline justify-between gap-3 mb-1">
+        <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-400 dark:text-slate-500">{title}</h4>
+        <span className={`text-sm font-bold tabular-nums ${locked ? 'text-green-600 dark:text-green-400' : 'text-gray-400 dark:text-slate-500'}`}>
+          {locked ? `${cents(trade.profit)} per set · ${pct(trade.returnPct)}` : 'Spread eats the edge'}
+        </span>
+      </div>
+      <table className="w-full text-xs tabular-nums">
+        <tbody className="divide-y divide-gray-100 dark:divide-slate-800">
+          {trade.legs.map((leg) => (
+            <tr key={`${leg.marketId}:${leg.outcome}`} className="text-gray-600 dark:text-slate-300">
+              <td className={`py-1 pr-2 font-bold ${leg.side === 'BUY' ? 'text-green-600 dark:text-green-400' : 'text-red-500'}`}>{leg.side}</td>
+              <td className="py-1 pr-2 truncate max-w-[240px]" title={leg.market}>
+                {leg.outcome}
+                {trade.legs.some((other) => other.marketId !== leg.marketId) && (
+                  <span className="text-gray-400 dark:text-slate-500"> · {leg.market}</span>
+                )}
+              </td>
+              <td className="py-1 text-right">{cents(leg.price)}</td>
+              <td className="py-1 pl-2 text-right text-gray-400 dark:text-slate-500">
+                {leg.size !== undefined ? `${Math.floor(leg.size).toLocaleString()} sh` : ''}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-1 text-xs text-gray-400 dark:text-slate-500 tabular-nums">
+        Cost {cents(trade.cost)} → {cents(trade.proceeds)}
+        {trade.maxSets !== undefined && ` · up to ${Math.floor(trade.maxSets).toLocaleString()} sets at these prices`}
+        {trade.note && ` · ${trade.note}`}
+      </p>
+    </div>
+  );
+};
+
+const FindingCard: React.FC<{ finding: MispricingFinding; onOpenMarket: (url: string) => void }> = ({ finding, onOpenMarket }) => {
+  const kind = KIND_STYLES[finding.kind];
+  return (
+    <div className="p-5 rounded-2xl bg-white dark:bg-slate-900 border border-gray-100 dark:border-slate-800 shadow-xl shadow-gray-200/50 dark:shadow-black/40 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <button
+            onClick={() => onOpenMarket(finding.url)}
+            className="block text-left font-semibold text-gray-900 dark:text-white hover:underline truncate max-w-full"
+            title={finding.eventTitle}
+          >
+            {finding.eventTitle}
+          </button>
+          {finding.market && <p className="text-xs text-gray-500 dark:text-slate-400 truncate">{finding.market}</p>}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <span className={`text-[10px] font-black uppercase tracking-widest px-2 py-0.5 rounded border ${kind.className}`}>{kind.label}</span>
+          <span className="text-sm font-bold tabular-nums text-gray-900 dark:text-white" title="Sum of displayed prices">
+            Σ {(finding.priceSum * 100).toFixed(1)}%
+          </span>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <TradeTable title="At displayed prices" trade={finding.indicative} />
+        {finding.executable ? (
+          <TradeTable title="At best bid/ask" trade={finding.executable} />
+        ) : (
+          <p className="text-xs text-gray-400 dark:text-slate-500 italic self-center">
+            No executable price: order books were not checked or a leg has no quote.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Scans events for inconsistent prices across outcomes and sub-markets
+ */
+const ArbitrageView: React.FC<ArbitrageViewProps> = ({ onOpenMarket }) => {
+  const [source, setSource] = useState<Source>('top');
+  const [count, setCount] = useState('30');
+  const [category, setCategory] = useState('');
+  const [pasted, setPasted] = useState('');
+  const [minDeviation, setMinDeviation] = useState('2');
+  const [checkBooks, setCheckBooks] = useState(true);
+  const [onlyExecutable, setOnlyExecutable] = useState(false);
+
+  const [findings, setFindings] = useState<MispricingFinding[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const scan = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsScanning(true);
+    setFindings([]);
+    setStatus('Collecting events...');
+
+    try {
+      const inputs =
+        source === 'list'
+          ? parseMarketList(pasted)
+          : (
+              await getDiscoveryFeed(
+                { sort: 'volume24hr', category: category || undefined, limit: Math.max(1, Math.min(100, Number(count) || 1)) },
+                controller.signal
+              )
+            ).items.map((item) => item.url);
+      if (inputs.length === 0) {
+        setStatus('No events to scan.');
+        return;
+      }
+
+      const result = await scanForArbitrage(inputs, {
+        minDeviation: Math.max(0, Number(minDeviation) || 0) / 100,
+        checkBooks,
+        signal: controller.signal,
+        onProgress: (done, total, next) => {
+          setFindings(next);
+          setStatus(`Scanning ${done}/${total} events...`);
+        },
+      });
+      setFindings(result.findings);
+      const locked = result.findings.filter((f) => f.executable && f.executable.profit > 0).length;
+      setStatus(
+        `Scanned ${result.scanned} events · ${result.findings.length} findings` +
+          (checkBooks ? ` · ${locked} executable after spread` : '') +
+          (result.failed.length ? ` · ${result.failed.length} failed to load` : '')
+      );
+    } catch (e) {
+      setStatus(e instanceof AbortedError ? 'Stopped' : e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsScanning(false);
+      controllerRef.current = null;
+    }
+  };
+
+  const shown = onlyExecutable ? findings.filter((f) => f.executable && f.executable.profit > 0) : findings;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="p-6 rounded-2xl bg-white dark:bg-slate-900 border border-gray-100 dark:border-slate-800 shadow-xl shadow-gray-200/50 dark:shadow-black/40">
+        <h2 className="text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest mb-2">Arbitrage Detector</h2>
+        <p className="text-sm text-gray-500 dark:text-slate-400 max-w-2xl leading-relaxed mb-4">
+          Flags mutually exclusive events whose YES prices add up to more or less than 100%, and markets whose YES and NO
+          prices disagree. With order books checked, each finding is re-priced at the best bid/ask to show whether the
+          return survives the spread.
+        </p>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {([['top', 'Top events'], ['list', 'Pasted list']] as Array<[Source, string]>).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setSource(value)}
+              disabled={isScanning}
+              className={`text-sm px-4 py-1.5 rounded-full border transition-all ${
+                source === value
+                  ? 'bg-neutral-900 text-white border-neutral-900 dark:bg-blue-600 dark:border-blue-600'
+                  : 'bg-white dark:bg-slate-800 text-gray-600 dark:text-slate-300 border-gray-200 dark:border-slate-700 hover:border-gray-400 dark:hover:border-slate-500'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4 text-xs text-gray-500 dark:text-slate-400">
+          {source === 'top' && (
+            <>
+              <label className="flex flex-col gap-1">
+                Events
+                <input type="number" min="1" max="100" value={count} onChange={(e) => setCount(e.target.value)} className={`${inputClass} w-20 tabular-nums`} />
+              </label>
+              <label className="flex flex-col gap-1">
+                Category
+                <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClass}>
+                  <option value="">All</option>
+                  {MARKET_CATEGORIES.map((c) => (
+                    <option key={c.slug} value={c.slug}>{c.label}</option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
+          <label className="flex flex-col gap-1">
+            Min deviation %
+            <input type="number" min="0" step="0.5" value={minDeviation} onChange={(e) => setMinDeviation(e.target.value)} className={`${inputClass} w-20 tabular-nums`} />
+          </label>
+          <label className="flex items-center gap-2 pb-2">
+            <input type="checkbox" checked={checkBooks} onChange={(e) => setCheckBooks(e.target.checked)} />
+            Check order books
+          </label>
+          <label className="flex items-center gap-2 pb-2">
+            <input type="checkbox" checked={onlyExecutable} onChange={(e) => setOnlyExecutable(e.target.checked)} />
+            Executable only
+          </label>
+        </div>
+
+        {source === 'list' && (
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder="One Polymarket event URL or slug per line"
+            rows={5}
+            className={`${inputClass} w-full mt-4 font-mono text-xs`}
+          />
+        )}
+
+        <div className="mt-4 flex items-center justify-between gap-4">
+          <p className="text-xs text-gray-500 dark:text-slate-400">{status}</p>
+          {isScanning ? (
+            <Button variant="outline" onClick={() => controllerRef.current?.abort()}>Stop</Button>
+          ) : (
+            <Button onClick={scan}>Scan</Button>
+          )}
+        </div>
+      </div>
+
+      {shown.map((finding) => (
+        <FindingCard key={finding.id} finding={finding} onOpenMarket={onOpenMarket} />
+      ))}
+
+      {!isScanning && status && shown.length === 0 && (
+        <p className="text-center text-sm text-gray-400 dark:text-slate-500 italic">No mispricings above the threshold.</p>
+      )}
+    </div>
+  );
+};
+
+export default ArbitrageView;
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { AnalysisModeId } from '../types';
+import { BacktestMetrics, BacktestReport, CalibrationBucket, runBacktest } from '../services/backtest';
+import { listModes, modeFor } from '../services/analysisModes';
+import Button from './Button';
+
+const SERIES_COLORS = ['#3b82f6', '#a855f7', '#f59e0b', '#ef4444', '#10b981', '#0ea5e9', '#ec4899', '#84cc16'];
+
+/**
+ * Modes in the report, in registry order; modes that are no longer registered go last
+ */
+const reportModes = (report: BacktestReport): AnalysisModeId[] => {
+  const order = listModes().map((mode) => mode.id);
+  const rank = (id: AnalysisModeId) => (order.includes(id) ? order.indexOf(id) : order.length);
+  return Object.keys(report.byMode).sort((a, b) => rank(a) - rank(b));
+};
+
+const fixed = (value: number | undefined, digits = 3) => (value === undefined ? '—' : value.toFixed(digits));
+const pct = (value: number | undefined) => (value === undefined ? '—' : `${(value * 100).toFixed(0)}%`);
+const money = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
+interface MetricRow {
+  label: string;
+  hint?: string;
+  value: (m: BacktestMetrics) => string;
+}
+
+const METRIC_ROWS: MetricRow[] = [
+  { label: 'Resolved analyses', value: (m) => String(m.samples) },
+  { label: 'Brier score', hint: 'Lower is better. Market baseline in brackets.', value: (m) => `${fixed(m.brier)} (${fixed(m.marketBrier)})` },
+  { label: 'Log loss', hint: 'Lower is better. Market baseline in brackets.', value: (m) => `${fixed(m.logLoss)} (${fixed(m.marketLogLoss)})` },
+  { label: 'BUY hit rate', value: (m) => `${pct(m.byRecommendation.BUY.hitRate)} of ${m.byRecommendation.BUY.count}` },
+  { label: 'SELL hit rate', value: (m) => `${pct(m.byRecommendation.SELL.hitRate)} of ${m.byRecommendation.SELL.count}` },
+  { label: 'HOLD / AVOID', value: (m) => `${m.byRecommendation.HOLD.count} / ${m.byRecommendation.AVOID.count}` },
+  { label: 'P&L ($1 per call)', value: (m) => (m.staked > 0 ? money(m.pnl) : '—') },
+  { label: 'ROI', value: (m) => pct(m.roi) },
+];
+
+const SIZE = 220;
+const PAD = 28;
+
+/**
+ * Hit rate against stated confidence; points on the diagonal are well calibrated
+ */
+const CalibrationChart: React.FC<{ series: Array<{ label: string; color: string; buckets: CalibrationBucket[] }> }> = ({ series }) => {
+  const scale = (v: number) => PAD + v * (SIZE - 2 * PAD);
+  const y = (v: number) => SIZE - scale(v);
+  return (
+    <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-[280px]">
+      <rect x={PAD} y={PAD} width={SIZE - 2 * PAD} height={SIZE - 2 * PAD} className="fill-gray-50 dark:fill-slate-800/50" />
+      <line x1={scale(0)} y1={y(0)} x2={scale(1)} y2={y(1)} className="stroke-gray-300 dark:stroke-slate-600" strokeDasharray="4 4" />
+      {[0, 0.5, 1].map((tick) => (
+        <g key={tick} className="fill-gray-400 dark:fill-slate-500 text-[9px]">
+          <text x={scale(tick)} y={SIZE - 10} textAnchor="middle">{tick * 100}</text>
+          <text x={PAD - 6} y={y(tick) + 3} textAnchor="end">{tick * 100}</text>
+        </g>
+      ))}
+      {series.map(({ label, color, buckets }) => (
+        <g key={label}>
+          <polyline
+            fill="none"
+            stroke={color}
+            strokeWidth={1.5}
+            points={buckets.map((b) => `${scale(b.meanConfidence)},${y(b.hitRate)}`).join(' ')}
+          />
+          {buckets.map((b) => (
+            <circle key={b.lower} cx={scale(b.meanConfidence)} cy={y(b.hitRate)} r={2 + Math.min(4, Math.sqrt(b.count))} fill={color}>
+              <title>{`${label} · confidence ${b.lower}-${b.upper}: ${(b.hitRate * 100).toFixed(0)}% hit over ${b.count}`}</title>
+            </circle>
+          ))}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+/**
+ * Scores stored analyses against resolved outcomes, split by analysis mode
+ */
+const BacktestView: React.FC = () => {
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async () => {
+    setIsRunning(true);
+    setError(null);
+    setProgress('Loading stored analyses...');
+    try {
+      setReport(await runBacktest(undefined, { onProgress: (done, total) => setProgress(`Checking markets ${done}/${total}...`) }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const modes = report ? reportModes(report) : [];
+  const columns = [
+    { key: 'overall', label: 'All', metrics: report?.overall },
+    ...modes.map((mode) => ({ key: mode, label: modeFor(mode).label, metrics: report?.byMode[mode] })),
+  ];
+  const series = modes.map((mode, i) => ({
+    label: modeFor(mode).label,
+    color: SERIES_COLORS[i % SERIES_COLORS.length],
+    buckets: report!.byMode[mode].calibration,
+  }));
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="p-6 rounded-2xl bg-white dark:bg-slate-900 border border-gray-100 dark:border-slate-800 shadow-xl shadow-gray-200/50 dark:shadow-black/40">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest mb-2">Backtest</h2>
+            <p className="text-sm text-gray-500 dark:text-slate-400 max-w-xl leading-relaxed">
+              Checks every saved analysis against how its market resolved. Calls are scored at the price when the analysis ran.
+            </p>
+          </div>
+          <Button onClick={run} isLoading={isRunning}>{report ? 'Re-run' : 'Run backtest'}</Button>
+        </div>
+        {progress && <p className="mt-3 text-xs text-gray-400 dark:text-slate-500">{progress}</p>}
+        {error && <p className="mt-3 text-sm text-red-500">{error}</p>}
+        {report && (
+          <p className="mt-3 text-xs text-gray-400 dark:text-slate-500 tabular-nums">
+            {report.resolved} resolved · {report.pending} awaiting resolution{report.failed > 0 && ` · ${report.failed} could not be checked`}
+          </p>
+        )}
+      </div>
+
+      {report && report.resolved > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+          <div className="lg:col-span-8 p-6 rounded-2xl bg-white dark:bg-slate-900 border border-gray-100 dark:border-slate-800 shadow-xl shadow-gray-200/50 dark:shadow-black/40 overflow-x-auto">
+            <table className="w-full text-sm tabular-nums">
+              <thead>
+                <tr className="text-[10px] font-bold uppercase tracking-widest text-gray-400 dark:text-slate-500 text-right">
+                  <th className="text-left py-2 font-bold">Metric</th>
+                  {columns.map((col) => (
+                    <th key={col.key} className="py-2 font-bold">{col.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-slate-800">
+                {METRIC_ROWS.map((row) => (
+                  <tr key={row.label} className="text-right text-gray-700 dark:text-slate-300">
+                    <td className="text-left py-2 pr-3" title={row.hint}>{row.label}</td>
+                    {columns.map((col) => (
+                      <td key={col.key} className="py-2 pl-3">{row.value(col.metrics!)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="lg:col-span-4 p-6 rounded-2xl bg-white dark:bg-slate-900 border border-gray-100 dark:border-slate-800 shadow-xl shadow-gray-200/50 dark:shadow-black/40">
+            <h3 className="text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest mb-3">Calibration</h3>
+            <CalibrationChart series={series} />
+            <p className="mt-2 text-xs text-gray-400 dark:text-slate-500">
+              Confidence (x) vs. hit rate (y) of BUY/SELL calls; the dashed line is perfect calibration.
+            </p>
+            <ul className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs">
+              {series.map(({ label, color }) => (
+                <li key={label} className="flex items-center gap-1.5 text-gray-500 dark:text-slate-400">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+                  {label}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {report && report.resolved === 0 && (
+        <p className="text-center text-sm text-gray-400 dark:text-slate-500 italic">
+          None of the analyzed markets have resolved yet. Come back after some of them settle.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BacktestView;
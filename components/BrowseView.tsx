@@ -0,0 +1,217 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DiscoveryItem,
+  DiscoveryQuery,
+  DiscoverySort,
+  getDiscoveryFeed,
+  MARKET_CATEGORIES,
+} from '../services/polymarketService';
+import { createRequestChannel } from '../services/requestChannel';
+import { AbortedError } from '../services/errors';
+import ErrorBanner from './ErrorBanner';
+
+const PAGE_SIZE = 24;
+
+const SORTS: Array<{ value: DiscoverySort; label: string }> = [
+  { value: 'volume24hr', label: '24h volume' },
+  { value: 'liquidity', label: 'Liquidity' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'endingSoon', label: 'Ending soon' },
+];
+
+const MIN_LIQUIDITY = [
+  { value: 0, label: 'Any liquidity' },
+  { value: 1_000, label: '$1k+' },
+  { value: 10_000, label: '$10k+' },
+  { value: 100_000, label: '$100k+' },
+  { value: 1_000_000, label: '$1m+' },
+];
+
+interface BrowseViewProps {
+  onOpenMarket: (url: string) => void;
+}
+
+type Filters = Omit<DiscoveryQuery, 'offset' | 'limit'>;
+
+const formatEndDate = (endDate?: string) => {
+  if (!endDate) return 'No end date';
+  const date = new Date(endDate);
+  return Number.isNaN(date.getTime()) ? 'No end date' : `Ends ${date.toLocaleDateString()}`;
+};
+
+const selectClass =
+  'bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-lg px-3 py-1.5 text-sm text-gray-700 dark:text-slate-200';
+
+/**
+ * Filterable, infinitely scrolling feed of open events
+ */
+const BrowseView: React.FC<BrowseViewProps> = ({ onOpenMarket }) => {
+  const [filters, setFilters] = useState<Filters>({ sort: 'volume24hr', minLiquidity: 0 });
+  const [items, setItems] = useState<DiscoveryItem[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | undefined>(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [requests] = useState(() => createRequestChannel('discovery'));
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const loadPage = useCallback(
+    async (offset: number) => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const { value: page } = await requests.run(`${JSON.stringify(filters)} @${offset}`, (signal) =>
+          getDiscoveryFeed({ ...filters, offset, limit: PAGE_SIZE }, signal)
+        );
+        // Rankings can shift between pages, so drop events already shown
+        setItems((prev) =>
+          offset === 0 ? page.items : [...prev, ...page.items.filter((item) => !prev.some((seen) => seen.id === item.id))]
+        );
+        setNextOffset(page.nextOffset);
+      } catch (e) {
+        if (e instanceof AbortedError) return;
+        setError(e);
+      } finally {
+        if (!requests.current()) setIsLoading(false);
+      }
+    },
+    [filters, requests]
+  );
+
+  // New filters restart the feed; the previous query is cancelled
+  useEffect(() => {
+    setItems([]);
+    setNextOffset(0);
+    loadPage(0);
+    return () => requests.cancel();
+  }, [loadPage, requests]);
+
+  // Load the next page when the sentinel below the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || nextOffset === undefined || nextOffset === 0 || isLoading || error) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadPage(nextOffset);
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextOffset, isLoading, error, loadPage]);
+
+  const update = (patch: Partial<Filters>) => setFilters((prev) => ({ ...prev, ...patch }));
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Filters */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {[{ slug: undefined, label: 'All' }, ...MARKET_CATEGORIES].map((category) => (
+            <button
+              key={category.label}
+              onClick={() => update({ category: category.slug })}
+              className={`text-sm px-4 py-1.5 rounded-full border transition-all ${
+                filters.category === category.slug
+                  ? 'bg-neutral-900 text-white border-neutral-900 dark:bg-blue-600 dark:border-blue-600'
+                  : 'bg-white dark:bg-slate-800 text-gray-600 dark:text-slate-300 border-gray-200 dark:border-slate-700 hover:border-gray-400 dark:hover:border-slate-500'
+              }`}
+            >
+              {category.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500 dark:text-slate-400">
+          <select value={filters.sort} onChange={(e) => update({ sort: e.target.value as DiscoverySort })} className={selectClass} aria-label="Sort">
+            {SORTS.map((sort) => (
+              <option key={sort.value} value={sort.value}>{sort.label}</option>
+            ))}
+          </select>
+          <select
+            value={filters.minLiquidity ?? 0}
+            onChange={(e) => update({ minLiquidity: Number(e.target.value) })}
+            className={selectClass}
+            aria-label="Minimum liquidity"
+          >
+            {MIN_LIQUIDITY.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2">
+            Ends after
+            <input
+              type="date"
+              value={filters.endDateFrom?.slice(0, 10) ?? ''}
+              onChange={(e) => update({ endDateFrom: e.target.value ? `${e.target.value}T00:00:00Z` : undefined })}
+              className={selectClass}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            before
+            <input
+              type="date"
+              value={filters.endDateTo?.slice(0, 10) ?? ''}
+              onChange={(e) => update({ endDateTo: e.target.value ? `${e.target.value}T23:59:59Z` : undefined })}
+              className={selectClass}
+            />
+          </label>
+        </div>
+      </div>
+
+      {error != null && (
+        <ErrorBanner
+          error={error}
+          context="fetch"
+          onRetry={() => loadPage(nextOffset ?? 0)}
+          onDismiss={() => setError(null)}
+        />
+      )}
+
+      {/* Feed */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {items.map((item) => (
+          <button
+            key={item.id}
+            onClick={() => onOpenMarket(item.url)}
+            className="text-left p-4 rounded-2xl bg-white dark:bg-slate-900 border border-gray-100 dark:border-slate-800 hover:border-gray-300 dark:hover:border-slate-600 shadow-sm hover:shadow-lg shadow-gray-200/50 dark:shadow-black/40 transition-all flex flex-col gap-3"
+          >
+            <div className="flex items-start gap-3">
+              {item.image && <img src={item.image} alt="" className="w-10 h-10 rounded-lg object-cover shrink-0" loading="lazy" />}
+              <span className="font-semibold text-gray-900 dark:text-white leading-snug line-clamp-2">{item.title}</span>
+            </div>
+            {item.leading && (
+              <div className="flex items-center justify-between text-sm">
+                <span className="truncate text-gray-600 dark:text-slate-300" title={item.leading.name}>{item.leading.name}</span>
+                <span className="font-bold tabular-nums text-gray-900 dark:text-white">{(item.leading.price * 100).toFixed(0)}%</span>
+              </div>
+            )}
+            <div className="mt-auto flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-400 dark:text-slate-500 tabular-nums">
+              <span>{item.volume24hr} 24h</span>
+              <span>Liq {item.liquidity}</span>
+              {item.marketCount > 1 && <span>{item.marketCount} markets</span>}
+              <span className="ml-auto">{formatEndDate(item.endDate)}</span>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {!isLoading && !error && items.length === 0 && (
+        <p className="text-center text-sm text-gray-400 dark:text-slate-500 italic">No open markets match these filters.</p>
+      )}
+
+      <div ref={sentinelRef} className="flex justify-center py-4">
+        {isLoading ? (
+          <span className="text-sm text-gray-400 dark:text-slate-500 italic">Loading markets...</span>
+        ) : (
+          nextOffset !== undefined && nextOffset > 0 && !error && (
+            <button onClick={() => loadPage(nextOffset)} className="text-sm text-gray-500 hover:text-gray-900 dark:text-slate-400 dark:hover:text-white">
+              Load more
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BrowseView;
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { CacheStats, clearCache, getCacheStats, RuleStats, subscribeCacheStats } from '../services/requestCache';
+
+interface CacheDebugPanelProps {
+  onClose: () => void;
+}
+
+/**
+ * Floating panel with request cache hit/miss counters per endpoint
+ */
+const CacheDebugPanel: React.FC<CacheDebugPanelProps> = ({ onClose }) => {
+  const [stats, setStats] = useState<CacheStats>(getCacheStats);
+
+  useEffect(() => subscribeCacheStats(() => setStats(getCacheStats())), []);
+
+  const rows = Object.entries(stats.byRule) as [string, RuleStats][];
+  const totals = rows.reduce(
+    (acc, [, rule]) => ({ served: acc.served + rule.hits + rule.staleHits, requests: acc.requests + rule.hits + rule.staleHits + rule.misses }),
+    { served: 0, requests: 0 }
+  );
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-[360px] max-w-[calc(100vw-2rem)] rounded-xl bg-white dark:bg-slate-900 border border-gray-200 dark:border-slate-700 shadow-2xl shadow-gray-300/50 dark:shadow-black/60 text-xs animate-slide-up">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-slate-800">
+        <span className="font-bold uppercase tracking-widest text-gray-500 dark:text-slate-400">Request Cache</span>
+        <div className="flex items-center gap-3">
+          <button onClick={clearCache} className="font-semibold text-red-500 hover:text-red-600">Clear</button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700 dark:hover:text-white" aria-label="Close">×</button>
+        </div>
+      </div>
+
+      <div className="px-4 py-3 grid grid-cols-3 gap-2 text-center">
+        <div>
+          <div className="text-lg font-bold tabular-nums text-gray-900 dark:text-white">{stats.entries}</div>
+          <div className="text-gray-400 dark:text-slate-500">entries</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold tabular-nums text-gray-900 dark:text-white">{stats.inFlight}</div>
+          <div className="text-gray-400 dark:text-slate-500">in flight</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold tabular-nums text-green-600 dark:text-green-400">
+            {totals.requests ? `${Math.round((totals.served / totals.requests) * 100)}%` : '—'}
+          </div>
+          <div className="text-gray-400 dark:text-slate-500">hit rate</div>
+        </div>
+      </div>
+
+      <table className="w-full tabular-nums">
+        <thead>
+          <tr className="text-gray-400 dark:text-slate-500 text-right">
+            <th className="text-left font-semibold px-4 py-1">Endpoint</th>
+            <th className="font-semibold py-1" title="Fresh hits">Hit</th>
+            <th className="font-semibold py-1" title="Stale hits (revalidated in background)">Stale</th>
+            <th className="font-semibold py-1">Miss</th>
+            <th className="font-semibold py-1" title="Requests that joined an in-flight fetch">Dedup</th>
+            <th className="font-semibold px-4 py-1">Err</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-700 dark:text-slate-300">
+          {rows.map(([name, rule]) => (
+            <tr key={name} className="text-right border-t border-gray-50 dark:border-slate-800/60">
+              <td className="text-left px-4 py-1">{name}</td>
+              <td className="py-1">{rule.hits}</td>
+              <td className="py-1">{rule.staleHits}</td>
+              <td className="py-1">{rule.misses}</td>
+              <td className="py-1">{rule.deduped}</td>
+              <td className={`px-4 py-1 ${rule.errors ? 'text-red-500' : ''}`}>{rule.errors}</td>
+            </tr>
+          ))}
+          {rows.length === 0 && (
+            <tr>
+              <td colSpan={6} className="px-4 py-3 text-center text-gray-400 dark:text-slate-500">No requests yet</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+      <div className="h-2"></div>
+    </div>
+  );
+};
+
+export default CacheDebugPanel;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { FairProbability, Outcome } from '../types';
+import { computeEdges } from '../services/sizing';
+
+interface EdgeTableProps {
+  outcomes: Outcome[];
+  fairProbabilities: FairProbability[];
+}
+
+const KELLY_MULTIPLIERS = [
+  { label: 'Full', value: 1 },
+  { label: '½', value: 0.5 },
+  { label: '¼', value: 0.25 },
+];
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+const signed = (value: number, digits = 1) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const EdgeTable: React.FC<EdgeTableProps> = ({ outcomes, fairProbabilities }) => {
+  const [bankroll, setBankroll] = useState('1000');
+  const edges = computeEdges(outcomes, fairProbabilities);
+  const bankrollNum = Math.max(0, Number(bankroll) || 0);
+
+  if (edges.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest">Fair Value & Sizing</h3>
+        <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-slate-400">
+          Bankroll $
+          <input
+            type="number"
+            min="0"
+            value={bankroll}
+            onChange={(e) => setBankroll(e.target.value)}
+            className="w-24 bg-gray-50 dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded px-2 py-1 tabular-nums text-gray-900 dark:text-white"
+          />
+        </label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm tabular-nums">
+          <thead>
+            <tr className="text-[10px] font-bold uppercase tracking-widest text-gray-400 dark:text-slate-500 text-right">
+              <th className="text-left py-2 font-bold">Outcome</th>
+              <th className="py-2 font-bold">Price</th>
+              <th className="py-2 font-bold">Fair</th>
+              <th className="py-2 font-bold">Edge</th>
+              <th className="py-2 font-bold">EV/$</th>
+              {KELLY_MULTIPLIERS.map((k) => (
+                <th key={k.label} className="py-2 font-bold">{k.label} Kelly</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-slate-800">
+            {edges.map(({ outcome, fair, edge, evPerDollar, kelly }) => {
+              const positive = edge > 0;
+              return (
+                <tr key={outcome.name} className="text-right text-gray-700 dark:text-slate-300">
+                  <td className="text-left py-2 pr-2 truncate max-w-[140px]" title={outcome.name}>{outcome.name}</td>
+                  <td className="py-2">{pct(outcome.price)}</td>
+                  <td className="py-2 font-semibold text-gray-900 dark:text-white">{pct(fair)}</td>
+                  <td className={`py-2 font-semibold ${positive ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {signed(edge * 100)}pt
+                  </td>
+                  <td className={`py-2 ${evPerDollar > 0 ? 'text-green-600 dark:text-green-400' : 'text-gray-400 dark:text-slate-500'}`}>
+                    {signed(evPerDollar, 2)}
+                  </td>
+                  {KELLY_MULTIPLIERS.map((k) => (
+                    <td key={k.label} className="py-2 pl-2">
+                      {kelly > 0 ? `$${(bankrollNum * kelly * k.value).toFixed(0)}` : '—'}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-xs text-gray-400 dark:text-slate-500">
+        Stakes buy the outcome at its current price. Kelly assumes the model's fair probability is correct; fractional Kelly hedges against model error.
+      </p>
+    </div>
+  );
+};
+
+export default EdgeTable;
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { RateLimitError, ServiceError } from '../services/errors';
+import Button from './Button';
+
+export type ErrorContext = 'fetch' | 'analyze';
+
+interface ErrorBannerProps {
+  error: unknown;
+  context: ErrorContext;
+  onRetry?: () => void;
+  onDismiss: () => void;
+  /** Offered for offline fetch failures; loads clearly-labelled simulated data */
+  onUseSimulated?: () => void;
+}
+
+interface ErrorCopy {
+  title: string;
+  hint: string;
+  canRetry: boolean;
+}
+
+const describe = (error: unknown, context: ErrorContext): ErrorCopy => {
+  const subject = context === 'fetch' ? 'market data' : 'the analysis';
+
+  if (!(error instanceof ServiceError)) {
+    return {
+      title: context === 'fetch' ? 'Failed to fetch market data' : 'Analysis failed',
+      hint: 'Something unexpected went wrong. Please try again.',
+      canRetry: true,
+    };
+  }
+
+  switch (error.kind) {
+    case 'NOT_FOUND':
+      return {
+        title: 'Market not found',
+        hint: 'Check the URL, or type a few keywords and pick a market from the suggestions.',
+        canRetry: false,
+      };
+    case 'TIMEOUT':
+      return {
+        title: 'Request timed out',
+        hint: `The server took too long to return ${subject}. It may be under load.`,
+        canRetry: true,
+      };
+    case 'NETWORK':
+      return {
+        title: "Can't reach the server",
+        hint:
+          context === 'analyze'
+            ? 'Check your connection and that the analysis gateway is running (npm run gateway).'
+            : 'Check your internet connection or any ad blocker that may block polymarket.com.',
+        canRetry: true,
+      };
+    case 'RATE_LIMITED':
+      return {
+        title: 'Rate limited',
+        hint: `Too many requests for ${subject}. Wait a moment before trying again.`,
+        canRetry: true,
+      };
+    case 'MALFORMED':
+      return {
+        title: 'Unexpected response',
+        hint: `The server returned ${subject} in a format we couldn't read. Retrying may help; if not, the API may have changed.`,
+        canRetry: true,
+      };
+    case 'GATEWAY_CONFIG':
+      return {
+        title: 'Analysis gateway not configured',
+        hint: 'Set VITE_GEMINI_GATEWAY_URL (and VITE_GEMINI_GATEWAY_KEY if required) in .env.local, or start the local gateway with npm run gateway, then restart the dev server.',
+        canRetry: false,
+      };
+    case 'MARKET_RESOLVED':
+      return {
+        title: 'Market already resolved',
+        hint: `${error.message} There is no edge left to find; pick an open market instead.`,
+        canRetry: false,
+      };
+    case 'UPSTREAM':
+    default:
+      return {
+        title: context === 'fetch' ? 'Polymarket API error' : 'Analysis gateway error',
+        hint: error.retryable ? 'The server had a temporary problem.' : error.message,
+        canRetry: error.retryable,
+      };
+  }
+};
+
+/**
+ * Error notification with copy and recovery actions specific to the error type
+ */
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, context, onRetry, onDismiss, onUseSimulated }) => {
+  const copy = describe(error, context);
+  const retryAfterMs = error instanceof RateLimitError ? error.retryAfterMs : undefined;
+  const offline = error instanceof ServiceError && (error.kind === 'NETWORK' || error.kind === 'TIMEOUT');
+  const [waitSeconds, setWaitSeconds] = useState(() => Math.ceil((retryAfterMs ?? 0) / 1000));
+
+  // Count down Retry-After before enabling the retry button
+  useEffect(() => {
+    setWaitSeconds(Math.ceil((retryAfterMs ?? 0) / 1000));
+    if (!retryAfterMs) return;
+    const timer = setInterval(() => {
+      setWaitSeconds((prev) => {
+        if (prev <= 1) clearInterval(timer);
+        return Math.max(0, prev - 1);
+      });
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [error, retryAfterMs]);
+
+  return (
+    <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/50 text-red-600 dark:text-red-400 px-4 py-3 rounded-lg text-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="font-semibold">{copy.title}</div>
+          <p className="mt-1 text-red-500/90 dark:text-red-400/80 leading-relaxed">{copy.hint}</p>
+        </div>
+        <button onClick={onDismiss} className="shrink-0 text-red-400 hover:text-red-600 dark:hover:text-red-300" aria-label="Dismiss">
+          ×
+        </button>
+      </div>
+      {((copy.canRetry && onRetry) || (offline && onUseSimulated)) && (
+        <div className="mt-3 flex justify-end gap-2">
+          {offline && onUseSimulated && (
+            <Button variant="outline" onClick={onUseSimulated} className="!py-1.5 !px-3 text-xs">
+              Use simulated data
+            </Button>
+          )}
+          {copy.canRetry && onRetry && (
+            <Button variant="outline" onClick={onRetry} disabled={waitSeconds > 0} className="!py-1.5 !px-3 text-xs">
+              {waitSeconds > 0 ? `Retry in ${waitSeconds}s` : 'Retry'}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ErrorBanner;
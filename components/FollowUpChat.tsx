@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisResult, ChatMessage, MarketData } from '../types';
+import { askFollowUp } from '../services/geminiService';
+import { listAnalyses } from '../services/analysisHistory';
+import { clearThread, earlierSnapshots, loadThread, newMessageId, saveThread } from '../services/followUpThreads';
+import { createRequestChannel } from '../services/requestChannel';
+import { AbortedError } from '../services/errors';
+import Button from './Button';
+
+const SUGGESTIONS = [
+  'What would change your mind?',
+  'How does this compare to the last analysis?',
+  'What is the biggest risk to this call?',
+];
+
+interface FollowUpChatProps {
+  market: MarketData;
+  analysis: AnalysisResult;
+}
+
+const MessageBubble: React.FC<{ message: ChatMessage }> = ({ message }) =>
+  message.role === 'user' ? (
+    <div className="flex justify-end">
+      <p className="max-w-[85%] px-3 py-2 rounded-xl rounded-br-sm bg-neutral-900 text-white dark:bg-blue-600 text-sm whitespace-pre-wrap">
+        {message.content}
+      </p>
+    </div>
+  ) : (
+    <div className="max-w-[90%]">
+      <p className="px-3 py-2 rounded-xl rounded-bl-sm bg-gray-50 dark:bg-slate-800 text-sm text-gray-700 dark:text-slate-300 leading-relaxed whitespace-pre-wrap">
+        {message.content}
+      </p>
+      {message.sources && message.sources.length > 0 && (
+        <ul className="mt-1 pl-3 space-y-0.5">
+          {message.sources.map((source, idx) => (
+            <li key={idx} className="text-xs truncate">
+              <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-purple-600 dark:text-purple-400 hover:underline">
+                {source.title}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+/**
+ * Follow-up questions about the current analysis. The thread is saved per market,
+ * so it is still there after a reload or a re-analysis.
+ */
+const FollowUpChat: React.FC<FollowUpChatProps> = ({ market, analysis }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [requests] = useState(() => createRequestChannel('followup'));
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    requests.cancel();
+    setMessages([]);
+    setError(null);
+    setIsSending(false);
+    loadThread(market.id)
+      .then((saved) => {
+        if (!cancelled) setMessages(saved);
+      })
+      .catch((e) => console.warn('Failed to load follow-up thread', e));
+    return () => {
+      cancelled = true;
+      requests.cancel();
+    };
+  }, [market.id, requests]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages, isSending]);
+
+  const persist = (thread: ChatMessage[]) => {
+    setMessages(thread);
+    saveThread(market.id, thread).catch((e) => console.warn('Failed to save follow-up thread', e));
+  };
+
+  /**
+   * Sends a thread that ends with an unanswered question
+   */
+  const ask = async (thread: ChatMessage[]) => {
+    setError(null);
+    setIsSending(true);
+    try {
+      const { value } = await requests.run(`${market.id} followup`, async (signal) => {
+        const history = await listAnalyses(market.id).catch(() => []);
+        return askFollowUp(market, analysis, thread, { earlier: earlierSnapshots(history, analysis), signal });
+      });
+      persist([
+        ...thread,
+        { id: newMessageId(), role: 'assistant', content: value.reply, sources: value.sources, timestamp: Date.now() },
+      ]);
+      setIsSending(false);
+    } catch (e) {
+      if (e instanceof AbortedError) return;
+      setError(e instanceof Error ? e.message : String(e));
+      setIsSending(false);
+    }
+  };
+
+  const send = (text: string) => {
+    const content = text.trim();
+    if (!content || isSending) return;
+    const thread = [...messages, { id: newMessageId(), role: 'user' as const, content, timestamp: Date.now() }];
+    persist(thread);
+    setDraft('');
+    ask(thread);
+  };
+
+  const clear = () => {
+    requests.cancel();
+    setIsSending(false);
+    setError(null);
+    setMessages([]);
+    clearThread(market.id).catch((e) => console.warn('Failed to clear follow-up thread', e));
+  };
+
+  const unanswered = messages.length > 0 && messages[messages.length - 1].role === 'user';
+
+  return (
+    <div className="mt-6 p-6 rounded-2xl bg-white dark:bg-slate-900 border border-gray-100 dark:border-slate-800 shadow-xl shadow-gray-200/50 dark:shadow-black/40">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest">Ask a Follow-up</h3>
+        {messages.length > 0 && (
+          <button onClick={clear} className="text-xs text-gray-400 hover:text-red-500 dark:text-slate-500 transition-colors">
+            Clear thread
+          </button>
+        )}
+      </div>
+
+      {messages.length > 0 && (
+        <div ref={scrollRef} className="max-h-96 overflow-y-auto space-y-3 mb-4 pr-1">
+          {messages.map((message) => (
+            <MessageBubble key={message.id} message={message} />
+          ))}
+          {isSending && <p className="text-xs text-gray-400 dark:text-slate-500 animate-pulse">Thinking...</p>}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-3 flex items-center justify-between gap-3 text-sm text-red-500">
+          <span>{error}</span>
+          {unanswered && (
+            <button onClick={() => ask(messages)} className="shrink-0 text-xs font-semibold uppercase tracking-wide hover:underline">
+              Retry
+            </button>
+          )}
+        </div>
+      )}
+
+      {messages.length === 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {SUGGESTIONS.map((suggestion) => (
+            <button
+              key={suggestion}
+              onClick={() => send(suggestion)}
+              className="text-xs px-3 py-1.5 rounded-full border bg-white dark:bg-slate-800 text-gray-600 dark:text-slate-300 border-gray-200 dark:border-slate-700 hover:border-gray-400 dark:hover:border-slate-500 transition-all"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              send(draft);
+            }
+          }}
+          rows={2}
+          placeholder="Ask about this analysis"
+          className="flex-1 resize-none bg-gray-50 dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-gray-900 dark:text-white"
+        />
+        <Button onClick={() => send(draft)} disabled={!draft.trim() || isSending || unanswered}>
+          Send
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default FollowUpChat;
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { AnalysisRecord, deleteAnalysis, diffAnalyses, listAnalyses } from '../services/analysisHistory';
+import { modeFor } from '../services/analysisModes';
+
+interface HistoryPanelProps {
+  marketId: string;
+  refreshKey: number; // Bump to reload after a new run is saved
+  onRestore: (record: AnalysisRecord) => void;
+}
+
+const signedPts = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}pt`;
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ marketId, refreshKey, onRestore }) => {
+  const [records, setRecords] = useState<AnalysisRecord[]>([]);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listAnalyses(marketId)
+      .then((data) => {
+        if (!cancelled) setRecords(data);
+      })
+      .catch((e) => console.warn('Failed to load analysis history', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [marketId, refreshKey]);
+
+  useEffect(() => {
+    setCompareIds([]);
+  }, [marketId]);
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((prev) =>
+      prev.includes(id) ? prev.filter((existing) => existing !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteAnalysis(id);
+    setRecords((prev) => prev.filter((record) => record.id !== id));
+    setCompareIds((prev) => prev.filter((existing) => existing !== id));
+  };
+
+  if (records.length === 0) {
+    return null;
+  }
+
+  const compared = records.filter((record) => compareIds.includes(record.id));
+  const diff = compared.length === 2 ? diffAnalyses(compared[0], compared[1]) : null;
+
+  return (
+    <div className="p-6 rounded-2xl bg-white dark:bg-slate-900 border border-gray-100 dark:border-slate-800 shadow-xl shadow-gray-200/50 dark:shadow-black/40">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest">Analysis History</h3>
+        <span className="text-[10px] text-gray-400 dark:text-slate-500">Tick two runs to compare</span>
+      </div>
+
+      <ul className="space-y-1 max-h-64 overflow-y-auto pr-1">
+        {records.map((record) => (
+          <li
+            key={record.id}
+            className="flex items-center gap-3 px-2 py-1.5 rounded-lg text-sm hover:bg-gray-50 dark:hover:bg-slate-800/60 group"
+          >
+            <input
+              type="checkbox"
+              checked={compareIds.includes(record.id)}
+              onChange={() => toggleCompare(record.id)}
+              className="accent-neutral-900 dark:accent-blue-500"
+            />
+            <button onClick={() => onRestore(record)} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+              <span className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-gray-100 text-gray-500 dark:bg-slate-800 dark:text-slate-400">
+                {modeFor(record.mode).label}
+              </span>
+              <span className="font-semibold text-gray-900 dark:text-white">{record.result.recommendation}</span>
+              <span className="text-gray-500 dark:text-slate-400 tabular-nums">{record.result.confidenceScore}%</span>
+              <span className="ml-auto text-xs text-gray-400 dark:text-slate-500 tabular-nums">
+                {new Date(record.timestamp).toLocaleString()}
+              </span>
+            </button>
+            <button
+              onClick={() => handleDelete(record.id)}
+              className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500 transition-opacity"
+              aria-label="Delete run"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {diff && (
+        <div className="mt-4 pt-4 border-t border-gray-100 dark:border-slate-800 space-y-2 text-sm animate-fade-in">
+          <div className="flex justify-between">
+            <span className="text-gray-500 dark:text-slate-400">Recommendation</span>
+            <span className={`font-semibold ${diff.recommendationChanged ? 'text-purple-600 dark:text-purple-400' : 'text-gray-900 dark:text-white'}`}>
+              {diff.from.result.recommendation} → {diff.to.result.recommendation}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500 dark:text-slate-400">Confidence</span>
+            <span className={`font-semibold tabular-nums ${diff.confidenceDelta >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {diff.confidenceDelta >= 0 ? '+' : ''}{diff.confidenceDelta}
+            </span>
+          </div>
+          {diff.priceMoves.filter((move) => Math.abs(move.delta) >= 0.0005).map((move) => (
+            <div key={move.outcome} className="flex justify-between text-xs">
+              <span className="text-gray-500 dark:text-slate-400 truncate pr-2">{move.outcome}</span>
+              <span className="tabular-nums text-gray-700 dark:text-slate-300">
+                {(move.before * 100).toFixed(1)}% → {(move.after * 100).toFixed(1)}%{' '}
+                <span className={move.delta >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                  ({signedPts(move.delta)})
+                </span>
+              </span>
+            </div>
+          ))}
+          {diff.priceMoves.every((move) => Math.abs(move.delta) < 0.0005) && (
+            <p className="text-xs text-gray-400 dark:text-slate-500">No price moves between these runs.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
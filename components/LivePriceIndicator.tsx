@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { PriceStreamStatus } from '../services/polymarketService';
+
+/**
+ * State of the live price stream for the displayed market
+ */
+export interface LivePrices {
+  status: PriceStreamStatus;
+  updatedAt?: number; // Unix ms of the last tick
+  ticks: Record<string, { direction: 'up' | 'down'; at: number }>; // Latest move per outcome token id
+}
+
+const STATUS_STYLES: Record<PriceStreamStatus, { dot: string; label: string }> = {
+  live: { dot: 'bg-emerald-500', label: 'Live' },
+  connecting: { dot: 'bg-amber-400 animate-pulse', label: 'Connecting' },
+  reconnecting: { dot: 'bg-amber-400 animate-pulse', label: 'Reconnecting' },
+  closed: { dot: 'bg-gray-400 dark:bg-slate-600', label: 'Offline' },
+};
+
+const formatAge = (ms: number): string => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m ago` : `${Math.floor(minutes / 60)}h ago`;
+};
+
+/**
+ * Stream status dot with the time since the last price update
+ */
+const LivePriceIndicator: React.FC<{ live: LivePrices }> = ({ live }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, []);
+
+  const style = STATUS_STYLES[live.status];
+  return (
+    <span className="inline-flex items-center gap-1.5 text-xs text-gray-500 dark:text-slate-400 tabular-nums">
+      <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+      {style.label}
+      <span className="text-gray-400 dark:text-slate-500">
+        · {live.updatedAt ? `updated ${formatAge(now - live.updatedAt)}` : 'waiting for ticks'}
+      </span>
+    </span>
+  );
+};
+
+export default LivePriceIndicator;
@@ -1,5 +1,14 @@
-import React from 'react';
-import { MarketData } from '../types';
+import React, { useMemo } from 'react';
+import { EventData, MarketData, TradeIdea } from '../types';
+import { getYesPrice } from '../services/polymarketService';
+import { analyzeResolutionRules } from '../services/resolutionRules';
+import PriceChart from './PriceChart';
+import OrderBookPanel from './OrderBookPanel';
+import ProvenanceBanner from './ProvenanceBanner';
+import SettlementBanner from './SettlementBanner';
+import { ideasForOutcome, TradeIdeaChip } from './TradeIdeas';
+import ResolutionRulesPanel from './ResolutionRulesPanel';
+import LivePriceIndicator, { LivePrices } from './LivePriceIndicator';
 
 // Helper Subcomponent for badges
 interface BadgeProps {
@@ -24,14 +33,110 @@ const Badge = ({ children, icon }: BadgeProps) => {
   );
 }
 
+interface SubMarketListProps {
+  event: EventData;
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+  onAnalyzeSelection?: () => void;
+}
+
+const SubMarketList = ({ event, selectedIds, onSelectionChange, onAnalyzeSelection }: SubMarketListProps) => {
+  const toggle = (id: string) => {
+    onSelectionChange(
+      selectedIds.includes(id) ? selectedIds.filter((selected) => selected !== id) : [...selectedIds, id]
+    );
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-100 dark:border-slate-800">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest">
+          {event.markets.length} Markets in Event
+        </h3>
+        {onAnalyzeSelection && (
+          <button
+            onClick={onAnalyzeSelection}
+            disabled={selectedIds.length === 0}
+            className="text-xs font-semibold uppercase tracking-wide text-blue-600 hover:text-blue-500 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            Analyze {selectedIds.length} selected
+          </button>
+        )}
+      </div>
+      <ul className="max-h-72 overflow-y-auto space-y-1 pr-1">
+        {event.markets.map((market) => {
+          const checked = selectedIds.includes(market.id);
+          return (
+            <li key={market.id}>
+              <label
+                className={`flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-sm border transition-colors ${
+                  checked
+                    ? 'bg-blue-50 border-blue-200 dark:bg-blue-900/20 dark:border-blue-900/50'
+                    : 'border-transparent hover:bg-gray-50 dark:hover:bg-slate-800/60'
+                } ${market.status === 'open' ? '' : 'opacity-60'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  onChange={() => toggle(market.id)}
+                  className="accent-neutral-900 dark:accent-blue-500"
+                />
+                <span className="flex-1 min-w-0 truncate text-gray-700 dark:text-slate-300" title={market.question}>
+                  {market.groupItemTitle || market.question}
+                </span>
+                {market.status !== 'open' && (
+                  <span className="shrink-0 text-[10px] font-bold uppercase tracking-wide px-1.5 py-0.5 rounded bg-gray-100 text-gray-500 dark:bg-slate-800 dark:text-slate-400">
+                    {market.status === 'resolved' ? `Resolved${market.winningOutcome ? ` · ${market.winningOutcome}` : ''}` : 'Closed'}
+                  </span>
+                )}
+                <span className="font-semibold tabular-nums text-gray-900 dark:text-white">
+                  {(getYesPrice(market) * 100).toFixed(1)}¢
+                </span>
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
 interface MarketCardProps {
   data: MarketData;
+  event?: EventData;
+  selectedMarketIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
+  onAnalyzeSelection?: () => void;
+  tradeIdeas?: TradeIdea[]; // From the current analysis, shown next to the outcomes they name
+  live?: LivePrices; // Set while prices are streaming
 }
 
-const MarketCard: React.FC<MarketCardProps> = ({ data }) => {
+const MarketCard: React.FC<MarketCardProps> = ({
+  data,
+  event,
+  selectedMarketIds = [],
+  onSelectionChange,
+  onAnalyzeSelection,
+  tradeIdeas,
+  live,
+}) => {
+  const isResolved = data.status === 'resolved';
+  const { description, endDate, resolutionSource } = data;
+  // Keyed on the rules fields so live price ticks don't re-parse them
+  const rules = useMemo(
+    () => analyzeResolutionRules({ description, endDate, resolutionSource }),
+    [description, endDate, resolutionSource]
+  );
+
   return (
     <div className="group relative bg-white dark:bg-slate-900 rounded-2xl border border-gray-100 dark:border-slate-800 p-6 md:p-8 shadow-xl shadow-gray-200/50 dark:shadow-black/40 transition-all duration-300 hover:border-gray-300 dark:hover:border-slate-700">
       
+      {/* Data provenance warning */}
+      <ProvenanceBanner provenance={data.provenance} className="mb-6" />
+
+      {/* Settled / closed state */}
+      <SettlementBanner market={data} className="mb-6" />
+
       {/* Header Section */}
       <div className="flex justify-between items-start mb-6">
         <div className="w-full">
@@ -50,49 +155,76 @@ const MarketCard: React.FC<MarketCardProps> = ({ data }) => {
             {data.endDate && (
                <Badge icon="calendar">{new Date(data.endDate).toLocaleDateString()}</Badge>
             )}
+            {live && <LivePriceIndicator live={live} />}
           </div>
         </div>
       </div>
 
       {/* Outcomes Section */}
       <div className="space-y-5">
-        {data.outcomes.map((outcome, idx) => (
-          <div key={idx} className="relative">
-            <div className="flex justify-between text-sm mb-2 font-medium">
-              <span className="text-gray-700 dark:text-slate-300">{outcome.name}</span>
-              <div className="flex items-center gap-2">
-                <span className={`text-lg font-bold tabular-nums ${outcome.probability > 0.5 ? 'text-blue-600 dark:text-blue-400' : 'text-gray-500 dark:text-slate-500'}`}>
-                  {(outcome.probability * 100).toFixed(1)}%
+        {data.outcomes.map((outcome, idx) => {
+          const isWinner = isResolved && outcome.name === data.winningOutcome;
+          const tick = outcome.tokenId ? live?.ticks[outcome.tokenId] : undefined;
+          return (
+            <div key={idx} className={`relative ${isResolved && !isWinner ? 'opacity-50' : ''}`}>
+              <div className="flex justify-between text-sm mb-2 font-medium">
+                <span className="text-gray-700 dark:text-slate-300">
+                  {outcome.name}
+                  {isWinner && <span className="ml-2 text-xs font-bold uppercase tracking-wide text-emerald-600 dark:text-emerald-400">✓ Won</span>}
                 </span>
+                <div className="flex items-center gap-2">
+                  {ideasForOutcome(tradeIdeas, outcome.name).map((idea, ideaIdx) => (
+                    <TradeIdeaChip key={ideaIdx} idea={idea} />
+                  ))}
+                  {/* Keyed on the tick so each update restarts the flash */}
+                  <span
+                    key={tick?.at}
+                    className={`text-lg font-bold tabular-nums px-1 -mx-1 rounded ${
+                      tick ? (tick.direction === 'up' ? 'animate-tick-up' : 'animate-tick-down') : ''
+                    } ${outcome.probability > 0.5 ? 'text-blue-600 dark:text-blue-400' : 'text-gray-500 dark:text-slate-500'}`}
+                  >
+                    {(outcome.probability * 100).toFixed(1)}%
+                  </span>
+                </div>
               </div>
-            </div>
             
-            {/* Progress Bar */}
-            <div className="w-full bg-gray-100 dark:bg-slate-800 rounded-full h-3 overflow-hidden">
-              <div 
-                className={`h-full rounded-full transition-all duration-1000 ease-out relative ${
-                  outcome.probability > 0.5 
-                    ? 'bg-neutral-900 dark:bg-blue-600' 
-                    : 'bg-gray-300 dark:bg-slate-600'
-                }`}
-                style={{ width: `${outcome.probability * 100}%` }}
-              >
-                {/* Subtle shine effect */}
-                <div className="absolute inset-0 bg-white/10 w-full h-full transform -skew-x-12 -translate-x-full animate-[shimmer_2.5s_infinite]"></div>
+              {/* Progress Bar */}
+              <div className="w-full bg-gray-100 dark:bg-slate-800 rounded-full h-3 overflow-hidden">
+                <div 
+                  className={`h-full rounded-full transition-all duration-1000 ease-out relative ${
+                    outcome.probability > 0.5 
+                      ? 'bg-neutral-900 dark:bg-blue-600' 
+                      : 'bg-gray-300 dark:bg-slate-600'
+                  }`}
+                  style={{ width: `${outcome.probability * 100}%` }}
+                >
+                  {/* Subtle shine effect */}
+                  <div className="absolute inset-0 bg-white/10 w-full h-full transform -skew-x-12 -translate-x-full animate-[shimmer_2.5s_infinite]"></div>
+                </div>
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
       
-      {/* Description Footer */}
-      {data.description && (
-        <div className="mt-8 pt-6 border-t border-gray-100 dark:border-slate-800">
-          <p className="text-sm text-gray-500 dark:text-slate-400 line-clamp-3 hover:line-clamp-none transition-all cursor-pointer leading-relaxed">
-            {data.description}
-          </p>
-        </div>
+      {/* Price History */}
+      <PriceChart outcomes={data.outcomes} />
+
+      {/* Order Book Depth (books are emptied once trading stops) */}
+      {data.status === 'open' && <OrderBookPanel outcomes={data.outcomes} />}
+
+      {/* Sub-markets (multi-market events) */}
+      {event && event.markets.length > 1 && onSelectionChange && (
+        <SubMarketList
+          event={event}
+          selectedIds={selectedMarketIds}
+          onSelectionChange={onSelectionChange}
+          onAnalyzeSelection={onAnalyzeSelection}
+        />
       )}
+
+      {/* Resolution rules, parsed and flagged */}
+      <ResolutionRulesPanel rules={rules} description={data.description} />
       
       <div className="mt-6 flex justify-end">
         <a 
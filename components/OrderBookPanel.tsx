@@ -0,0 +1,178 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { OrderBook, OrderBookLevel, Outcome } from '../types';
+import { getOrderBook } from '../services/polymarketService';
+import { depthWithin, estimateFill } from '../services/orderBook';
+
+const LEVELS_SHOWN = 8;
+
+interface OrderBookPanelProps {
+  outcomes: Outcome[];
+}
+
+const cents = (price: number | undefined) => (price === undefined ? '—' : `${(price * 100).toFixed(1)}¢`);
+const dollars = (amount: number) =>
+  amount >= 1000 ? `$${(amount / 1000).toFixed(1)}k` : `$${amount.toFixed(0)}`;
+
+interface DepthRowProps {
+  level: OrderBookLevel;
+  maxNotional: number;
+  side: 'bid' | 'ask';
+}
+
+const DepthRow: React.FC<DepthRowProps> = ({ level, maxNotional, side }) => {
+  const notional = level.price * level.size;
+  return (
+    <div className="relative flex justify-between px-2 py-0.5 text-xs tabular-nums">
+      <div
+        className={`absolute inset-y-0 ${side === 'bid' ? 'right-0 bg-green-500/10' : 'left-0 bg-red-500/10'}`}
+        style={{ width: `${(notional / maxNotional) * 100}%` }}
+      ></div>
+      <span className={`relative ${side === 'bid' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+        {cents(level.price)}
+      </span>
+      <span className="relative text-gray-500 dark:text-slate-400">{dollars(notional)}</span>
+    </div>
+  );
+};
+
+const OrderBookPanel: React.FC<OrderBookPanelProps> = ({ outcomes }) => {
+  const tradable = outcomes.filter((outcome) => outcome.tokenId);
+  const [tokenId, setTokenId] = useState<string | undefined>(tradable[0]?.tokenId);
+  const [book, setBook] = useState<OrderBook | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [stake, setStake] = useState('100');
+
+  const tokenKey = tradable.map((outcome) => outcome.tokenId).join(',');
+
+  useEffect(() => {
+    if (!tradable.some((outcome) => outcome.tokenId === tokenId)) {
+      setTokenId(tradable[0]?.tokenId);
+    }
+  }, [tokenKey]);
+
+  useEffect(() => {
+    const outcome = tradable.find((o) => o.tokenId === tokenId);
+    if (!outcome) return;
+    let cancelled = false;
+    setError(null);
+    getOrderBook(outcome)
+      .then((data) => {
+        if (!cancelled) setBook(data);
+      })
+      .catch((e) => {
+        if (!cancelled) {
+          setBook(null);
+          setError(e instanceof Error ? e.message : String(e));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenId]);
+
+  const fill = useMemo(() => {
+    const amount = Number(stake);
+    return book && amount > 0 ? estimateFill(book, amount) : null;
+  }, [book, stake]);
+
+  if (tradable.length === 0) {
+    return null;
+  }
+
+  const bids = book?.bids.slice(0, LEVELS_SHOWN) ?? [];
+  const asks = book?.asks.slice(0, LEVELS_SHOWN) ?? [];
+  const maxNotional = Math.max(1, ...[...bids, ...asks].map((level) => level.price * level.size));
+  const depth = book ? depthWithin(book, 0.02) : null;
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-100 dark:border-slate-800">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest">Order Book</h3>
+        {tradable.length > 1 && (
+          <select
+            value={tokenId}
+            onChange={(e) => setTokenId(e.target.value)}
+            className="text-xs bg-gray-50 dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded px-2 py-1 text-gray-700 dark:text-slate-300 max-w-[50%]"
+          >
+            {tradable.map((outcome) => (
+              <option key={outcome.tokenId} value={outcome.tokenId}>
+                {outcome.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">Order book unavailable: {error}</p>
+      ) : !book ? (
+        <p className="text-sm text-gray-400 dark:text-slate-500">Loading order book...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2 mb-3 text-center">
+            <div>
+              <div className="text-[10px] font-bold uppercase tracking-widest text-gray-400 dark:text-slate-500">Bid</div>
+              <div className="text-sm font-semibold tabular-nums text-green-600 dark:text-green-400">{cents(book.bestBid)}</div>
+            </div>
+            <div>
+              <div className="text-[10px] font-bold uppercase tracking-widest text-gray-400 dark:text-slate-500">Spread</div>
+              <div className="text-sm font-semibold tabular-nums text-gray-900 dark:text-white">{cents(book.spread)}</div>
+            </div>
+            <div>
+              <div className="text-[10px] font-bold uppercase tracking-widest text-gray-400 dark:text-slate-500">Ask</div>
+              <div className="text-sm font-semibold tabular-nums text-red-600 dark:text-red-400">{cents(book.bestAsk)}</div>
+            </div>
+          </div>
+
+          {/* Depth ladder */}
+          <div className="grid grid-cols-2 gap-2 rounded-lg bg-gray-50 dark:bg-slate-800/50 p-2">
+            <div>
+              {bids.map((level) => (
+                <DepthRow key={`b${level.price}`} level={level} maxNotional={maxNotional} side="bid" />
+              ))}
+              {bids.length === 0 && <p className="text-xs text-gray-400 text-center py-2">No bids</p>}
+            </div>
+            <div>
+              {asks.map((level) => (
+                <DepthRow key={`a${level.price}`} level={level} maxNotional={maxNotional} side="ask" />
+              ))}
+              {asks.length === 0 && <p className="text-xs text-gray-400 text-center py-2">No asks</p>}
+            </div>
+          </div>
+          {depth && (
+            <p className="mt-2 text-xs text-gray-500 dark:text-slate-500">
+              Within 2¢ of mid: {dollars(depth.bid)} bid / {dollars(depth.ask)} ask
+            </p>
+          )}
+
+          {/* Slippage calculator */}
+          <div className="mt-4 flex items-center gap-3 text-sm">
+            <label className="text-gray-500 dark:text-slate-400 shrink-0">Buy $</label>
+            <input
+              type="number"
+              min="0"
+              value={stake}
+              onChange={(e) => setStake(e.target.value)}
+              className="w-24 bg-gray-50 dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded px-2 py-1 tabular-nums text-gray-900 dark:text-white"
+            />
+            {fill && fill.shares > 0 && (
+              <span className="text-xs text-gray-600 dark:text-slate-400 tabular-nums">
+                avg {cents(fill.avgPrice)} · {fill.shares.toFixed(0)} sh ·{' '}
+                <span className={fill.slippagePct > 0.02 ? 'text-red-600 dark:text-red-400 font-semibold' : ''}>
+                  {(fill.slippage * 100).toFixed(2)}¢ ({(fill.slippagePct * 100).toFixed(1)}%) vs mid
+                </span>
+              </span>
+            )}
+          </div>
+          {fill && !fill.complete && (
+            <p className="mt-2 text-xs font-medium text-red-600 dark:text-red-400">
+              Book exhausted: only {dollars(fill.filledStake)} of {dollars(fill.stake)} could be filled.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OrderBookPanel;
@@ -0,0 +1,408 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { EventData } from '../types';
+import { getEventData } from '../services/polymarketService';
+import {
+  CsvImportResult,
+  deletePosition,
+  importPositionsCsv,
+  listPositions,
+  markPositions,
+  Position,
+  positionFor,
+  PositionMark,
+  positionUrl,
+  savePosition,
+  summarizeExposure,
+} from '../services/portfolio';
+import { createRequestChannel } from '../services/requestChannel';
+import { AbortedError } from '../services/errors';
+import Button from './Button';
+import ErrorBanner from './ErrorBanner';
+
+const REFRESH_INTERVAL_MS = 60_000;
+
+interface PortfolioViewProps {
+  onOpenMarket: (url: string) => void;
+}
+
+const money = (value: number | undefined) =>
+  value === undefined ? '—' : `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const signedMoney = (value: number | undefined) => (value === undefined || value < 0 ? money(value) : `+${money(value)}`);
+const cents = (price: number | undefined) => (price === undefined ? '—' : `${(price * 100).toFixed(1)}¢`);
+const pnlClass = (value: number | undefined) =>
+  value === undefined || Math.abs(value) < 0.005
+    ? 'text-gray-500 dark:text-slate-400'
+    : value > 0
+      ? 'text-green-600 dark:text-green-400'
+      : 'text-red-500';
+
+const inputClass =
+  'bg-gray-50 dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded px-2 py-1.5 text-sm text-gray-900 dark:text-white';
+const cardClass =
+  'p-6 rounded-2xl bg-white dark:bg-slate-900 border border-gray-100 dark:border-slate-800 shadow-xl shadow-gray-200/50 dark:shadow-black/40';
+const headingClass = 'text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest';
+
+/**
+ * Form for one position: look up a market, pick the outcome, enter size and entry price
+ */
+const AddPositionForm: React.FC<{ onAdded: () => void }> = ({ onAdded }) => {
+  const [url, setUrl] = useState('');
+  const [event, setEvent] = useState<EventData | null>(null);
+  const [marketId, setMarketId] = useState('');
+  const [outcome, setOutcome] = useState('');
+  const [shares, setShares] = useState('');
+  const [avgPrice, setAvgPrice] = useState('');
+  const [isLooking, setIsLooking] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const market = event?.markets.find((m) => m.id === marketId);
+
+  const selectOutcome = (name: string, prices = market?.outcomes) => {
+    setOutcome(name);
+    const price = prices?.find((o) => o.name === name)?.price;
+    if (price !== undefined) setAvgPrice(price.toFixed(3));
+  };
+
+  const lookUp = async () => {
+    setIsLooking(true);
+    setError(null);
+    try {
+      const loaded = await getEventData(url.trim());
+      const selected = loaded.markets.find((m) => m.id === loaded.defaultMarketId) ?? loaded.markets[0];
+      setEvent(loaded);
+      setMarketId(selected.id);
+      selectOutcome(selected.outcomes[0]?.name ?? '', selected.outcomes);
+    } catch (e) {
+      setEvent(null);
+      setError(e);
+    } finally {
+      setIsLooking(false);
+    }
+  };
+
+  const sharesNum = Number(shares);
+  const priceNum = Number(avgPrice);
+  const valid = Boolean(event && market && outcome) && sharesNum > 0 && priceNum >= 0 && priceNum <= 1;
+
+  const add = async () => {
+    if (!valid) return;
+    await savePosition(positionFor(event!, market!, outcome, sharesNum, priceNum));
+    setShares('');
+    onAdded();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && url.trim() && lookUp()}
+          placeholder="Polymarket URL or slug"
+          className={`${inputClass} flex-1`}
+        />
+        <Button variant="outline" onClick={lookUp} isLoading={isLooking} disabled={!url.trim()}>Look up</Button>
+      </div>
+      {error != null && <ErrorBanner error={error} context="fetch" onRetry={lookUp} onDismiss={() => setError(null)} />}
+
+      {event && market && (
+        <div className="flex flex-wrap items-end gap-3 text-xs text-gray-500 dark:text-slate-400">
+          {event.markets.length > 1 && (
+            <label className="flex flex-col gap-1 min-w-0 max-w-xs">
+              Market
+              <select
+                value={marketId}
+                onChange={(e) => {
+                  const next = event.markets.find((m) => m.id === e.target.value);
+                  setMarketId(e.target.value);
+                  selectOutcome(next?.outcomes[0]?.name ?? '', next?.outcomes);
+                }}
+                className={inputClass}
+              >
+                {event.markets.map((m) => (
+                  <option key={m.id} value={m.id}>{m.groupItemTitle || m.question}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex flex-col gap-1">
+            Outcome
+            <select value={outcome} onChange={(e) => selectOutcome(e.target.value)} className={inputClass}>
+              {market.outcomes.map((o) => (
+                <option key={o.name} value={o.name}>{o.name} · {cents(o.price)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Shares
+            <input type="number" min="0" value={shares} onChange={(e) => setShares(e.target.value)} className={`${inputClass} w-24 tabular-nums`} />
+          </label>
+          <label className="flex flex-col gap-1">
+            Avg price
+            <input type="number" min="0" max="1" step="0.001" value={avgPrice} onChange={(e) => setAvgPrice(e.target.value)} className={`${inputClass} w-24 tabular-nums`} />
+          </label>
+          <Button onClick={add} disabled={!valid}>Add position</Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * CSV import from a pasted block or a file
+ */
+const CsvImport: React.FC<{ onImported: () => void }> = ({ onImported }) => {
+  const [text, setText] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<CsvImportResult | null>(null);
+
+  const run = async () => {
+    setIsImporting(true);
+    setResult(null);
+    try {
+      const imported = await importPositionsCsv(text);
+      setResult(imported);
+      if (imported.added.length > 0) onImported();
+      if (imported.errors.length === 0) setText('');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={'url,market,outcome,shares,avg_price\nhttps://polymarket.com/event/...,,Yes,100,0.42'}
+        rows={4}
+        className={`${inputClass} w-full font-mono text-xs`}
+      />
+      <div className="flex items-center justify-between gap-3">
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            if (file) setText(await file.text());
+            e.target.value = '';
+          }}
+          className="text-xs text-gray-500 dark:text-slate-400"
+        />
+        <Button variant="outline" onClick={run} isLoading={isImporting} disabled={!text.trim()}>Import</Button>
+      </div>
+      {result && (
+        <div className="text-xs space-y-1">
+          <p className="text-gray-500 dark:text-slate-400">Imported {result.added.length} position{result.added.length === 1 ? '' : 's'}.</p>
+          {result.errors.map((err) => (
+            <p key={err.line} className="text-red-500">Line {err.line}: {err.message}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Tracked positions marked to live prices, with P&L and exposure per event
+ */
+const PortfolioView: React.FC<PortfolioViewProps> = ({ onOpenMarket }) => {
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [marks, setMarks] = useState<PositionMark[]>([]);
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [entry, setEntry] = useState<'manual' | 'csv'>('manual');
+  const [requests] = useState(() => createRequestChannel('portfolio'));
+
+  const refresh = useCallback(async () => {
+    setIsRefreshing(true);
+    try {
+      const { value } = await requests.run('mark', async (signal) => {
+        const stored = await listPositions();
+        setPositions(stored);
+        return markPositions(stored, signal);
+      });
+      setMarks(value);
+      setUpdatedAt(Date.now());
+    } catch (e) {
+      if (!(e instanceof AbortedError)) console.warn('Failed to mark portfolio', e);
+    } finally {
+      if (!requests.current()) setIsRefreshing(false);
+    }
+  }, [requests]);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      requests.cancel();
+    };
+  }, [refresh, requests]);
+
+  const remove = async (id: string) => {
+    await deletePosition(id);
+    setPositions((prev) => prev.filter((p) => p.id !== id));
+    setMarks((prev) => prev.filter((mark) => mark.position.id !== id));
+  };
+
+  const exposure = useMemo(() => summarizeExposure(marks), [marks]);
+  const totals = useMemo(() => {
+    const cost = marks.reduce((sum, mark) => sum + mark.cost, 0);
+    const priced = marks.every((mark) => mark.value !== undefined);
+    const value = priced ? marks.reduce((sum, mark) => sum + mark.value!, 0) : undefined;
+    return { cost, value, unrealized: value === undefined ? undefined : value - cost };
+  }, [marks]);
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className={cardClass}>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className={`${headingClass} mb-2`}>Portfolio</h2>
+            <p className="text-sm text-gray-500 dark:text-slate-400 max-w-xl leading-relaxed">
+              Positions are stored in this browser and marked to live prices every minute.
+            </p>
+          </div>
+          <Button variant="outline" onClick={refresh} isLoading={isRefreshing}>Refresh</Button>
+        </div>
+        {marks.length > 0 && (
+          <div className="mt-4 grid grid-cols-3 gap-4 tabular-nums">
+            {[
+              ['Cost basis', money(totals.cost), ''],
+              ['Market value', money(totals.value), ''],
+              ['Unrealized P&L', signedMoney(totals.unrealized), pnlClass(totals.unrealized)],
+            ].map(([label, value, tone]) => (
+              <div key={label}>
+                <div className="text-[10px] font-bold uppercase tracking-widest text-gray-400 dark:text-slate-500">{label}</div>
+                <div className={`text-xl font-bold ${tone || 'text-gray-900 dark:text-white'}`}>{value}</div>
+              </div>
+            ))}
+          </div>
+        )}
+        {updatedAt && (
+          <p className="mt-3 text-xs text-gray-400 dark:text-slate-500">Prices as of {new Date(updatedAt).toLocaleTimeString()}</p>
+        )}
+      </div>
+
+      <div className={cardClass}>
+        <div className="flex items-center gap-4 mb-4">
+          {([['manual', 'Add position'], ['csv', 'Import CSV']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setEntry(value)}
+              className={`${headingClass} ${entry === value ? 'text-gray-900 dark:text-white' : 'hover:text-gray-600 dark:hover:text-slate-300'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {entry === 'manual' ? <AddPositionForm onAdded={refresh} /> : <CsvImport onImported={refresh} />}
+      </div>
+
+      {marks.length > 0 && (
+        <div className={`${cardClass} overflow-x-auto`}>
+          <h3 className={`${headingClass} mb-3`}>Positions</h3>
+          <table className="w-full text-sm tabular-nums">
+            <thead>
+              <tr className="text-[10px] font-bold uppercase tracking-widest text-gray-400 dark:text-slate-500 text-right">
+                <th className="text-left py-2 font-bold">Market</th>
+                <th className="py-2 font-bold">Shares</th>
+                <th className="py-2 font-bold">Avg</th>
+                <th className="py-2 font-bold">Now</th>
+                <th className="py-2 font-bold">Value</th>
+                <th className="py-2 font-bold">P&amp;L</th>
+                <th className="py-2 font-bold" title="Profit if the outcome wins / loses at resolution">Win / Lose</th>
+                <th className="py-2 font-bold" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-slate-800">
+              {marks.map(({ position, market, price, value, unrealized, ifWins, ifLoses, error }) => (
+                <tr key={position.id} className="text-right text-gray-700 dark:text-slate-300">
+                  <td className="text-left py-2 pr-3 max-w-[320px]">
+                    <div className="truncate font-medium text-gray-900 dark:text-white" title={position.eventTitle}>
+                      {position.question}
+                    </div>
+                    <div className="text-xs text-gray-400 dark:text-slate-500">
+                      {position.outcome}
+                      {market && market.status !== 'open' && <span className="ml-2 uppercase font-bold">{market.status}</span>}
+                      {error != null && (
+                        <span className="ml-2 text-red-500" title={error instanceof Error ? error.message : undefined}>unpriced</span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="py-2">{position.shares.toLocaleString()}</td>
+                  <td className="py-2">{cents(position.avgPrice)}</td>
+                  <td className="py-2">{cents(price)}</td>
+                  <td className="py-2">{money(value)}</td>
+                  <td className={`py-2 font-semibold ${pnlClass(unrealized)}`}>{signedMoney(unrealized)}</td>
+                  <td className="py-2 text-xs">
+                    <span className={pnlClass(ifWins)}>{signedMoney(ifWins)}</span>
+                    <span className="text-gray-300 dark:text-slate-600"> / </span>
+                    <span className={pnlClass(ifLoses)}>{signedMoney(ifLoses)}</span>
+                  </td>
+                  <td className="py-2 pl-3 whitespace-nowrap text-xs">
+                    <button
+                      onClick={() => onOpenMarket(positionUrl(position))}
+                      className="font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Analyze
+                    </button>
+                    <button onClick={() => remove(position.id)} className="ml-3 text-gray-400 hover:text-red-500" aria-label="Remove position">
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {exposure.length > 0 && (
+        <div className={`${cardClass} overflow-x-auto`}>
+          <h3 className={`${headingClass} mb-3`}>Exposure by event</h3>
+          <table className="w-full text-sm tabular-nums">
+            <thead>
+              <tr className="text-[10px] font-bold uppercase tracking-widest text-gray-400 dark:text-slate-500 text-right">
+                <th className="text-left py-2 font-bold">Event</th>
+                <th className="py-2 font-bold">Cost</th>
+                <th className="py-2 font-bold">Value</th>
+                <th className="py-2 font-bold">P&amp;L</th>
+                <th className="py-2 font-bold" title="Payoff range at resolution">Best / Worst</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-slate-800">
+              {exposure.map((event) => (
+                <tr key={event.eventId} className="text-right text-gray-700 dark:text-slate-300">
+                  <td className="text-left py-2 pr-3 max-w-[320px]">
+                    <div className="truncate font-medium text-gray-900 dark:text-white" title={event.eventTitle}>{event.eventTitle}</div>
+                    <div className="text-xs text-gray-400 dark:text-slate-500">
+                      {event.positions} position{event.positions === 1 ? '' : 's'}
+                    </div>
+                  </td>
+                  <td className="py-2">{money(event.cost)}</td>
+                  <td className="py-2">{money(event.value)}</td>
+                  <td className={`py-2 font-semibold ${pnlClass(event.unrealized)}`}>{signedMoney(event.unrealized)}</td>
+                  <td className="py-2 text-xs">
+                    <span className={pnlClass(event.bestCase)}>{signedMoney(event.bestCase)}</span>
+                    <span className="text-gray-300 dark:text-slate-600"> / </span>
+                    <span className={pnlClass(event.worstCase)}>{signedMoney(event.worstCase)}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {positions.length === 0 && !isRefreshing && (
+        <p className="text-center text-sm text-gray-400 dark:text-slate-500 italic">
+          No positions yet. Add one above or import a CSV export.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioView;
@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Outcome, OutcomePriceHistory, PriceHistoryRange } from '../types';
+import { getPriceHistory } from '../services/polymarketService';
+
+const RANGES: PriceHistoryRange[] = ['1h', '1d', '1w', 'all'];
+const COLORS = ['#3b82f6', '#a855f7', '#10b981', '#f59e0b', '#ef4444', '#06b6d4', '#ec4899', '#84cc16'];
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PAD = { top: 10, right: 8, bottom: 20, left: 34 };
+
+interface PriceChartProps {
+  outcomes: Outcome[];
+}
+
+const formatTick = (t: number, range: PriceHistoryRange) =>
+  range === '1h' || range === '1d'
+    ? new Date(t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : new Date(t).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+const PriceChart: React.FC<PriceChartProps> = ({ outcomes }) => {
+  const [range, setRange] = useState<PriceHistoryRange>('1d');
+  const [series, setSeries] = useState<OutcomePriceHistory[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hoverX, setHoverX] = useState<number | null>(null);
+
+  // Refetch only when the set of tokens changes, not on every price tick
+  const tokenKey = outcomes.map((outcome) => outcome.tokenId).join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getPriceHistory(outcomes, range)
+      .then((data) => {
+        if (!cancelled) setSeries(data);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenKey, range]);
+
+  const plotted = useMemo(() => series.filter((s) => s.points.length > 1), [series]);
+
+  const bounds = useMemo(() => {
+    const all = plotted.flatMap((s) => s.points);
+    if (all.length === 0) return null;
+    const tMin = Math.min(...all.map((point) => point.t));
+    const tMax = Math.max(...all.map((point) => point.t));
+    const pMin = Math.max(0, Math.min(...all.map((point) => point.p)) - 0.02);
+    const pMax = Math.min(1, Math.max(...all.map((point) => point.p)) + 0.02);
+    return { tMin, tMax: tMax === tMin ? tMin + 1 : tMax, pMin, pMax: pMax === pMin ? pMin + 0.01 : pMax };
+  }, [plotted]);
+
+  if (!outcomes.some((outcome) => outcome.tokenId)) {
+    return null;
+  }
+
+  const x = (t: number) =>
+    bounds ? PAD.left + ((t - bounds.tMin) / (bounds.tMax - bounds.tMin)) * (WIDTH - PAD.left - PAD.right) : 0;
+  const y = (p: number) =>
+    bounds ? PAD.top + (1 - (p - bounds.pMin) / (bounds.pMax - bounds.pMin)) * (HEIGHT - PAD.top - PAD.bottom) : 0;
+
+  const hoverT =
+    bounds && hoverX !== null
+      ? bounds.tMin + ((hoverX - PAD.left) / (WIDTH - PAD.left - PAD.right)) * (bounds.tMax - bounds.tMin)
+      : null;
+
+  const valueAt = (s: OutcomePriceHistory, t: number) =>
+    s.points.reduce((closest, point) => (Math.abs(point.t - t) < Math.abs(closest.t - t) ? point : closest), s.points[0]);
+
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const svgX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    setHoverX(Math.max(PAD.left, Math.min(WIDTH - PAD.right, svgX)));
+  };
+
+  const colorFor = (idx: number) => outcomes.find((o) => o.name === plotted[idx].outcome)?.color || COLORS[idx % COLORS.length];
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-100 dark:border-slate-800">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest">Price History</h3>
+        <div className="flex gap-1">
+          {RANGES.map((r) => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-2 py-0.5 rounded text-[11px] font-bold uppercase transition-colors ${
+                range === r
+                  ? 'bg-neutral-900 text-white dark:bg-blue-600'
+                  : 'text-gray-500 hover:bg-gray-100 dark:text-slate-400 dark:hover:bg-slate-800'
+              }`}
+            >
+              {r}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!bounds ? (
+        <div className="h-[200px] flex items-center justify-center text-sm text-gray-400 dark:text-slate-500">
+          {isLoading ? 'Loading price history...' : 'No price history available for this range.'}
+        </div>
+      ) : (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className={`w-full h-auto select-none transition-opacity ${isLoading ? 'opacity-50' : ''}`}
+          onMouseMove={handleMove}
+          onMouseLeave={() => setHoverX(null)}
+        >
+          {[0, 0.25, 0.5, 0.75, 1].map((f) => {
+            const p = bounds.pMin + f * (bounds.pMax - bounds.pMin);
+            return (
+              <g key={f}>
+                <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(p)} y2={y(p)} className="stroke-gray-100 dark:stroke-slate-800" />
+                <text x={PAD.left - 4} y={y(p) + 3} textAnchor="end" className="fill-gray-400 dark:fill-slate-500 text-[9px]">
+                  {(p * 100).toFixed(0)}%
+                </text>
+              </g>
+            );
+          })}
+          <text x={PAD.left} y={HEIGHT - 4} className="fill-gray-400 dark:fill-slate-500 text-[9px]">
+            {formatTick(bounds.tMin, range)}
+          </text>
+          <text x={WIDTH - PAD.right} y={HEIGHT - 4} textAnchor="end" className="fill-gray-400 dark:fill-slate-500 text-[9px]">
+            {formatTick(bounds.tMax, range)}
+          </text>
+
+          {plotted.map((s, idx) => (
+            <polyline
+              key={s.tokenId}
+              fill="none"
+              stroke={colorFor(idx)}
+              strokeWidth={1.75}
+              strokeLinejoin="round"
+              points={s.points.map((point) => `${x(point.t).toFixed(1)},${y(point.p).toFixed(1)}`).join(' ')}
+            />
+          ))}
+
+          {hoverT !== null && (
+            <g>
+              <line x1={hoverX!} x2={hoverX!} y1={PAD.top} y2={HEIGHT - PAD.bottom} className="stroke-gray-300 dark:stroke-slate-600" strokeDasharray="3 3" />
+              {plotted.map((s, idx) => {
+                const point = valueAt(s, hoverT);
+                return <circle key={s.tokenId} cx={x(point.t)} cy={y(point.p)} r={3} fill={colorFor(idx)} />;
+              })}
+            </g>
+          )}
+        </svg>
+      )}
+
+      {/* Legend with level and momentum over the selected range */}
+      {bounds && (
+        <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+          {hoverT !== null && (
+            <span className="w-full text-gray-400 dark:text-slate-500 tabular-nums">{new Date(hoverT).toLocaleString()}</span>
+          )}
+          {plotted.map((s, idx) => {
+            const first = s.points[0].p;
+            const last = s.points[s.points.length - 1].p;
+            const shown = hoverT !== null ? valueAt(s, hoverT).p : last;
+            const change = (last - first) * 100;
+            return (
+              <span key={s.tokenId} className="flex items-center gap-1.5 text-gray-600 dark:text-slate-400">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: colorFor(idx) }}></span>
+                {s.outcome}
+                <span className="font-semibold tabular-nums text-gray-900 dark:text-white">{(shown * 100).toFixed(1)}%</span>
+                <span className={`tabular-nums ${change >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                  {change >= 0 ? '+' : ''}
+                  {change.toFixed(1)}pt
+                </span>
+              </span>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceChart;
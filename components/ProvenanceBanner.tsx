@@ -0,0 +1,43 @@
+import React from 'react';
+import { DataProvenance } from '../types';
+
+interface ProvenanceBannerProps {
+  provenance?: DataProvenance;
+  className?: string;
+}
+
+const COPY: Record<Exclude<DataProvenance, 'live'>, { title: string; body: string; style: string }> = {
+  simulated: {
+    title: 'Simulated data',
+    body: 'These odds are made up and do not come from Polymarket. Do not trade on them.',
+    style: 'bg-amber-50 border-amber-300 text-amber-800 dark:bg-amber-900/20 dark:border-amber-700/60 dark:text-amber-300',
+  },
+  fixture: {
+    title: 'Recorded fixture data',
+    body: 'Replayed from a saved Polymarket response; prices may be stale.',
+    style: 'bg-sky-50 border-sky-200 text-sky-800 dark:bg-sky-900/20 dark:border-sky-800/60 dark:text-sky-300',
+  },
+};
+
+/**
+ * Prominent notice shown whenever market numbers are not live
+ */
+const ProvenanceBanner: React.FC<ProvenanceBannerProps> = ({ provenance, className = '' }) => {
+  // Records saved before provenance existed were always live
+  if (!provenance || provenance === 'live') {
+    return null;
+  }
+
+  const copy = COPY[provenance];
+  return (
+    <div role="alert" className={`flex items-start gap-3 px-4 py-3 rounded-xl border ${copy.style} ${className}`}>
+      <svg className="w-5 h-5 shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"></path></svg>
+      <div>
+        <div className="text-xs font-black uppercase tracking-widest">{copy.title}</div>
+        <p className="text-sm mt-0.5 opacity-90">{copy.body}</p>
+      </div>
+    </div>
+  );
+};
+
+export default ProvenanceBanner;
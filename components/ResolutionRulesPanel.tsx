@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { ResolutionRules, RuleRiskSeverity } from '../types';
+import { rulesRisk } from '../services/resolutionRules';
+
+const SEVERITY_STYLES: Record<RuleRiskSeverity, string> = {
+  high: 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900/20 dark:text-red-400 dark:border-red-900/40',
+  medium: 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-300 dark:border-amber-800/60',
+  low: 'bg-gray-50 text-gray-600 border-gray-200 dark:bg-slate-800 dark:text-slate-400 dark:border-slate-700',
+};
+
+const RISK_LABELS: Record<RuleRiskSeverity, string> = {
+  high: 'High rules risk',
+  medium: 'Some rules risk',
+  low: 'Minor rules notes',
+};
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="min-w-0">
+    <dt className="text-[10px] font-bold uppercase tracking-widest text-gray-400 dark:text-slate-500">{label}</dt>
+    <dd className="text-sm text-gray-700 dark:text-slate-300 break-words">{children}</dd>
+  </div>
+);
+
+const ClauseList: React.FC<{ title: string; clauses: string[] }> = ({ title, clauses }) =>
+  clauses.length === 0 ? null : (
+    <div>
+      <h4 className="text-[10px] font-bold uppercase tracking-widest text-gray-400 dark:text-slate-500 mb-1">{title}</h4>
+      <ul className="space-y-1 text-xs text-gray-600 dark:text-slate-400 list-disc pl-4">
+        {clauses.map((clause, idx) => (
+          <li key={idx}>{clause}</li>
+        ))}
+      </ul>
+    </div>
+  );
+
+interface ResolutionRulesPanelProps {
+  rules: ResolutionRules;
+  description?: string;
+}
+
+/**
+ * Structured resolution rules with risk flags, above the full rules text
+ */
+const ResolutionRulesPanel: React.FC<ResolutionRulesPanelProps> = ({ rules, description }) => {
+  const [showClauses, setShowClauses] = useState(false);
+  const risk = rulesRisk(rules);
+  const clauseCount = rules.edgeCases.length + rules.fiftyFifty.length + rules.earlyResolution.length;
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-100 dark:border-slate-800 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest">Resolution Rules</h3>
+        {risk && (
+          <span className={`text-[10px] font-black uppercase tracking-widest px-2 py-0.5 rounded border ${SEVERITY_STYLES[risk]}`}>
+            {RISK_LABELS[risk]}
+          </span>
+        )}
+      </div>
+
+      {description && (
+        <dl className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Field label="Source">
+            {rules.source ? (
+              /^https?:\/\//.test(rules.source) ? (
+                <a href={rules.source} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 break-all">
+                  {rules.source}
+                </a>
+              ) : (
+                rules.source
+              )
+            ) : (
+              <span className="text-gray-400 dark:text-slate-500">Not named</span>
+            )}
+          </Field>
+          <Field label="Deadline">
+            {rules.deadline ? (
+              <span title={rules.deadlineText}>
+                {new Date(rules.deadline).toLocaleString()}
+                {!rules.timezone && <span className="text-gray-400 dark:text-slate-500"> (timezone assumed)</span>}
+              </span>
+            ) : (
+              <span className="text-gray-400 dark:text-slate-500">Not stated</span>
+            )}
+          </Field>
+        </dl>
+      )}
+
+      {rules.flags.length > 0 && (
+        <ul className="space-y-2">
+          {rules.flags.map((flag, idx) => (
+            <li key={idx} className={`px-3 py-2 rounded-lg border text-xs ${SEVERITY_STYLES[flag.severity]}`}>
+              <span className="font-semibold">{flag.message}</span>
+              {flag.excerpt && <span className="block mt-0.5 italic opacity-80">“{flag.excerpt}”</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {clauseCount > 0 && (
+        <div>
+          <button
+            onClick={() => setShowClauses((show) => !show)}
+            className="text-xs font-semibold uppercase tracking-wide text-blue-600 hover:text-blue-500 dark:text-blue-400 dark:hover:text-blue-300 transition-colors"
+          >
+            {showClauses ? 'Hide' : 'Show'} {clauseCount} special clause{clauseCount === 1 ? '' : 's'}
+          </button>
+          {showClauses && (
+            <div className="mt-3 space-y-3">
+              <ClauseList title="Edge cases" clauses={rules.edgeCases} />
+              <ClauseList title="50-50 resolution" clauses={rules.fiftyFifty} />
+              <ClauseList title="Early resolution" clauses={rules.earlyResolution} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {description && (
+        <p className="text-sm text-gray-500 dark:text-slate-400 line-clamp-3 hover:line-clamp-none transition-all cursor-pointer leading-relaxed">
+          {description}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ResolutionRulesPanel;
@@ -0,0 +1,284 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AnalysisMode, AnalysisModeId } from '../types';
+import { getTrendingMarkets, MARKET_CATEGORIES } from '../services/polymarketService';
+import { listModes, modeFor } from '../services/analysisModes';
+import {
+  parseMarketList,
+  runScreener,
+  ScreenerRow,
+  ScreenerStopReason,
+} from '../services/screener';
+import { ServiceError } from '../services/errors';
+import Button from './Button';
+
+type Source = 'trending' | 'category' | 'list';
+type SortKey = 'edge' | 'confidence' | 'liquidity';
+
+interface ScreenerViewProps {
+  onOpenMarket: (url: string) => void;
+}
+
+const STATUS_STYLES: Record<ScreenerRow['status'], string> = {
+  queued: 'text-gray-400 dark:text-slate-500',
+  loading: 'text-blue-500',
+  analyzing: 'text-purple-500',
+  done: 'text-green-600 dark:text-green-400',
+  error: 'text-red-500',
+  skipped: 'text-amber-600 dark:text-amber-400',
+};
+
+const STOP_COPY: Record<ScreenerStopReason, string> = {
+  completed: 'Finished',
+  cost: 'Stopped: cost budget reached',
+  time: 'Stopped: time budget reached',
+  cancelled: 'Stopped',
+};
+
+const sortValue = (row: ScreenerRow, key: SortKey): number => {
+  switch (key) {
+    case 'edge':
+      return row.bestEdge?.edge ?? -Infinity;
+    case 'confidence':
+      return row.result?.confidenceScore ?? -Infinity;
+    case 'liquidity':
+      return row.market?.liquidityNum ?? -Infinity;
+  }
+};
+
+const SortHeader: React.FC<{ label: string; value: SortKey; sortKey: SortKey; onSort: (key: SortKey) => void }> = ({
+  label,
+  value,
+  sortKey,
+  onSort,
+}) => (
+  <th className="py-2 font-bold">
+    <button
+      onClick={() => onSort(value)}
+      className={`uppercase tracking-widest ${sortKey === value ? 'text-gray-900 dark:text-white' : 'hover:text-gray-600 dark:hover:text-slate-300'}`}
+    >
+      {label}{sortKey === value ? ' ↓' : ''}
+    </button>
+  </th>
+);
+
+const inputClass =
+  'bg-gray-50 dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded px-2 py-1.5 text-sm text-gray-900 dark:text-white';
+
+/**
+ * Runs analyses across many markets at once and ranks them by edge
+ */
+const ScreenerView: React.FC<ScreenerViewProps> = ({ onOpenMarket }) => {
+  const [source, setSource] = useState<Source>('trending');
+  const [count, setCount] = useState('50');
+  const [category, setCategory] = useState(MARKET_CATEGORIES[0].slug);
+  const [pasted, setPasted] = useState('');
+  const [mode, setMode] = useState<AnalysisModeId>(AnalysisMode.QUICK);
+  const [concurrency, setConcurrency] = useState('4');
+  const [maxCost, setMaxCost] = useState('1.00');
+  const [maxMinutes, setMaxMinutes] = useState('10');
+
+  const [rows, setRows] = useState<ScreenerRow[]>([]);
+  const [spent, setSpent] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey>('edge');
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const limit = Math.max(1, Math.min(100, Math.floor(Number(count)) || 1));
+  const pastedInputs = useMemo(() => parseMarketList(pasted), [pasted]);
+  const plannedCount = source === 'list' ? pastedInputs.length : limit;
+  const estimatedCost = plannedCount * modeFor(mode).gateway.estimatedCostUsd;
+
+  const sortedRows = useMemo(
+    () => rows.slice().sort((a, b) => sortValue(b, sortKey) - sortValue(a, sortKey)),
+    [rows, sortKey]
+  );
+
+  const run = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setRows([]);
+    setSpent(0);
+    setStatus('Collecting markets...');
+
+    try {
+      const inputs =
+        source === 'list'
+          ? pastedInputs
+          : (await getTrendingMarkets(limit, source === 'category' ? category : undefined)).map(
+              (market) => `https://polymarket.com/event/${market.slug}`
+            );
+      if (inputs.length === 0) {
+        setStatus('No markets to screen.');
+        return;
+      }
+
+      setStatus(`Screening ${inputs.length} markets...`);
+      const summary = await runScreener(inputs, {
+        mode,
+        concurrency: Math.max(1, Math.min(10, Number(concurrency) || 1)),
+        budget: {
+          maxCostUsd: Math.max(0, Number(maxCost) || 0),
+          maxDurationMs: Math.max(1, Number(maxMinutes) || 1) * 60_000,
+        },
+        signal: controller.signal,
+        onUpdate: (next, spentUsd) => {
+          setRows(next);
+          setSpent(spentUsd);
+        },
+      });
+      const done = summary.rows.filter((row) => row.status === 'done').length;
+      setStatus(`${STOP_COPY[summary.stoppedBy]} · ${done}/${summary.rows.length} analyzed in ${Math.round(summary.elapsedMs / 1000)}s`);
+    } catch (e) {
+      setStatus(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsRunning(false);
+      controllerRef.current = null;
+    }
+  };
+
+  const finished = rows.filter((row) => row.status === 'done' || row.status === 'error' || row.status === 'skipped').length;
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="p-6 rounded-2xl bg-white dark:bg-slate-900 border border-gray-100 dark:border-slate-800 shadow-xl shadow-gray-200/50 dark:shadow-black/40">
+        <h2 className="text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest mb-4">Market Screener</h2>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {([['trending', 'Top trending'], ['category', 'Category'], ['list', 'Pasted list']] as Array<[Source, string]>).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setSource(value)}
+              disabled={isRunning}
+              className={`text-sm px-4 py-1.5 rounded-full border transition-all ${
+                source === value
+                  ? 'bg-neutral-900 text-white border-neutral-900 dark:bg-blue-600 dark:border-blue-600'
+                  : 'bg-white dark:bg-slate-800 text-gray-600 dark:text-slate-300 border-gray-200 dark:border-slate-700 hover:border-gray-400 dark:hover:border-slate-500'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4 text-xs text-gray-500 dark:text-slate-400">
+          {source !== 'list' && (
+            <label className="flex flex-col gap-1">
+              Markets
+              <input type="number" min="1" max="100" value={count} onChange={(e) => setCount(e.target.value)} className={`${inputClass} w-20 tabular-nums`} />
+            </label>
+          )}
+          {source === 'category' && (
+            <label className="flex flex-col gap-1">
+              Category
+              <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClass}>
+                {MARKET_CATEGORIES.map((c) => (
+                  <option key={c.slug} value={c.slug}>{c.label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex flex-col gap-1">
+            Mode
+            <select value={mode} onChange={(e) => setMode(e.target.value)} className={inputClass}>
+              {listModes().map((option) => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Parallel
+            <input type="number" min="1" max="10" value={concurrency} onChange={(e) => setConcurrency(e.target.value)} className={`${inputClass} w-16 tabular-nums`} />
+          </label>
+          <label className="flex flex-col gap-1">
+            Max cost $
+            <input type="number" min="0" step="0.1" value={maxCost} onChange={(e) => setMaxCost(e.target.value)} className={`${inputClass} w-20 tabular-nums`} />
+          </label>
+          <label className="flex flex-col gap-1">
+            Max minutes
+            <input type="number" min="1" value={maxMinutes} onChange={(e) => setMaxMinutes(e.target.value)} className={`${inputClass} w-20 tabular-nums`} />
+          </label>
+        </div>
+
+        {source === 'list' && (
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder="One Polymarket URL or slug per line"
+            rows={5}
+            className={`${inputClass} w-full mt-4 font-mono text-xs`}
+          />
+        )}
+
+        <div className="mt-4 flex items-center justify-between gap-4">
+          <p className="text-xs text-gray-400 dark:text-slate-500 tabular-nums">
+            Up to {plannedCount} markets · est. ${estimatedCost.toFixed(2)}
+            {rows.length > 0 && ` · ${finished}/${rows.length} done · $${spent.toFixed(2)} spent`}
+          </p>
+          {isRunning ? (
+            <Button variant="outline" onClick={() => controllerRef.current?.abort()}>Stop</Button>
+          ) : (
+            <Button onClick={run} disabled={plannedCount === 0}>Run screener</Button>
+          )}
+        </div>
+        {status && <p className="mt-2 text-xs text-gray-500 dark:text-slate-400">{status}</p>}
+      </div>
+
+      {rows.length > 0 && (
+        <div className="p-6 rounded-2xl bg-white dark:bg-slate-900 border border-gray-100 dark:border-slate-800 shadow-xl shadow-gray-200/50 dark:shadow-black/40 overflow-x-auto">
+          <table className="w-full text-sm tabular-nums">
+            <thead>
+              <tr className="text-[10px] font-bold uppercase tracking-widest text-gray-400 dark:text-slate-500 text-right">
+                <th className="text-left py-2 font-bold">Market</th>
+                <th className="text-left py-2 font-bold">Status</th>
+                <th className="py-2 font-bold">Call</th>
+                <SortHeader label="Edge" value="edge" sortKey={sortKey} onSort={setSortKey} />
+                <SortHeader label="Confidence" value="confidence" sortKey={sortKey} onSort={setSortKey} />
+                <SortHeader label="Liquidity" value="liquidity" sortKey={sortKey} onSort={setSortKey} />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-slate-800">
+              {sortedRows.map((row) => (
+                <tr key={row.input} className="text-right text-gray-700 dark:text-slate-300">
+                  <td className="text-left py-2 pr-3 max-w-[320px]">
+                    {row.market ? (
+                      <button
+                        onClick={() => onOpenMarket(row.market!.url)}
+                        className="block w-full truncate text-left font-medium text-gray-900 dark:text-white hover:underline"
+                        title={row.market.question}
+                      >
+                        {row.market.question}
+                      </button>
+                    ) : (
+                      <span className="block truncate text-gray-400 dark:text-slate-500" title={row.input}>{row.input}</span>
+                    )}
+                  </td>
+                  <td
+                    className={`text-left py-2 pr-3 text-xs font-semibold capitalize ${STATUS_STYLES[row.status]}`}
+                    title={row.error instanceof Error ? row.error.message : row.skippedReason}
+                  >
+                    {row.status === 'error' && row.error instanceof ServiceError ? row.error.kind.toLowerCase().replace('_', ' ') : row.status}
+                  </td>
+                  <td className="py-2 font-semibold text-gray-900 dark:text-white">{row.result?.recommendation ?? '—'}</td>
+                  <td className={`py-2 font-semibold ${row.bestEdge && row.bestEdge.edge > 0 ? 'text-green-600 dark:text-green-400' : 'text-gray-400 dark:text-slate-500'}`}>
+                    {row.bestEdge ? (
+                      <span title={row.bestEdge.outcome.name}>
+                        {row.bestEdge.edge >= 0 ? '+' : ''}{(row.bestEdge.edge * 100).toFixed(1)}pt
+                        <span className="ml-1 text-xs font-normal text-gray-400 dark:text-slate-500">{row.bestEdge.outcome.name}</span>
+                      </span>
+                    ) : '—'}
+                  </td>
+                  <td className="py-2">{row.result ? `${row.result.confidenceScore}%` : '—'}</td>
+                  <td className="py-2">{row.market?.liquidity ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScreenerView;
@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { searchMarkets, SearchResult } from '../services/polymarketService';
+
+const DEBOUNCE_MS = 250;
+
+interface SearchAutocompleteProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: (value: string) => void;
+  onSelect: (result: SearchResult) => void;
+  placeholder?: string;
+}
+
+const looksLikeUrl = (text: string) => /^https?:\/\//i.test(text) || text.includes('polymarket.com');
+
+const SearchAutocomplete: React.FC<SearchAutocompleteProps> = ({ value, onChange, onSubmit, onSelect, placeholder }) => {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const requestId = useRef(0);
+
+  // Debounced search; URLs skip the dropdown entirely
+  useEffect(() => {
+    const query = value.trim();
+    if (query.length < 2 || looksLikeUrl(query)) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    const current = ++requestId.current;
+    setIsSearching(true);
+    const timer = setTimeout(() => {
+      searchMarkets(query)
+        .then((data) => {
+          if (current !== requestId.current) return;
+          setResults(data);
+          setHighlighted(-1);
+        })
+        .catch((e) => {
+          if (current === requestId.current) setResults([]);
+          console.warn('Market search failed', e);
+        })
+        .finally(() => {
+          if (current === requestId.current) setIsSearching(false);
+        });
+    }, DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const choose = (result: SearchResult) => {
+    setIsOpen(false);
+    setResults([]);
+    onSelect(result);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const visible = isOpen && results.length > 0;
+    switch (e.key) {
+      case 'ArrowDown':
+        if (!visible) return;
+        e.preventDefault();
+        setHighlighted((prev) => (prev + 1) % results.length);
+        break;
+      case 'ArrowUp':
+        if (!visible) return;
+        e.preventDefault();
+        setHighlighted((prev) => (prev <= 0 ? results.length - 1 : prev - 1));
+        break;
+      case 'Escape':
+        setIsOpen(false);
+        break;
+      case 'Enter':
+        if (visible && highlighted >= 0) {
+          e.preventDefault();
+          choose(results[highlighted]);
+        } else {
+          setIsOpen(false);
+          onSubmit(value);
+        }
+        break;
+    }
+  };
+
+  const showDropdown = isOpen && value.trim().length >= 2 && !looksLikeUrl(value) && (results.length > 0 || !isSearching);
+
+  return (
+    <div className="relative flex-1">
+      <input
+        type="text"
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-autocomplete="list"
+        aria-activedescendant={highlighted >= 0 ? `search-result-${highlighted}` : undefined}
+        placeholder={placeholder}
+        className="w-full bg-transparent border-none text-gray-900 dark:text-white px-2 py-3 focus:outline-none placeholder-gray-400 text-base"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+      />
+
+      {showDropdown && (
+        <ul
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-3 -ml-10 max-h-96 overflow-y-auto rounded-xl bg-white dark:bg-slate-900 border border-gray-100 dark:border-slate-700 shadow-2xl shadow-gray-200/50 dark:shadow-black/50 py-1 text-left"
+        >
+          {results.length === 0 ? (
+            <li className="px-4 py-3 text-sm text-gray-400 dark:text-slate-500">No markets found</li>
+          ) : (
+            results.map((result, idx) => (
+              <li
+                key={`${result.type}-${result.id}`}
+                id={`search-result-${idx}`}
+                role="option"
+                aria-selected={idx === highlighted}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => choose(result)}
+                onMouseEnter={() => setHighlighted(idx)}
+                className={`px-4 py-2.5 cursor-pointer flex items-center gap-3 ${
+                  idx === highlighted ? 'bg-gray-50 dark:bg-slate-800' : ''
+                } ${result.active ? '' : 'opacity-60'}`}
+              >
+                <span className={`text-[9px] font-bold uppercase px-1.5 py-0.5 rounded shrink-0 ${
+                  result.type === 'event'
+                    ? 'bg-blue-50 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400'
+                    : 'bg-purple-50 text-purple-600 dark:bg-purple-900/30 dark:text-purple-400'
+                }`}>
+                  {result.type}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-gray-900 dark:text-slate-200 truncate">{result.title}</div>
+                  {result.subtitle && (
+                    <div className="text-xs text-gray-400 dark:text-slate-500 truncate">{result.subtitle}</div>
+                  )}
+                </div>
+                <div className="text-right shrink-0 text-xs tabular-nums">
+                  <div className="font-semibold text-gray-700 dark:text-slate-300">{result.volume}</div>
+                  {result.endDate && (
+                    <div className="text-gray-400 dark:text-slate-500">{new Date(result.endDate).toLocaleDateString()}</div>
+                  )}
+                </div>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchAutocomplete;
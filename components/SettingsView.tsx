@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { AnalysisModeDefinition } from '../types';
+import {
+  customModeId,
+  deleteCustomMode,
+  listModes,
+  PROMPT_PLACEHOLDERS,
+  saveCustomMode,
+  subscribeModes,
+} from '../services/analysisModes';
+import Button from './Button';
+
+const inputClass =
+  'bg-gray-50 dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded px-2 py-1.5 text-sm text-gray-900 dark:text-white';
+const cardClass =
+  'p-6 rounded-2xl bg-white dark:bg-slate-900 border border-gray-100 dark:border-slate-800 shadow-xl shadow-gray-200/50 dark:shadow-black/40';
+const headingClass = 'text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest';
+
+interface ModeDraft {
+  id?: string; // Set when editing an existing custom mode
+  label: string;
+  icon: string;
+  loadingCopy: string;
+  description: string;
+  webSearch: boolean;
+  estimatedCostUsd: string;
+  temperature: string;
+  promptTemplate: string;
+}
+
+const EMPTY_DRAFT: ModeDraft = {
+  label: '',
+  icon: '✨',
+  loadingCopy: 'Analyzing',
+  description: '',
+  webSearch: false,
+  estimatedCostUsd: '0.01',
+  temperature: '',
+  promptTemplate: '',
+};
+
+const draftFor = (mode: AnalysisModeDefinition): ModeDraft => ({
+  id: mode.id,
+  label: mode.label,
+  icon: mode.icon,
+  loadingCopy: mode.loadingCopy,
+  description: mode.description ?? '',
+  webSearch: mode.gateway.webSearch,
+  estimatedCostUsd: String(mode.gateway.estimatedCostUsd),
+  temperature: mode.gateway.temperature === undefined ? '' : String(mode.gateway.temperature),
+  promptTemplate: mode.gateway.promptTemplate ?? '',
+});
+
+/**
+ * Create or edit a custom analysis mode
+ */
+const ModeForm: React.FC<{ initial: ModeDraft; onDone: () => void }> = ({ initial, onDone }) => {
+  const [draft, setDraft] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  const set = <K extends keyof ModeDraft>(key: K, value: ModeDraft[K]) => setDraft((d) => ({ ...d, [key]: value }));
+
+  const save = () => {
+    try {
+      saveCustomMode({
+        id: draft.id ?? customModeId(draft.label),
+        label: draft.label,
+        icon: draft.icon,
+        loadingCopy: draft.loadingCopy,
+        description: draft.description,
+        gateway: {
+          webSearch: draft.webSearch,
+          promptTemplate: draft.promptTemplate,
+          temperature: draft.temperature,
+          estimatedCostUsd: draft.estimatedCostUsd,
+        },
+      });
+      onDone();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4 text-xs text-gray-500 dark:text-slate-400">
+        <label className="flex flex-col gap-1">
+          Icon
+          <input value={draft.icon} onChange={(e) => set('icon', e.target.value)} className={`${inputClass} w-14 text-center`} />
+        </label>
+        <label className="flex flex-col gap-1 flex-1 min-w-[180px]">
+          Label
+          <input value={draft.label} onChange={(e) => set('label', e.target.value)} placeholder="e.g. Polling deep dive" className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 flex-1 min-w-[180px]">
+          Loading copy
+          <input value={draft.loadingCopy} onChange={(e) => set('loadingCopy', e.target.value)} className={inputClass} />
+        </label>
+      </div>
+
+      <label className="flex flex-col gap-1 text-xs text-gray-500 dark:text-slate-400">
+        Description
+        <input value={draft.description} onChange={(e) => set('description', e.target.value)} className={inputClass} />
+      </label>
+
+      <div className="flex flex-wrap items-end gap-4 text-xs text-gray-500 dark:text-slate-400">
+        <label className="flex items-center gap-2 pb-2">
+          <input type="checkbox" checked={draft.webSearch} onChange={(e) => set('webSearch', e.target.checked)} />
+          Search the web
+        </label>
+        <label className="flex flex-col gap-1">
+          Est. cost $ per run
+          <input type="number" min="0" step="0.01" value={draft.estimatedCostUsd} onChange={(e) => set('estimatedCostUsd', e.target.value)} className={`${inputClass} w-24 tabular-nums`} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Temperature
+          <input type="number" min="0" max="2" step="0.1" value={draft.temperature} onChange={(e) => set('temperature', e.target.value)} placeholder="Default" className={`${inputClass} w-24 tabular-nums`} />
+        </label>
+      </div>
+
+      <label className="flex flex-col gap-1 text-xs text-gray-500 dark:text-slate-400">
+        Prompt template
+        <textarea
+          value={draft.promptTemplate}
+          onChange={(e) => set('promptTemplate', e.target.value)}
+          rows={6}
+          placeholder="Instructions added to the analysis prompt for this mode"
+          className={`${inputClass} font-mono text-xs`}
+        />
+        <span>
+          Placeholders: {PROMPT_PLACEHOLDERS.map((name) => `{{${name}}}`).join(', ')}. The market data and the JSON answer
+          format are always included.
+        </span>
+      </label>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onDone}>Cancel</Button>
+        <Button onClick={save} disabled={!draft.label.trim()}>{draft.id ? 'Save changes' : 'Add mode'}</Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * App settings. Currently the analysis mode registry, including custom modes with their own prompt template.
+ */
+const SettingsView: React.FC = () => {
+  const [modes, setModes] = useState(listModes);
+  const [editing, setEditing] = useState<ModeDraft | null>(null);
+
+  useEffect(() => subscribeModes(() => setModes(listModes())), []);
+
+  const remove = (mode: AnalysisModeDefinition) => {
+    if (window.confirm(`Delete the "${mode.label}" mode? Saved analyses keep their results.`)) {
+      deleteCustomMode(mode.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className={cardClass}>
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h2 className={`${headingClass} mb-2`}>Analysis Modes</h2>
+            <p className="text-sm text-gray-500 dark:text-slate-400 max-w-2xl leading-relaxed">
+              Each mode is a tab on the analysis panel and an option in the screener. Custom modes are saved in this browser
+              and sent to the gateway with every analysis.
+            </p>
+          </div>
+          {!editing && <Button onClick={() => setEditing(EMPTY_DRAFT)}>New mode</Button>}
+        </div>
+
+        {editing && (
+          <div className="mb-6 p-4 rounded-xl border border-gray-100 dark:border-slate-800 bg-gray-50/50 dark:bg-slate-800/40">
+            <ModeForm key={editing.id ?? 'new'} initial={editing} onDone={() => setEditing(null)} />
+          </div>
+        )}
+
+        <ul className="divide-y divide-gray-100 dark:divide-slate-800">
+          {modes.map((mode) => (
+            <li key={mode.id} className="py-3 flex items-start gap-3">
+              <span className="text-lg leading-6">{mode.icon}</span>
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold text-gray-900 dark:text-white">{mode.label}</span>
+                  <span className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-gray-100 text-gray-500 dark:bg-slate-800 dark:text-slate-400">
+                    {mode.builtIn ? 'Built-in' : 'Custom'}
+                  </span>
+                  {mode.gateway.webSearch && (
+                    <span className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-purple-50 text-purple-700 dark:bg-purple-900/20 dark:text-purple-300">
+                      Web search
+                    </span>
+                  )}
+                  <span className="text-xs text-gray-400 dark:text-slate-500 tabular-nums">~${mode.gateway.estimatedCostUsd.toFixed(2)}/run</span>
+                </div>
+                {mode.description && <p className="text-xs text-gray-500 dark:text-slate-400 mt-0.5">{mode.description}</p>}
+              </div>
+              {!mode.builtIn && (
+                <div className="flex gap-2 shrink-0">
+                  <button onClick={() => setEditing(draftFor(mode))} className="text-xs text-gray-500 dark:text-slate-400 hover:underline">
+                    Edit
+                  </button>
+                  <button onClick={() => remove(mode)} className="text-xs text-red-500 hover:underline">
+                    Delete
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsView;
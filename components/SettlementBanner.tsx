@@ -0,0 +1,58 @@
+import React from 'react';
+import { MarketData } from '../types';
+
+interface SettlementBannerProps {
+  market: MarketData;
+  className?: string;
+}
+
+const formatDate = (iso?: string) => (iso ? new Date(iso).toLocaleString() : undefined);
+
+/**
+ * Resolution source as a link when it is a URL, plain text otherwise
+ */
+const SourceLink: React.FC<{ source: string }> = ({ source }) =>
+  /^https?:\/\//.test(source) ? (
+    <a href={source} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 break-all">
+      {source}
+    </a>
+  ) : (
+    <span>{source}</span>
+  );
+
+/**
+ * Settled or closed-to-trading notice; renders nothing for open markets
+ */
+const SettlementBanner: React.FC<SettlementBannerProps> = ({ market, className = '' }) => {
+  // Records saved before status existed were always open
+  if (!market.status || market.status === 'open') {
+    return null;
+  }
+
+  const resolved = market.status === 'resolved';
+  const style = resolved
+    ? 'bg-emerald-50 border-emerald-200 text-emerald-800 dark:bg-emerald-900/20 dark:border-emerald-800/60 dark:text-emerald-300'
+    : 'bg-gray-50 border-gray-200 text-gray-700 dark:bg-slate-800/60 dark:border-slate-700 dark:text-slate-300';
+
+  return (
+    <div role="status" className={`px-4 py-3 rounded-xl border text-sm ${style} ${className}`}>
+      <div className="text-xs font-black uppercase tracking-widest">
+        {resolved ? 'Resolved' : 'Trading closed'}
+      </div>
+      <p className="mt-0.5 opacity-90">
+        {resolved
+          ? market.winningOutcome
+            ? <>Settled on <strong>{market.winningOutcome}</strong>{market.resolvedAt && <> · {formatDate(market.resolvedAt)}</>}</>
+            : <>Settled{market.resolvedAt && <> on {formatDate(market.resolvedAt)}</>}</>
+          : 'No longer trading; awaiting resolution.'}
+      </p>
+      {market.resolutionSource && (
+        <p className="mt-1 text-xs opacity-80">
+          Source: <SourceLink source={market.resolutionSource} />
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SettlementBanner;
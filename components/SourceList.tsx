@@ -0,0 +1,93 @@
+import React from 'react';
+import { AnalysisSource } from '../types';
+import { domainOf, isStaleSource, STALE_SOURCE_DAYS } from '../services/analysisSchema';
+
+const sourceAnchor = (idx: number) => `analysis-source-${idx + 1}`;
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+/**
+ * Inline "[1][3]" markers linking a reasoning point to the sources it cites
+ */
+export const CitationMarkers: React.FC<{ indices?: number[]; sources: AnalysisSource[] }> = ({ indices, sources }) => {
+  const cited = (indices ?? []).filter((idx) => sources[idx]);
+  if (cited.length === 0) return null;
+  return (
+    <sup className="ml-0.5 whitespace-nowrap">
+      {cited.map((idx) => (
+        <a
+          key={idx}
+          href={`#${sourceAnchor(idx)}`}
+          title={sources[idx].title}
+          className="ml-0.5 text-[10px] font-bold text-purple-600 dark:text-purple-400 hover:underline"
+        >
+          [{idx + 1}]
+        </a>
+      ))}
+    </sup>
+  );
+};
+
+interface SourceListProps {
+  sources: AnalysisSource[];
+  analyzedAt: number; // Unix ms, for the staleness check
+}
+
+/**
+ * Numbered sources with publisher, date and snippet; flags ones that were old when the analysis ran
+ */
+const SourceList: React.FC<SourceListProps> = ({ sources, analyzedAt }) => {
+  const staleCount = sources.filter((source) => isStaleSource(source, analyzedAt)).length;
+
+  return (
+    <div className="pt-6 border-t border-gray-100 dark:border-slate-800">
+      <h3 className="text-xs font-bold text-purple-600 dark:text-purple-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 20H5a2 2 0 01-2-2V6a2 2 0 012-2h10a2 2 0 012 2v1m2 13a2 2 0 01-2-2V7m2 13a2 2 0 002-2V9a2 2 0 00-2-2h-2m-4-3H9M7 16h6M7 8h6v4H7V8z"></path></svg>
+        Sources
+      </h3>
+
+      {staleCount > 0 && (
+        <p role="status" className="mb-3 px-3 py-2 rounded-lg border text-xs bg-amber-50 border-amber-200 text-amber-800 dark:bg-amber-900/20 dark:border-amber-800/60 dark:text-amber-300">
+          {staleCount} of {sources.length} source{sources.length === 1 ? ' was' : 's were'} published more than {STALE_SOURCE_DAYS} days
+          before this analysis. Check for newer information before acting on it.
+        </p>
+      )}
+
+      <ol className="grid grid-cols-1 gap-2">
+        {sources.map((source, idx) => {
+          const stale = isStaleSource(source, analyzedAt);
+          return (
+            <li key={idx} id={sourceAnchor(idx)} className="scroll-mt-24">
+              <a
+                href={source.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-start gap-3 p-3 rounded-lg bg-gray-50 hover:bg-white border border-gray-200 hover:border-purple-300 hover:shadow-md dark:bg-slate-800 dark:hover:bg-slate-750 dark:border-slate-700 dark:hover:border-purple-500/50 transition-all group"
+              >
+                <span className="text-xs font-bold tabular-nums text-purple-600 dark:text-purple-400 mt-0.5">{idx + 1}</span>
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm font-semibold text-gray-900 dark:text-slate-200 group-hover:text-purple-600 dark:group-hover:text-purple-400 truncate">
+                    {source.title}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-x-2 text-xs text-gray-500 dark:text-slate-500 mt-0.5">
+                    <span className="truncate">{source.domain ?? domainOf(source.url) ?? source.url}</span>
+                    {source.publishedAt && <span className="tabular-nums">· {formatDate(source.publishedAt)}</span>}
+                    {stale && (
+                      <span className="text-[10px] font-bold uppercase tracking-wide text-amber-600 dark:text-amber-400">Stale</span>
+                    )}
+                  </div>
+                  {source.snippet && (
+                    <p className="mt-1.5 text-xs text-gray-600 dark:text-slate-400 line-clamp-2 italic">“{source.snippet}”</p>
+                  )}
+                </div>
+                <svg className="w-4 h-4 shrink-0 text-gray-400 group-hover:text-purple-500 dark:text-slate-600 dark:group-hover:text-purple-400 transform group-hover:translate-x-1 transition-all" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"></path></svg>
+              </a>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default SourceList;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Outcome, TradeIdea } from '../types';
+
+const cents = (price: number) => `${(price * 100).toFixed(1)}¢`;
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Ideas that name this outcome
+ */
+export const ideasForOutcome = (ideas: TradeIdea[] | undefined, outcome: string): TradeIdea[] =>
+  (ideas ?? []).filter((idea) => normalizeName(idea.outcome) === normalizeName(outcome));
+
+/**
+ * True when the current price is at or better than the idea's limit
+ */
+const isWithinLimit = (idea: TradeIdea, price: number) =>
+  idea.side === 'BUY' ? price <= idea.limitPrice : price >= idea.limitPrice;
+
+const SIDE_STYLES: Record<TradeIdea['side'], string> = {
+  BUY: 'bg-green-50 text-green-700 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-900/40',
+  SELL: 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900/20 dark:text-red-400 dark:border-red-900/40',
+};
+
+/**
+ * Compact "BUY ≤ 42¢" tag for an outcome row
+ */
+export const TradeIdeaChip: React.FC<{ idea: TradeIdea }> = ({ idea }) => (
+  <span
+    className={`inline-flex items-center px-1.5 py-0.5 rounded border text-[10px] font-bold uppercase tracking-wide tabular-nums ${SIDE_STYLES[idea.side]}`}
+    title={[idea.exitCondition, idea.rationale].filter(Boolean).join(' · ') || undefined}
+  >
+    {idea.side} {idea.side === 'BUY' ? '≤' : '≥'} {cents(idea.limitPrice)}
+  </span>
+);
+
+interface TradeIdeasProps {
+  ideas: TradeIdea[];
+  outcomes?: Outcome[]; // Current prices, to show whether each idea is still actionable
+}
+
+/**
+ * Outcome-level trades behind the headline recommendation
+ */
+const TradeIdeas: React.FC<TradeIdeasProps> = ({ ideas, outcomes = [] }) => (
+  <div>
+    <h3 className="text-xs font-bold text-gray-400 dark:text-slate-500 uppercase tracking-widest mb-3">Trade Ideas</h3>
+    <ul className="space-y-2">
+      {ideas.map((idea, idx) => {
+        const price = outcomes.find((outcome) => normalizeName(outcome.name) === normalizeName(idea.outcome))?.price;
+        return (
+          <li key={idx} className="p-3 rounded-lg border border-gray-100 dark:border-slate-800 bg-gray-50/50 dark:bg-slate-800/40">
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+              <span className={`px-2 py-0.5 rounded border text-xs font-black tracking-wide ${SIDE_STYLES[idea.side]}`}>{idea.side}</span>
+              <span className="font-semibold text-gray-900 dark:text-white">{idea.outcome}</span>
+              <span className="tabular-nums text-gray-600 dark:text-slate-300">
+                {idea.side === 'BUY' ? 'up to' : 'at or above'} {cents(idea.limitPrice)}
+              </span>
+              {idea.targetPrice !== undefined && (
+                <span className="tabular-nums text-gray-500 dark:text-slate-400">target {cents(idea.targetPrice)}</span>
+              )}
+              {price !== undefined && (
+                <span
+                  className={`ml-auto text-xs tabular-nums ${
+                    isWithinLimit(idea, price) ? 'text-green-600 dark:text-green-400' : 'text-gray-400 dark:text-slate-500'
+                  }`}
+                >
+                  now {cents(price)}{isWithinLimit(idea, price) ? '' : ' · past limit'}
+                </span>
+              )}
+            </div>
+            {idea.exitCondition && (
+              <p className="mt-1.5 text-xs text-gray-500 dark:text-slate-400">
+                <span className="font-semibold">Exit:</span> {idea.exitCondition}
+              </p>
+            )}
+            {idea.rationale && <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">{idea.rationale}</p>}
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
+
+export default TradeIdeas;
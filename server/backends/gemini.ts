@@ -0,0 +1,281 @@
+import { AnalysisSource, GroundingChunk, GroundingSupport } from '../../types';
+import { domainOf, normalizePayload, sanitizeJsonText } from '../../services/analysisSchema';
+import { buildAnalysisPrompt, buildFollowUpContext } from '../prompt';
+import { AnalysisBackend } from './types';
+
+const API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+
+interface GeminiBackendOptions {
+  apiKey: string;
+  model: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Grounded web results, deduplicated by URL. `sourceIndex` maps each chunk index
+ * to its position in `sources`.
+ */
+const extractSources = (chunks: GroundingChunk[] | undefined) => {
+  const sources: AnalysisSource[] = [];
+  const sourceIndex = new Map<number, number>();
+  (Array.isArray(chunks) ? chunks : []).forEach((chunk, idx) => {
+    const uri = chunk.web?.uri;
+    if (!uri) return;
+    const existing = sources.findIndex((source) => source.url === uri);
+    if (existing === -1) {
+      // Grounding URIs are redirects; the title is usually the publisher's domain
+      sources.push({ title: chunk.web!.title || uri, url: uri, domain: chunk.web!.domain || chunk.web!.title || domainOf(uri) });
+    }
+    sourceIndex.set(idx, existing === -1 ? sources.length - 1 : existing);
+  });
+  return { sources, sourceIndex };
+};
+
+const squash = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Cites grounded sources per reasoning point, from the answer segments each
+ * grounding support covers
+ */
+const citeFromSupports = (
+  reasoning: string[],
+  supports: GroundingSupport[] | undefined,
+  sourceIndex: Map<number, number>
+): number[][] | undefined => {
+  if (!Array.isArray(supports)) return undefined;
+  const citations = reasoning.map((point) => {
+    const text = squash(point);
+    const cited = supports
+      .filter((support) => {
+        const segment = squash(support.segment?.text ?? '');
+        return segment.length > 0 && text.length > 0 && (text.includes(segment) || segment.includes(text));
+      })
+      .flatMap((support) => support.groundingChunkIndices ?? [])
+      .map((idx) => sourceIndex.get(idx))
+      .filter((idx): idx is number => idx !== undefined);
+    return Array.from(new Set(cited)).sort((a, b) => a - b);
+  });
+  return citations.some((indices) => indices.length > 0) ? citations : undefined;
+};
+
+/**
+ * Copies the dates and snippets the model reported onto grounded sources from the same domain
+ */
+const enrichSources = (grounded: AnalysisSource[], reported: AnalysisSource[] = []) => {
+  const unused = [...reported];
+  return grounded.map((source) => {
+    const idx = unused.findIndex((candidate) => candidate.domain && candidate.domain === source.domain);
+    if (idx === -1) return source;
+    const [match] = unused.splice(idx, 1);
+    return { ...source, title: match.title, publishedAt: match.publishedAt, snippet: match.snippet };
+  });
+};
+
+const textOf = (candidate: any): string =>
+  (candidate?.content?.parts ?? []).map((part: { text?: string }) => part.text ?? '').join('');
+
+/**
+ * Elements of a JSON array that have been written out in full so far. `start` is the index of its '['.
+ */
+const completedElements = (text: string, start: number): unknown[] => {
+  const elements: unknown[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+  for (let i = start + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (depth === 0 && (ch === ',' || ch === ']')) {
+      if (elementStart !== -1) {
+        try {
+          elements.push(JSON.parse(text.slice(elementStart, i)));
+        } catch {
+          return elements;
+        }
+        elementStart = -1;
+      }
+      if (ch === ']') return elements;
+      continue;
+    }
+    if (elementStart === -1 && !/\s/.test(ch)) elementStart = i;
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') depth++;
+    else if (ch === '}' || ch === ']') depth--;
+  }
+  return elements;
+};
+
+/**
+ * The summary and the finished reasoning points of a JSON answer that is still being written
+ */
+const readPartialAnswer = (text: string): { summary?: string; reasoning: string[] } => {
+  let summary: string | undefined;
+  const summaryMatch = /"summary"\s*:\s*"((?:[^"\\]|\\.)*)"/.exec(text);
+  if (summaryMatch) {
+    try {
+      summary = JSON.parse(`"${summaryMatch[1]}"`);
+    } catch {
+      summary = undefined;
+    }
+  }
+  const reasoningMatch = /"reasoning"\s*:\s*\[/.exec(text);
+  const reasoning = reasoningMatch
+    ? completedElements(text, reasoningMatch.index + reasoningMatch[0].length - 1)
+        .map((point: any) => (typeof point === 'string' ? point : point?.text))
+        .filter((point): point is string => typeof point === 'string' && point.trim().length > 0)
+    : [];
+  return { summary, reasoning };
+};
+
+/**
+ * Calls the Gemini REST API: streamGenerateContent for analyses, generateContent for follow-ups.
+ * Modes with web search enable Google Search grounding; grounding chunks become AnalysisResult.sources
+ * and grounding supports become the citations of the reasoning points they cover.
+ * While an analysis streams, searches, sources, the summary and each finished reasoning point
+ * are emitted as soon as they arrive.
+ */
+export const createGeminiBackend = ({ apiKey, model, timeoutMs = 120_000 }: GeminiBackendOptions): AnalysisBackend => {
+  const post = async (method: string, body: unknown) => {
+    const response = await fetch(`${API_BASE}/models/${model}:${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Gemini API error (${response.status}): ${await response.text()}`);
+    }
+    return response;
+  };
+
+  const generate = async (body: unknown) => {
+    const data = await (await post('generateContent', body)).json();
+    return data?.candidates?.[0];
+  };
+
+  /**
+   * Hands each SSE chunk's first candidate to `onCandidate` as it arrives
+   */
+  const streamGenerate = async (body: unknown, onCandidate: (candidate: any) => void) => {
+    const response = await post('streamGenerateContent?alt=sse', body);
+    if (!response.body) {
+      throw new Error('Gemini API returned an empty stream');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    const handleLine = (line: string) => {
+      const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+      if (data) onCandidate(JSON.parse(data)?.candidates?.[0]);
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer + decoder.decode());
+  };
+
+  return {
+    name: `gemini:${model}`,
+    analyze: async ({ market, mode, rules }, emit) => {
+      const isDeep = mode.gateway.webSearch;
+      const { temperature } = mode.gateway;
+      emit?.(
+        isDeep
+          ? { type: 'status', stage: 'searching', message: 'Searching live sources' }
+          : { type: 'status', stage: 'scoring', message: `Asking ${model}` }
+      );
+
+      const body = {
+        contents: [{ role: 'user', parts: [{ text: buildAnalysisPrompt(market, mode, rules) }] }],
+        // JSON mode cannot be combined with tools, so web search relies on the prompt + sanitizeJsonText
+        tools: isDeep ? [{ google_search: {} }] : undefined,
+        generationConfig: {
+          responseMimeType: isDeep ? undefined : 'application/json',
+          temperature,
+        },
+      };
+
+      let text = '';
+      let groundingChunks: GroundingChunk[] | undefined;
+      let groundingSupports: GroundingSupport[] | undefined;
+      const searches = new Set<string>();
+      const seenSources = new Set<string>();
+      let summarySent = false;
+      let reasoningSent = 0;
+
+      await streamGenerate(body, (candidate) => {
+        const metadata = candidate?.groundingMetadata;
+        (Array.isArray(metadata?.webSearchQueries) ? metadata.webSearchQueries : []).forEach((query: string) => {
+          if (searches.has(query)) return;
+          searches.add(query);
+          emit?.({ type: 'status', stage: 'searching', message: `Searching "${query}"` });
+        });
+        if (Array.isArray(metadata?.groundingChunks) && metadata.groundingChunks.length > 0) {
+          groundingChunks = metadata.groundingChunks;
+          extractSources(groundingChunks).sources.forEach((source) => {
+            if (seenSources.has(source.url)) return;
+            seenSources.add(source.url);
+            emit?.({ type: 'status', stage: 'reading', message: `Reading ${source.title}` });
+            emit?.({ type: 'source', source });
+          });
+        }
+        if (Array.isArray(metadata?.groundingSupports) && metadata.groundingSupports.length > 0) {
+          groundingSupports = metadata.groundingSupports;
+        }
+
+        const delta = textOf(candidate);
+        if (!delta) return;
+        if (!text) {
+          emit?.({ type: 'status', stage: 'writing', message: 'Writing up analysis' });
+        }
+        text += delta;
+
+        const partial = readPartialAnswer(text);
+        if (partial.summary && !summarySent) {
+          summarySent = true;
+          emit?.({ type: 'summary', text: partial.summary });
+        }
+        partial.reasoning.slice(reasoningSent).forEach((point) => emit?.({ type: 'reasoning', text: point }));
+        reasoningSent = Math.max(reasoningSent, partial.reasoning.length);
+      });
+
+      const result = normalizePayload(JSON.parse(sanitizeJsonText(text)));
+      const grounded = extractSources(groundingChunks);
+
+      if (grounded.sources.length === 0) {
+        return result;
+      }
+      // The model's own indices point into its own list, so grounded results are re-cited from the supports
+      return {
+        ...result,
+        sources: enrichSources(grounded.sources, result.sources),
+        citations: citeFromSupports(result.reasoning, groundingSupports, grounded.sourceIndex),
+      };
+    },
+    // Plain-text, multi-turn answer; the analysis and market ride along as the system instruction
+    followUp: async ({ market, analysis, earlier, messages }) => {
+      const candidate = await generate({
+        systemInstruction: { parts: [{ text: buildFollowUpContext(market, analysis, earlier) }] },
+        contents: messages.map((message) => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: message.content }],
+        })),
+      });
+      return { reply: textOf(candidate).trim() };
+    },
+  };
+};
@@ -0,0 +1,228 @@
+import {
+  AnalysisModeDefinition,
+  AnalysisResult,
+  FairProbability,
+  FollowUpReply,
+  MarketData,
+  Outcome,
+  ResolutionRules,
+  TradeIdea,
+} from '../../types';
+import { analyzeResolutionRules } from '../../services/resolutionRules';
+import { AnalysisBackend, FollowUpRequest } from './types';
+
+/**
+ * Parses formatted money strings produced by polymarketService ("$1.2m", "$150k", "$900")
+ */
+const parseMoney = (value: string | undefined): number => {
+  if (!value) return 0;
+  const match = value.replace(/[$,\s]/g, '').match(/^([\d.]+)([kmb]?)$/i);
+  if (!match) return 0;
+  const multiplier = { '': 1, k: 1_000, m: 1_000_000, b: 1_000_000_000 }[match[2].toLowerCase()] ?? 1;
+  return Number(match[1]) * multiplier;
+};
+
+const daysUntil = (endDate: string | undefined, now: number): number | undefined => {
+  if (!endDate) return undefined;
+  const end = Date.parse(endDate);
+  if (Number.isNaN(end)) return undefined;
+  return (end - now) / 86_400_000;
+};
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Removes the overround, then shades longshots down and favorites up
+ * to correct for the favorite-longshot bias.
+ */
+const estimateFairProbabilities = (outcomes: Outcome[]): FairProbability[] => {
+  const total = outcomes.reduce((sum, outcome) => sum + outcome.price, 0);
+  if (total <= 0) return [];
+
+  const adjusted = outcomes.map((outcome) => {
+    const p = outcome.price / total;
+    if (p < 0.15) return p * 0.85;
+    if (p > 0.8) return p + (1 - p) * 0.15;
+    return p;
+  });
+  const adjustedTotal = adjusted.reduce((sum, p) => sum + p, 0);
+
+  return outcomes.map((outcome, idx) => ({
+    outcome: outcome.name,
+    probability: Number((adjusted[idx] / adjustedTotal).toFixed(4)),
+  }));
+};
+
+/**
+ * Trade on one outcome with its limit halfway between price and fair value,
+ * so a fill still keeps half of the estimated edge
+ */
+const tradeIdeaFor = (outcome: Outcome, side: TradeIdea['side'], fair: FairProbability[]): TradeIdea | undefined => {
+  const estimate = fair.find((fp) => fp.outcome === outcome.name)?.probability;
+  if (estimate === undefined) return undefined;
+  return {
+    outcome: outcome.name,
+    side,
+    limitPrice: Number(((outcome.price + estimate) / 2).toFixed(3)),
+    targetPrice: estimate,
+    exitCondition: 'Hold to resolution unless the price reaches the target first.',
+  };
+};
+
+/**
+ * Deterministic, offline backend.
+ *
+ * Applies well-known prediction market heuristics (liquidity floor, favorite-longshot
+ * bias, overround) to the snapshot alone. The same market always yields the same
+ * result, which makes it suitable for local development and tests.
+ */
+export const scoreMarket = (
+  market: MarketData,
+  mode: AnalysisModeDefinition,
+  rules: ResolutionRules = analyzeResolutionRules(market),
+  now = Date.now()
+): AnalysisResult => {
+  const outcomes = [...market.outcomes].sort((a, b) => b.probability - a.probability);
+  const favorite = outcomes[0];
+  const longshot = outcomes[outcomes.length - 1];
+  const liquidity = parseMoney(market.liquidity);
+  const volume = Number.isFinite(market.volumeNum) ? market.volumeNum : parseMoney(market.volume);
+  const overround = outcomes.reduce((sum, outcome) => sum + outcome.price, 0) - 1;
+  const remainingDays = daysUntil(market.endDate, now);
+
+  const fairProbabilities = estimateFairProbabilities(outcomes);
+
+  const reasoning: string[] = [];
+  let recommendation: AnalysisResult['recommendation'] = 'HOLD';
+  let tradeIdea: TradeIdea | undefined;
+
+  // Depth drives how much we trust the quoted price at all
+  const depthScore = Math.min(1, Math.log10(1 + liquidity) / 6) * 0.6 + Math.min(1, Math.log10(1 + volume) / 7) * 0.4;
+  let confidence = 35 + depthScore * 40;
+
+  reasoning.push(`Liquidity of ${market.liquidity || '$0'} and volume of ${market.volume || '$0'} put the depth score at ${(depthScore * 100).toFixed(0)}/100.`);
+
+  if (!market.active || (remainingDays !== undefined && remainingDays < 0)) {
+    recommendation = 'AVOID';
+    confidence = 80;
+    reasoning.push('Market is no longer active; prices no longer reflect tradeable odds.');
+  } else if (liquidity < 5_000) {
+    recommendation = 'AVOID';
+    reasoning.push('Order book is too thin to enter or exit without significant slippage.');
+  } else if (favorite && favorite.probability >= 0.8 && favorite.probability <= 0.97) {
+    recommendation = 'BUY';
+    tradeIdea = tradeIdeaFor(favorite, 'BUY', fairProbabilities);
+    confidence += 8;
+    reasoning.push(`"${favorite.name}" trades at ${pct(favorite.probability)}; heavy favorites are historically slightly underpriced (favorite-longshot bias).`);
+  } else if (longshot && outcomes.length > 1 && longshot.probability > 0.02 && longshot.probability < 0.12) {
+    recommendation = 'SELL';
+    tradeIdea = tradeIdeaFor(longshot, 'SELL', fairProbabilities);
+    confidence += 4;
+    reasoning.push(`"${longshot.name}" at ${pct(longshot.probability)} is a longshot; these tend to be overpriced relative to realized frequency.`);
+  } else {
+    reasoning.push(`Leading outcome "${favorite?.name ?? 'n/a'}" at ${favorite ? pct(favorite.probability) : 'n/a'} sits in the range where the market is usually efficient.`);
+  }
+
+  if (Math.abs(overround) > 0.02) {
+    confidence -= 5;
+    reasoning.push(`Outcome prices sum to ${pct(1 + overround)}, a ${overround > 0 ? 'vig' : 'shortfall'} of ${pct(Math.abs(overround))}.`);
+  }
+
+  if (remainingDays !== undefined && remainingDays >= 0) {
+    if (remainingDays < 2) {
+      confidence -= 5;
+      reasoning.push('Resolution is less than two days away; late information can swing the price sharply.');
+    } else {
+      reasoning.push(`Resolves in about ${Math.round(remainingDays)} days.`);
+    }
+  }
+
+  // Ambiguous rules make any price less trustworthy, whichever way it points
+  const highRisks = rules.flags.filter((flag) => flag.severity === 'high');
+  const mediumRisks = rules.flags.filter((flag) => flag.severity === 'medium');
+  if (highRisks.length > 0) {
+    confidence -= 10;
+    reasoning.push(`Resolution rules: ${highRisks.map((flag) => flag.message).join(' ')}`);
+  } else if (mediumRisks.length > 0) {
+    confidence -= 3;
+    reasoning.push(`Resolution rules: ${mediumRisks[0].message}`);
+  }
+
+  if (mode.gateway.webSearch) {
+    reasoning.push('Offline heuristic backend: no live sources were consulted.');
+  }
+
+  const confidenceScore = Math.max(0, Math.min(100, Math.round(confidence)));
+
+  return {
+    summary: `Heuristic read on "${market.question}": ${recommendation} with ${confidenceScore}% confidence, based on price level, depth and time to resolution.`,
+    recommendation,
+    confidenceScore,
+    reasoning,
+    sources: mode.gateway.webSearch ? [{ title: 'Polymarket market page', url: market.url }] : undefined,
+    fairProbabilities,
+    tradeIdeas: tradeIdea ? [tradeIdea] : undefined,
+  };
+};
+
+/**
+ * Canned follow-up answers built from the analysis itself. Recognizes "what
+ * would change your mind" and "compare to before" questions; anything else
+ * gets the key factors restated.
+ */
+export const answerFollowUp = ({ market, analysis, earlier, messages }: FollowUpRequest): FollowUpReply => {
+  const question = messages[messages.length - 1].content.toLowerCase();
+
+  if (/change your mind|wrong|invalidat|exit/.test(question)) {
+    const triggers = (analysis.tradeIdeas ?? []).map((idea) =>
+      idea.exitCondition
+        ? `${idea.side} ${idea.outcome}: ${idea.exitCondition}`
+        : `${idea.side} ${idea.outcome}: the price moves past the ${pct(idea.limitPrice)} limit.`
+    );
+    const fair = (analysis.fairProbabilities ?? []).map((fp) => `${fp.outcome} at ${pct(fp.probability)}`);
+    return {
+      reply: [
+        `The ${analysis.recommendation} call rests on price level, depth and time to resolution, so a change in any of them would change it.`,
+        triggers.length > 0 ? `Exit triggers:\n${triggers.map((t) => `- ${t}`).join('\n')}` : null,
+        fair.length > 0 ? `Fair values used: ${fair.join(', ')}. Prices crossing these would remove the edge.` : null,
+      ]
+        .filter(Boolean)
+        .join('\n\n'),
+    };
+  }
+
+  if (/compare|last (week|time)|before|previous|earlier|changed/.test(question)) {
+    const previous = earlier[0];
+    if (!previous) {
+      return { reply: 'There is no earlier analysis of this market to compare against.' };
+    }
+    const moves = market.outcomes
+      .map((outcome) => {
+        const before = previous.prices.find((p) => p.outcome === outcome.name)?.price;
+        return before === undefined ? null : `${outcome.name} ${pct(before)} → ${pct(outcome.price)}`;
+      })
+      .filter(Boolean);
+    return {
+      reply:
+        `On ${new Date(previous.timestamp).toISOString().slice(0, 10)} the call was ${previous.recommendation} at ${previous.confidenceScore}% confidence; ` +
+        `now it is ${analysis.recommendation} at ${analysis.confidenceScore}%.` +
+        (moves.length > 0 ? ` Price moves since then: ${moves.join(', ')}.` : ''),
+    };
+  }
+
+  return {
+    reply: `The offline heuristic backend can only restate its analysis. ${analysis.summary}\n\nKey factors:\n${analysis.reasoning
+      .slice(0, 3)
+      .map((point) => `- ${point}`)
+      .join('\n')}`,
+  };
+};
+
+export const createHeuristicBackend = (): AnalysisBackend => ({
+  name: 'heuristic',
+  analyze: async ({ market, mode, rules }, emit) => {
+    emit?.({ type: 'status', stage: 'scoring', message: 'Scoring price level, depth and time to resolution' });
+    return scoreMarket(market, mode, rules);
+  },
+  followUp: async (request) => answerFollowUp(request),
+});
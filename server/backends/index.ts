@@ -0,0 +1,39 @@
+import { createGeminiBackend } from './gemini';
+import { createHeuristicBackend } from './heuristic';
+import { AnalysisBackend } from './types';
+
+export type { AnalysisBackend, AnalysisRequest, FollowUpRequest, StreamEmitter } from './types';
+
+type BackendFactory = (env: NodeJS.ProcessEnv) => AnalysisBackend;
+
+/**
+ * Registered backends, selected with GATEWAY_BACKEND
+ */
+const BACKENDS: Record<string, BackendFactory> = {
+  heuristic: () => createHeuristicBackend(),
+  gemini: (env) => {
+    const apiKey = env.GEMINI_API_KEY || env.API_KEY;
+    if (!apiKey) {
+      throw new Error('GATEWAY_BACKEND=gemini requires GEMINI_API_KEY');
+    }
+    return createGeminiBackend({
+      apiKey,
+      model: env.GEMINI_MODEL || 'gemini-3-pro-preview',
+    });
+  },
+};
+
+export const listBackends = (): string[] => Object.keys(BACKENDS);
+
+/**
+ * Resolves the configured backend. Defaults to gemini when an API key is present,
+ * otherwise to the offline heuristic backend.
+ */
+export const createBackend = (env: NodeJS.ProcessEnv = process.env): AnalysisBackend => {
+  const name = env.GATEWAY_BACKEND || (env.GEMINI_API_KEY ? 'gemini' : 'heuristic');
+  const factory = BACKENDS[name];
+  if (!factory) {
+    throw new Error(`Unknown GATEWAY_BACKEND "${name}". Available: ${listBackends().join(', ')}`);
+  }
+  return factory(env);
+};
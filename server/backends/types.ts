@@ -0,0 +1,46 @@
+import {
+  AnalysisModeDefinition,
+  AnalysisResult,
+  AnalysisSnapshot,
+  AnalysisStreamEvent,
+  ChatMessage,
+  FollowUpReply,
+  MarketData,
+  ResolutionRules,
+} from '../../types';
+
+/**
+ * Body POSTed by analyzeMarket in services/geminiService.ts
+ */
+export interface AnalysisRequest {
+  mode: AnalysisModeDefinition; // Resolved by the gateway from the mode id (and definition, for custom modes)
+  market: MarketData;
+  rules: ResolutionRules; // Parsed resolution rules and their risk flags
+}
+
+/**
+ * Body POSTed by askFollowUp in services/geminiService.ts (marked `type: 'followup'`)
+ */
+export interface FollowUpRequest {
+  market: MarketData;
+  analysis: AnalysisResult; // The analysis being discussed
+  earlier: AnalysisSnapshot[]; // Earlier analyses of the same market, newest first
+  messages: Array<Pick<ChatMessage, 'role' | 'content'>>; // Oldest first; the last one is the user's question
+}
+
+/**
+ * Progress and partial content a backend reports while it works. The gateway
+ * sends the final `result` (or `error`) itself.
+ */
+export type StreamEmitter = (event: Exclude<AnalysisStreamEvent, { type: 'result' | 'error' }>) => void;
+
+/**
+ * A model backend the gateway can delegate analysis to.
+ * Backends may return loosely-shaped data; the gateway normalizes it.
+ * `emit` reports progress, and partial content as it arrives, when the client asked for a streamed response.
+ */
+export interface AnalysisBackend {
+  name: string;
+  analyze: (request: AnalysisRequest, emit?: StreamEmitter) => Promise<AnalysisResult>;
+  followUp: (request: FollowUpRequest) => Promise<FollowUpReply>;
+}
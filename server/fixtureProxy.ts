@@ -0,0 +1,114 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { createServer, Server } from 'node:http';
+import { join } from 'node:path';
+import { createPriceStreamHandler } from './priceStream';
+
+export type FixtureMode = 'record' | 'replay';
+
+/**
+ * Path prefixes the proxy serves and the upstream each one maps to
+ */
+export const UPSTREAMS: Record<string, string> = {
+  gamma: 'https://gamma-api.polymarket.com',
+  clob: 'https://clob.polymarket.com',
+};
+
+export interface FixtureProxyOptions {
+  mode: FixtureMode;
+  dir: string;
+  upstreams?: Record<string, string>;
+}
+
+interface FixtureFile {
+  url: string;
+  status: number;
+  recordedAt: string;
+  body: unknown;
+}
+
+/**
+ * Stable, filesystem-safe name for a request path + query.
+ * Query parameters are sorted so equivalent requests share a fixture.
+ */
+export const fixtureName = (pathAndQuery: string): string => {
+  const url = new URL(pathAndQuery, 'http://fixture');
+  url.searchParams.sort();
+  const key = `${url.pathname}${url.search}`;
+  const readable = key.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '').slice(0, 80);
+  const hash = createHash('sha1').update(key).digest('hex').slice(0, 10);
+  return `${readable}.${hash}.json`;
+};
+
+/**
+ * HTTP proxy in front of Gamma and the CLOB.
+ *
+ * record: forwards GET /<upstream>/<path> to the real API and writes each JSON response to disk.
+ * replay: serves only what was recorded, answering 404 for anything else, with no network access.
+ *
+ * WebSocket upgrades on /ws/market record or replay the CLOB price stream the same way.
+ */
+export const createFixtureProxy = ({ mode, dir, upstreams = UPSTREAMS }: FixtureProxyOptions): Server =>
+  createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('x-data-provenance', 'fixture');
+
+    const sendJson = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, OPTIONS' });
+      res.end();
+      return;
+    }
+    if (req.method !== 'GET') {
+      sendJson(405, { error: 'Fixture proxy only serves GET requests' });
+      return;
+    }
+
+    const [, prefix, ...rest] = (req.url || '/').split('/');
+    const upstream = upstreams[prefix];
+    if (!upstream) {
+      sendJson(404, { error: `Unknown upstream "${prefix}". Use one of: ${Object.keys(upstreams).join(', ')}` });
+      return;
+    }
+
+    const pathAndQuery = `/${rest.join('/')}`;
+    const file = join(dir, prefix, fixtureName(pathAndQuery));
+
+    try {
+      if (mode === 'replay') {
+        const fixture: FixtureFile = JSON.parse(await readFile(file, 'utf8'));
+        res.setHeader('x-fixture', 'hit');
+        sendJson(fixture.status, fixture.body);
+        return;
+      }
+
+      const response = await fetch(`${upstream}${pathAndQuery}`);
+      const body = await response.json();
+      const fixture: FixtureFile = {
+        url: `${upstream}${pathAndQuery}`,
+        status: response.status,
+        recordedAt: new Date().toISOString(),
+        body,
+      };
+      // Rate limits and server errors are transient; don't freeze them into fixtures
+      if (response.status < 500 && response.status !== 429) {
+        await mkdir(join(dir, prefix), { recursive: true });
+        await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+        res.setHeader('x-fixture', 'recorded');
+      }
+      sendJson(response.status, body);
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code;
+      if (mode === 'replay' && code === 'ENOENT') {
+        res.setHeader('x-fixture', 'miss');
+        sendJson(404, { error: `No fixture recorded for ${prefix}${pathAndQuery}` });
+        return;
+      }
+      console.error(`[fixtures] ${req.url}: ${err instanceof Error ? err.message : String(err)}`);
+      sendJson(502, { error: err instanceof Error ? err.message : String(err) });
+    }
+  }).on('upgrade', createPriceStreamHandler({ mode, dir }));
@@ -0,0 +1,22 @@
+import { resolve } from 'node:path';
+import { createFixtureProxy, FixtureMode } from './fixtureProxy';
+
+/**
+ * Fixture server entry point.
+ *
+ * Environment:
+ *   FIXTURE_MODE   record | replay (default replay)
+ *   FIXTURE_DIR    directory holding recorded responses (default ./fixtures)
+ *   FIXTURE_PORT   port to listen on (default 8788)
+ */
+const mode = (process.env.FIXTURE_MODE || 'replay') as FixtureMode;
+if (mode !== 'record' && mode !== 'replay') {
+  throw new Error(`FIXTURE_MODE must be "record" or "replay", got "${mode}"`);
+}
+
+const dir = resolve(process.env.FIXTURE_DIR || 'fixtures');
+const port = Number(process.env.FIXTURE_PORT) || 8788;
+
+createFixtureProxy({ mode, dir }).listen(port, () => {
+  console.log(`Fixture server (${mode}) on http://localhost:${port} (prices on ws://localhost:${port}/ws/market), fixtures in ${dir}`);
+});
@@ -0,0 +1,304 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AnalysisModeDefinition, AnalysisResult, AnalysisSnapshot, AnalysisStreamEvent } from '../types';
+import { normalizeFollowUpReply, normalizePayload } from '../services/analysisSchema';
+import { BUILT_IN_MODES, parseModeDefinition } from '../services/analysisModes';
+import { analyzeResolutionRules } from '../services/resolutionRules';
+import { AnalysisBackend, AnalysisRequest, FollowUpRequest } from './backends';
+
+const MAX_BODY_BYTES = 1_000_000;
+const MAX_FOLLOW_UP_MESSAGES = 40;
+const MAX_EARLIER_ANALYSES = 10;
+
+export interface GatewayOptions {
+  backend: AnalysisBackend;
+  /** When set, requests must send a matching x-api-key header */
+  apiKey?: string;
+  /** Value for Access-Control-Allow-Origin */
+  corsOrigin?: string;
+}
+
+const describeError = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop reading but keep the socket open for the 413; Connection: close ends it after the response
+        req.removeAllListeners('data');
+        req.pause();
+        reject(new HttpError(413, 'Request body too large', { Connection: 'close' }));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+/**
+ * Built-in modes always use the gateway's own definition. Other ids need the
+ * `modeDefinition` the client sent along.
+ */
+const resolveMode = (modeId: string, definition: unknown): AnalysisModeDefinition => {
+  const builtIn = BUILT_IN_MODES.find((mode) => mode.id === modeId.toUpperCase());
+  if (builtIn) return builtIn;
+  if (!definition) {
+    throw new HttpError(400, `Unsupported mode "${modeId}"`);
+  }
+
+  let custom: AnalysisModeDefinition;
+  try {
+    custom = parseModeDefinition(definition);
+  } catch (err) {
+    throw new HttpError(400, `Invalid modeDefinition: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (custom.id !== modeId) {
+    throw new HttpError(400, `modeDefinition id "${custom.id}" does not match mode "${modeId}"`);
+  }
+  return custom;
+};
+
+const parseJsonBody = (raw: string): any => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'Body must be valid JSON');
+  }
+};
+
+const assertMarket = (market: any) => {
+  if (!market || typeof market.question !== 'string' || !Array.isArray(market.outcomes)) {
+    throw new HttpError(400, 'market must include a question and an outcomes array');
+  }
+};
+
+/**
+ * Validates the `{ mode, modeDefinition?, market, rules? }` payload sent by analyzeMarket.
+ * Rules the client did not send (or sent malformed) are parsed here from the market.
+ */
+export const parseAnalysisRequest = (payload: any): AnalysisRequest => {
+  const modeId = String(payload?.mode || '').trim();
+  if (!modeId) {
+    throw new HttpError(400, 'mode is required');
+  }
+  const mode = resolveMode(modeId, payload?.modeDefinition);
+
+  const market = payload?.market;
+  assertMarket(market);
+
+  const rules = payload?.rules && Array.isArray(payload.rules.flags) ? payload.rules : analyzeResolutionRules(market);
+
+  return { mode, market, rules };
+};
+
+/**
+ * Checks one entry of a follow-up's `earlier` list, which the prompt formats verbatim
+ */
+const parseSnapshot = (entry: any, idx: number): AnalysisSnapshot => {
+  const fail = (problem: string) => new HttpError(400, `earlier[${idx}] ${problem}`);
+  if (!entry || typeof entry !== 'object') throw fail('must be an object');
+
+  const timestamp = Number(entry.timestamp);
+  if (!Number.isFinite(timestamp) || Number.isNaN(new Date(timestamp).getTime())) {
+    throw fail('needs a valid timestamp');
+  }
+  if (!['BUY', 'SELL', 'HOLD', 'AVOID'].includes(entry.recommendation)) throw fail('needs a recommendation');
+  if (!Array.isArray(entry.prices)) throw fail('needs a prices array');
+  const prices = entry.prices.map((price: any) => {
+    if (typeof price?.outcome !== 'string' || !Number.isFinite(Number(price?.price))) {
+      throw fail('prices need an outcome name and a numeric price');
+    }
+    return { outcome: price.outcome, price: Number(price.price) };
+  });
+
+  return {
+    timestamp,
+    mode: String(entry.mode ?? ''),
+    recommendation: entry.recommendation,
+    confidenceScore: Number(entry.confidenceScore) || 0,
+    summary: typeof entry.summary === 'string' ? entry.summary : '',
+    prices,
+  };
+};
+
+/**
+ * Validates the `{ type: 'followup', market, analysis, earlier?, messages }` payload sent by askFollowUp
+ */
+export const parseFollowUpRequest = (payload: any): FollowUpRequest => {
+  const market = payload?.market;
+  assertMarket(market);
+
+  let analysis: AnalysisResult;
+  try {
+    analysis = normalizePayload(payload?.analysis);
+  } catch (err) {
+    throw new HttpError(400, `Invalid analysis: ${describeError(err)}`);
+  }
+
+  const messages = Array.isArray(payload?.messages)
+    ? payload.messages
+        .filter((m: any) => (m?.role === 'user' || m?.role === 'assistant') && typeof m.content === 'string' && m.content.trim())
+        .map((m: any) => ({ role: m.role, content: m.content.trim() }))
+        .slice(-MAX_FOLLOW_UP_MESSAGES)
+    : [];
+  if (messages.length === 0 || messages[messages.length - 1].role !== 'user') {
+    throw new HttpError(400, 'messages must end with a user message');
+  }
+
+  const earlier = Array.isArray(payload?.earlier)
+    ? payload.earlier.slice(0, MAX_EARLIER_ANALYSES).map(parseSnapshot)
+    : [];
+
+  return { market, analysis, earlier, messages };
+};
+
+const send = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+type StreamFormat = 'ndjson' | 'sse';
+
+const STREAM_CONTENT_TYPES: Record<StreamFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  sse: 'text/event-stream',
+};
+
+/**
+ * Picks a streaming format from the Accept header; undefined means buffered JSON
+ */
+const negotiateStream = (accept: string | undefined): StreamFormat | undefined => {
+  if (accept?.includes(STREAM_CONTENT_TYPES.ndjson)) return 'ndjson';
+  if (accept?.includes(STREAM_CONTENT_TYPES.sse)) return 'sse';
+  return undefined;
+};
+
+const openStream = (res: ServerResponse, format: StreamFormat) => {
+  res.writeHead(200, {
+    'Content-Type': STREAM_CONTENT_TYPES[format],
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  return (event: AnalysisStreamEvent) => {
+    const json = JSON.stringify(event);
+    res.write(format === 'ndjson' ? `${json}\n` : `data: ${json}\n\n`);
+  };
+};
+
+/**
+ * Sends the content of a finished result for backends that only report status while they
+ * work (the heuristic), so clients render every analysis the same way
+ */
+const streamResult = (write: (event: AnalysisStreamEvent) => void, result: AnalysisResult) => {
+  write({ type: 'status', stage: 'writing', message: 'Writing up analysis' });
+  write({ type: 'summary', text: result.summary });
+  // Sources first, so citation markers in the reasoning resolve as soon as they arrive
+  result.sources?.forEach((source) => write({ type: 'source', source }));
+  result.reasoning.forEach((text, idx) => write({ type: 'reasoning', text, citations: result.citations?.[idx] }));
+};
+
+/**
+ * Creates the analysis gateway HTTP server (not yet listening).
+ *
+ * POST /            -> AnalysisResult (also accepted at /analyze)
+ *                      Accept: application/x-ndjson or text/event-stream streams AnalysisStreamEvents
+ *                      Bodies with `type: 'followup'` get a FollowUpReply instead
+ * GET  /health      -> backend name
+ */
+export const createGateway = ({ backend, apiKey, corsOrigin = '*' }: GatewayOptions): Server =>
+  createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', corsOrigin);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, x-api-key');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+
+      if (req.method === 'GET' && path === '/health') {
+        send(res, 200, { ok: true, backend: backend.name });
+        return;
+      }
+
+      if (path !== '/' && path !== '/analyze') {
+        throw new HttpError(404, 'Not found');
+      }
+      if (req.method !== 'POST') {
+        throw new HttpError(405, 'Use POST');
+      }
+      if (apiKey && req.headers['x-api-key'] !== apiKey) {
+        throw new HttpError(401, 'Invalid or missing x-api-key');
+      }
+
+      const payload = parseJsonBody(await readBody(req));
+
+      if (payload?.type === 'followup') {
+        const followUp = parseFollowUpRequest(payload);
+        let reply;
+        try {
+          reply = normalizeFollowUpReply(await backend.followUp(followUp));
+        } catch (err) {
+          throw new HttpError(502, `Backend ${backend.name} failed: ${describeError(err)}`);
+        }
+        send(res, 200, reply);
+        return;
+      }
+
+      const request = parseAnalysisRequest(payload);
+      const format = negotiateStream(req.headers.accept);
+
+      if (format) {
+        const write = openStream(res, format);
+        write({ type: 'status', stage: 'queued', message: `Starting ${request.mode.label}` });
+        let streamedContent = false;
+        try {
+          const result = normalizePayload(
+            await backend.analyze(request, (event) => {
+              streamedContent ||= event.type !== 'status';
+              write(event);
+            })
+          );
+          // The result supersedes any partial content, whose citations may still be incomplete
+          if (!streamedContent) streamResult(write, result);
+          write({ type: 'result', result });
+        } catch (err) {
+          console.error(`[gateway] stream via ${backend.name} failed: ${describeError(err)}`);
+          write({ type: 'error', message: `Backend ${backend.name} failed: ${describeError(err)}` });
+        }
+        res.end();
+        return;
+      }
+
+      let result;
+      try {
+        result = normalizePayload(await backend.analyze(request));
+      } catch (err) {
+        throw new HttpError(502, `Backend ${backend.name} failed: ${describeError(err)}`);
+      }
+
+      send(res, 200, result);
+    } catch (err) {
+      const status = err instanceof HttpError ? err.status : 500;
+      const message = describeError(err);
+      if (status >= 500) {
+        console.error(`[gateway] ${req.method} ${path} -> ${status}: ${message}`);
+      }
+      if (!res.headersSent) {
+        send(res, status, { error: message }, err instanceof HttpError ? err.headers : {});
+      }
+    }
+  });
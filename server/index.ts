@@ -0,0 +1,26 @@
+import { createBackend } from './backends';
+import { createGateway } from './gateway';
+
+/**
+ * Local analysis gateway entry point.
+ *
+ * Environment:
+ *   GATEWAY_PORT      port to listen on (default 8787)
+ *   GATEWAY_API_KEY   require this value in the x-api-key header
+ *   GATEWAY_BACKEND   heuristic | gemini (default: gemini if GEMINI_API_KEY is set)
+ *   GEMINI_API_KEY    key for the gemini backend
+ *   GEMINI_MODEL      model id for the gemini backend
+ *   GATEWAY_CORS_ORIGIN  Access-Control-Allow-Origin value (default *)
+ */
+const port = Number(process.env.GATEWAY_PORT) || 8787;
+const backend = createBackend(process.env);
+
+const server = createGateway({
+  backend,
+  apiKey: process.env.GATEWAY_API_KEY,
+  corsOrigin: process.env.GATEWAY_CORS_ORIGIN,
+});
+
+server.listen(port, () => {
+  console.log(`Analysis gateway listening on http://localhost:${port} (backend: ${backend.name})`);
+});
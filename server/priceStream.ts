@@ -0,0 +1,171 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { IncomingMessage } from 'node:http';
+import { join } from 'node:path';
+import { Duplex } from 'node:stream';
+import type { FixtureMode } from './fixtureProxy';
+import { acceptWebSocket, connectWebSocket, SocketConnection } from './websocket';
+
+/**
+ * Path the fixture server takes WebSocket connections on, mirroring the CLOB's
+ */
+export const PRICE_STREAM_PATH = '/ws/market';
+export const MARKET_CHANNEL_URL = 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
+export const TICKS_FILE = 'ticks.jsonl';
+
+// Replay keeps the recorded pacing within these bounds
+const MIN_DELAY = 50;
+const MAX_DELAY = 5000;
+const LOOP_PAUSE = 2000;
+
+export interface PriceStreamOptions {
+  mode: FixtureMode;
+  dir: string;
+  upstream?: string;
+}
+
+/**
+ * One line of ticks.jsonl: a market channel message and when it arrived
+ */
+interface RecordedTick {
+  at: number; // Unix ms
+  message: unknown;
+}
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * The part of a recorded message that concerns the subscribed assets, restamped to now
+ */
+const forAssets = (message: unknown, assets: Set<string>, now: number): unknown[] =>
+  (Array.isArray(message) ? message : [message]).flatMap((event: any) => {
+    if (!event || typeof event !== 'object') return [];
+    const timestamp = event.timestamp === undefined ? {} : { timestamp: String(now) };
+    if (Array.isArray(event.price_changes)) {
+      const changes = event.price_changes.filter((change: any) => assets.has(change?.asset_id));
+      return changes.length > 0 ? [{ ...event, ...timestamp, price_changes: changes }] : [];
+    }
+    return assets.has(event.asset_id) ? [{ ...event, ...timestamp }] : [];
+  });
+
+const loadTicks = async (file: string): Promise<RecordedTick[]> => {
+  const text = await readFile(file, 'utf8');
+  return text
+    .split('\n')
+    .map((line) => parseJson(line) as RecordedTick | undefined)
+    .filter((tick): tick is RecordedTick => typeof tick?.at === 'number' && tick.message !== undefined)
+    .sort((a, b) => a.at - b.at);
+};
+
+/**
+ * Plays the recorded ticks for the subscribed assets on a loop, keeping their original spacing
+ */
+const replay = (client: SocketConnection, file: string) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  client.onClose(() => clearTimeout(timer));
+
+  client.onMessage(async (text) => {
+    if (text === 'PING') {
+      client.send('PONG');
+      return;
+    }
+    const assets = (parseJson(text) as { assets_ids?: unknown } | undefined)?.assets_ids;
+    if (!Array.isArray(assets)) return;
+
+    clearTimeout(timer);
+    const subscribed = new Set(assets.map(String));
+    let ticks: RecordedTick[];
+    try {
+      ticks = (await loadTicks(file)).filter((tick) => forAssets(tick.message, subscribed, 0).length > 0);
+    } catch (err) {
+      console.warn(`[fixtures] No ticks to replay: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    if (ticks.length === 0) {
+      console.warn(`[fixtures] ${file} has no ticks for ${[...subscribed].join(', ')}`);
+      return;
+    }
+
+    const play = (index: number) => {
+      const now = Date.now();
+      client.send(JSON.stringify(forAssets(ticks[index].message, subscribed, now)));
+      const next = index + 1 < ticks.length ? index + 1 : 0;
+      const delay =
+        next === 0 ? LOOP_PAUSE : Math.min(MAX_DELAY, Math.max(MIN_DELAY, ticks[next].at - ticks[index].at));
+      timer = setTimeout(() => play(next), delay);
+    };
+    play(0);
+  });
+};
+
+/**
+ * Relays the client to the real market channel, appending everything it sends back to the ticks file
+ * once `dirReady` settles
+ */
+const record = (client: SocketConnection, file: string, upstreamUrl: string, dirReady: Promise<unknown>) => {
+  const pending: string[] = [];
+  let upstream: SocketConnection | undefined;
+  let clientClosed = false;
+
+  client.onMessage((text) => (upstream ? upstream.send(text) : pending.push(text)));
+  client.onClose(() => {
+    clientClosed = true;
+    upstream?.close();
+  });
+
+  connectWebSocket(upstreamUrl)
+    .then((connection) => {
+      if (clientClosed) {
+        connection.close();
+        return;
+      }
+      upstream = connection;
+      pending.splice(0).forEach((text) => connection.send(text));
+      connection.onClose(() => client.close(1011, 'Upstream closed'));
+      connection.onMessage((text) => {
+        client.send(text);
+        const message = parseJson(text);
+        if (message === undefined) return; // PONG and other keepalives
+        const line = `${JSON.stringify({ at: Date.now(), message } satisfies RecordedTick)}\n`;
+        dirReady
+          .then(() => appendFile(file, line))
+          .catch((err) => console.error(`[fixtures] Failed to record tick: ${err.message}`));
+      });
+    })
+    .catch((err) => {
+      console.error(`[fixtures] ${upstreamUrl}: ${err instanceof Error ? err.message : String(err)}`);
+      client.close(1011, 'Upstream unavailable');
+    });
+};
+
+/**
+ * 'upgrade' handler for the fixture server's price stream.
+ *
+ * record: relays to the CLOB market channel and appends each message to <dir>/ticks.jsonl.
+ * replay: plays back the recorded messages for the subscribed assets, with no network access.
+ */
+export const createPriceStreamHandler = ({ mode, dir, upstream = MARKET_CHANNEL_URL }: PriceStreamOptions) => {
+  const file = join(dir, TICKS_FILE);
+  // Created up front: listeners must attach as soon as the upgrade completes, or the subscribe frame is lost
+  const dirReady = mode === 'record' ? mkdir(dir, { recursive: true }) : Promise.resolve();
+  dirReady.catch(() => undefined); // Reported per tick when recording
+  return (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(req.url || '/', 'http://fixture').pathname !== PRICE_STREAM_PATH) {
+      socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      return;
+    }
+    const client = acceptWebSocket(req, socket, head);
+    if (!client) return;
+
+    if (mode === 'replay') {
+      replay(client, file);
+    } else {
+      record(client, file, upstream, dirReady);
+    }
+  };
+};
@@ -0,0 +1,115 @@
+import { AnalysisModeDefinition, AnalysisResult, AnalysisSnapshot, MarketData, ResolutionRules } from '../types';
+
+const formatOutcomes = (market: MarketData): string =>
+  market.outcomes
+    .map((outcome) => `- ${outcome.name}: ${(outcome.probability * 100).toFixed(1)}% (price ${outcome.price.toFixed(3)})`)
+    .join('\n');
+
+/**
+ * Fills `{{question}}`, `{{outcomes}}`, `{{endDate}}` and `{{rules}}` in a mode's
+ * prompt template. Unknown placeholders are left as written.
+ */
+const renderTemplate = (template: string, market: MarketData): string => {
+  const values: Record<string, string> = {
+    question: market.groupItemTitle ? `${market.question} (${market.groupItemTitle})` : market.question,
+    outcomes: formatOutcomes(market),
+    endDate: market.endDate || 'no end date',
+    rules: market.description || 'No resolution rules were published.',
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+};
+
+/**
+ * The local rules analyzer's reading, so the model checks the same risks the user sees
+ */
+const formatRulesReview = (rules: ResolutionRules): string | null => {
+  const lines = [
+    rules.source ? `- Resolution source: ${rules.source}` : null,
+    rules.deadlineText ? `- Deadline: ${rules.deadlineText}${rules.timezone ? '' : ' (no timezone stated)'}` : null,
+    ...rules.flags.map((flag) => `- ${flag.severity.toUpperCase()} risk: ${flag.message}`),
+  ].filter((line): line is string => line !== null);
+  return lines.length > 0 ? `\nAutomated rules review:\n${lines.join('\n')}` : null;
+};
+
+/**
+ * Builds the instruction prompt sent to LLM backends.
+ * The JSON shape mirrors AnalysisResult so normalizePayload can consume it directly;
+ * a mode's template adds its instructions but never replaces the market data or the JSON contract.
+ */
+export const buildAnalysisPrompt = (market: MarketData, mode: AnalysisModeDefinition, rules?: ResolutionRules): string => {
+  const { webSearch, promptTemplate } = mode.gateway;
+  const research = webSearch
+    ? 'Search the web for the latest news, polls and data relevant to this market before answering. Cite what you used.'
+    : 'Do not search the web. Reason from the market data and your background knowledge only.';
+
+  return [
+    'You are a prediction market analyst looking for mispriced odds on Polymarket.',
+    research,
+    promptTemplate ? `\n${renderTemplate(promptTemplate, market)}` : null,
+    '',
+    `Market: ${market.question}`,
+    market.groupItemTitle ? `Sub-market: ${market.groupItemTitle}` : null,
+    market.endDate ? `Ends: ${market.endDate}` : null,
+    market.status === 'closed' ? 'Status: closed to trading, awaiting resolution. Estimate how it will resolve.' : null,
+    `Volume: ${market.volume}  Liquidity: ${market.liquidity}`,
+    'Current odds:',
+    formatOutcomes(market),
+    market.description ? `\nResolution rules:\n${market.description}` : null,
+    rules ? formatRulesReview(rules) : null,
+    rules?.flags.length
+      ? 'Price the flagged resolution risks into your fair probabilities, and name any that matter in your reasoning.'
+      : null,
+    '',
+    'Respond with a single JSON object and nothing else:',
+    '{"summary": string, "recommendation": "BUY" | "SELL" | "HOLD" | "AVOID", "confidenceScore": number 0-100,',
+    ' "reasoning": [{"text": string, "sources": number[]}],',
+    ' "sources": [{"title": string, "url": string, "publishedAt": "YYYY-MM-DD", "snippet": string}],',
+    ' "fairProbabilities": [{"outcome": string, "probability": number 0-1}],',
+    ' "tradeIdeas": [{"outcome": string, "side": "BUY" | "SELL", "limitPrice": number 0-1, "targetPrice": number 0-1, "exitCondition": string, "rationale": string}]}',
+    'fairProbabilities must list every outcome above by its exact name with your own estimate of the true probability, independent of the market price.',
+    'tradeIdeas spell out the recommendation per outcome (exact name). limitPrice is the most you would pay on a BUY or the least you would accept on a SELL.',
+    'Give a targetPrice, an exitCondition, or both. Use an empty array for HOLD or AVOID.',
+    webSearch
+      ? 'Each reasoning point lists the 1-based indices of the sources it relies on. Give every source its publication date and the sentence you used as snippet.'
+      : 'Leave sources empty and give every reasoning point "sources": [].',
+  ]
+    .filter((line): line is string => line !== null)
+    .join('\n');
+};
+
+const formatSnapshot = (snapshot: AnalysisSnapshot): string =>
+  `- ${new Date(snapshot.timestamp).toISOString().slice(0, 10)} (${snapshot.mode}): ${snapshot.recommendation} at ${snapshot.confidenceScore}% confidence. ` +
+  `Prices: ${snapshot.prices.map((p) => `${p.outcome} ${p.price.toFixed(3)}`).join(', ')}. ${snapshot.summary}`;
+
+/**
+ * System instruction for follow-up questions: the market as it is now, the
+ * analysis under discussion and any earlier analyses. The conversation itself
+ * is sent as separate turns.
+ */
+export const buildFollowUpContext = (market: MarketData, analysis: AnalysisResult, earlier: AnalysisSnapshot[]): string =>
+  [
+    'You are the prediction market analyst who wrote the analysis below. Answer the trader\'s follow-up questions about it.',
+    'Be direct and specific, in plain text without JSON or headings, and keep answers under 200 words unless asked for more.',
+    'If the data below cannot answer a question, say so rather than guessing.',
+    '',
+    `Market: ${market.question}`,
+    market.groupItemTitle ? `Sub-market: ${market.groupItemTitle}` : null,
+    market.endDate ? `Ends: ${market.endDate}` : null,
+    'Current odds:',
+    formatOutcomes(market),
+    market.description ? `\nResolution rules:\n${market.description}` : null,
+    '',
+    'Your analysis:',
+    JSON.stringify({
+      summary: analysis.summary,
+      recommendation: analysis.recommendation,
+      confidenceScore: analysis.confidenceScore,
+      reasoning: analysis.reasoning,
+      fairProbabilities: analysis.fairProbabilities,
+      tradeIdeas: analysis.tradeIdeas,
+      sources: analysis.sources?.map(({ title, url, publishedAt }) => ({ title, url, publishedAt })),
+    }),
+    earlier.length > 0 ? `\nEarlier analyses of this market, newest first:\n${earlier.map(formatSnapshot).join('\n')}` : null,
+  ]
+    .filter((line): line is string => line !== null)
+    .join('\n');
@@ -0,0 +1,209 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { IncomingMessage, request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { Duplex } from 'node:stream';
+
+/**
+ * Just enough RFC 6455 for the price stream: text frames, ping/pong and close,
+ * without extensions. Keeps the fixture server free of dependencies.
+ */
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODES = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa };
+
+export interface SocketConnection {
+  send: (text: string) => void;
+  close: (code?: number, reason?: string) => void;
+  onMessage: (listener: (text: string) => void) => void;
+  onClose: (listener: () => void) => void;
+}
+
+const acceptKey = (key: string) => createHash('sha1').update(`${key}${HANDSHAKE_GUID}`).digest('base64');
+
+/**
+ * Clients must mask their frames; servers must not
+ */
+const encodeFrame = (opcode: number, payload: Buffer, mask: boolean): Buffer => {
+  const length = payload.length;
+  const lengthBytes = length < 126 ? 0 : length < 65536 ? 2 : 8;
+  const header = Buffer.alloc(2 + lengthBytes + (mask ? 4 : 0));
+  header[0] = 0x80 | opcode;
+  header[1] = (mask ? 0x80 : 0) | (lengthBytes === 0 ? length : lengthBytes === 2 ? 126 : 127);
+  if (lengthBytes === 2) header.writeUInt16BE(length, 2);
+  if (lengthBytes === 8) header.writeBigUInt64BE(BigInt(length), 2);
+  if (!mask) return Buffer.concat([header, payload]);
+
+  const key = randomBytes(4);
+  key.copy(header, 2 + lengthBytes);
+  const masked = Buffer.from(payload);
+  for (let i = 0; i < masked.length; i++) masked[i] ^= key[i % 4];
+  return Buffer.concat([header, masked]);
+};
+
+interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+  size: number; // Bytes the frame took in the buffer
+}
+
+/**
+ * Reads one frame off the front of the buffer, or undefined if it hasn't fully arrived
+ */
+const decodeFrame = (buffer: Buffer): Frame | undefined => {
+  if (buffer.length < 2) return undefined;
+  const fin = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return undefined;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return undefined;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return undefined;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+  }
+  return { fin, opcode, payload, size: offset + length };
+};
+
+/**
+ * Frames text over an upgraded socket
+ */
+const wrapSocket = (socket: Duplex, head: Buffer, mask: boolean): SocketConnection => {
+  const messageListeners: Array<(text: string) => void> = [];
+  const closeListeners: Array<() => void> = [];
+  let buffer = head;
+  let fragments: Buffer[] = [];
+  let closed = false;
+
+  const write = (opcode: number, payload: Buffer) => {
+    if (!socket.destroyed) socket.write(encodeFrame(opcode, payload, mask));
+  };
+
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    closeListeners.forEach((listener) => listener());
+  };
+
+  const close = (code = 1000, reason = '') => {
+    if (closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    write(OPCODES.close, payload);
+    socket.end();
+    finish();
+  };
+
+  const drain = () => {
+    let frame: Frame | undefined;
+    while (!closed && (frame = decodeFrame(buffer))) {
+      buffer = buffer.subarray(frame.size);
+      switch (frame.opcode) {
+        case OPCODES.text:
+        case OPCODES.binary:
+        case OPCODES.continuation:
+          fragments.push(frame.payload);
+          if (frame.fin) {
+            const text = Buffer.concat(fragments).toString('utf8');
+            fragments = [];
+            messageListeners.forEach((listener) => listener(text));
+          }
+          break;
+        case OPCODES.ping:
+          write(OPCODES.pong, frame.payload);
+          break;
+        case OPCODES.close:
+          close(frame.payload.length >= 2 ? frame.payload.readUInt16BE(0) : 1000);
+          break;
+      }
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+    drain();
+  });
+  socket.on('close', finish);
+  socket.on('error', () => socket.destroy());
+  if (buffer.length > 0) setImmediate(drain);
+
+  return {
+    send: (text) => write(OPCODES.text, Buffer.from(text, 'utf8')),
+    close,
+    onMessage: (listener) => messageListeners.push(listener),
+    onClose: (listener) => closeListeners.push(listener),
+  };
+};
+
+/**
+ * Completes the server side of a WebSocket handshake from an HTTP 'upgrade' event.
+ * Answers 400 and returns undefined for anything that isn't a WebSocket request.
+ */
+export const acceptWebSocket = (req: IncomingMessage, socket: Duplex, head: Buffer): SocketConnection | undefined => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return undefined;
+  }
+  socket.write(
+    [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${acceptKey(key)}`,
+      'Access-Control-Allow-Origin: *',
+      '',
+      '',
+    ].join('\r\n')
+  );
+  return wrapSocket(socket, head, false);
+};
+
+/**
+ * Opens a client WebSocket (ws:// or wss://)
+ */
+export const connectWebSocket = (url: string): Promise<SocketConnection> =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const secure = target.protocol === 'wss:';
+    const key = randomBytes(16).toString('base64');
+    const req = (secure ? httpsRequest : httpRequest)({
+      hostname: target.hostname,
+      port: target.port || (secure ? 443 : 80),
+      path: `${target.pathname}${target.search}`,
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Key': key,
+        'Sec-WebSocket-Version': '13',
+      },
+    });
+    req.on('upgrade', (res, socket, head) => {
+      if (res.headers['sec-websocket-accept'] !== acceptKey(key)) {
+        socket.destroy();
+        reject(new Error(`${url}: bad WebSocket handshake`));
+        return;
+      }
+      resolve(wrapSocket(socket, head, true));
+    });
+    req.on('response', (res) => {
+      res.resume();
+      reject(new Error(`${url}: expected a WebSocket upgrade, got HTTP ${res.statusCode}`));
+    });
+    req.on('error', reject);
+    req.end();
+  });
@@ -0,0 +1,98 @@
+import { AnalysisModeId, AnalysisResult, MarketData } from '../types';
+import { ANALYSES_STORE as STORE, openDb, promisify } from './db';
+
+export interface AnalysisRecord {
+  id: string;
+  marketId: string;
+  mode: AnalysisModeId;
+  timestamp: number;
+  market: MarketData; // Snapshot the analysis was based on
+  result: AnalysisResult;
+}
+
+export interface PriceMove {
+  outcome: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface AnalysisDiff {
+  from: AnalysisRecord;
+  to: AnalysisRecord;
+  recommendationChanged: boolean;
+  confidenceDelta: number;
+  priceMoves: PriceMove[];
+}
+
+const newestFirst = (a: AnalysisRecord, b: AnalysisRecord) => b.timestamp - a.timestamp;
+
+/**
+ * Persist an analysis together with the market snapshot it was run against
+ */
+export const saveAnalysis = async (
+  market: MarketData,
+  mode: AnalysisModeId,
+  result: AnalysisResult
+): Promise<AnalysisRecord> => {
+  const timestamp = Date.now();
+  const record: AnalysisRecord = {
+    id: `${market.id}:${timestamp}:${Math.random().toString(36).slice(2, 8)}`,
+    marketId: market.id,
+    mode,
+    timestamp,
+    market,
+    result,
+  };
+  const db = await openDb();
+  await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).put(record));
+  return record;
+};
+
+/**
+ * Past runs for one market, newest first
+ */
+export const listAnalyses = async (marketId: string): Promise<AnalysisRecord[]> => {
+  const db = await openDb();
+  const index = db.transaction(STORE, 'readonly').objectStore(STORE).index('marketId');
+  const records = await promisify(index.getAll(IDBKeyRange.only(marketId)));
+  return (records as AnalysisRecord[]).sort(newestFirst);
+};
+
+/**
+ * Every stored run across all markets, newest first
+ */
+export const listAllAnalyses = async (): Promise<AnalysisRecord[]> => {
+  const db = await openDb();
+  const records = await promisify(db.transaction(STORE, 'readonly').objectStore(STORE).getAll());
+  return (records as AnalysisRecord[]).sort(newestFirst);
+};
+
+export const deleteAnalysis = async (id: string): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(id));
+};
+
+/**
+ * Compares two runs. `from` is always the older of the two.
+ */
+export const diffAnalyses = (a: AnalysisRecord, b: AnalysisRecord): AnalysisDiff => {
+  const [from, to] = a.timestamp <= b.timestamp ? [a, b] : [b, a];
+  const beforePrices = new Map(from.market.outcomes.map((outcome) => [outcome.name, outcome.price]));
+
+  const priceMoves = to.market.outcomes
+    .filter((outcome) => beforePrices.has(outcome.name))
+    .map((outcome) => {
+      const before = beforePrices.get(outcome.name)!;
+      return { outcome: outcome.name, before, after: outcome.price, delta: outcome.price - before };
+    })
+    .sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta));
+
+  return {
+    from,
+    to,
+    recommendationChanged: from.result.recommendation !== to.result.recommendation,
+    confidenceDelta: to.result.confidenceScore - from.result.confidenceScore,
+    priceMoves,
+  };
+};
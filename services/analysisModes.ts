@@ -0,0 +1,224 @@
+import { AnalysisMode, AnalysisModeDefinition, AnalysisModeId } from '../types';
+
+/**
+ * Analysis mode registry: the built-in modes plus custom modes saved in this
+ * browser. Shared with the gateway, so it only touches localStorage when it exists.
+ */
+
+const STORAGE_KEY = 'edge-explorer:analysis-modes';
+const MAX_TEMPLATE_LENGTH = 4_000;
+
+export const PROMPT_PLACEHOLDERS = ['question', 'outcomes', 'endDate', 'rules'] as const;
+
+export const BUILT_IN_MODES: AnalysisModeDefinition[] = [
+  {
+    id: AnalysisMode.QUICK,
+    label: 'Quick Analysis',
+    icon: '⚡',
+    loadingCopy: 'Analyzing market data',
+    description: 'Reads the odds, depth and timing without searching the web.',
+    builtIn: true,
+    gateway: { webSearch: false, estimatedCostUsd: 0.01 },
+  },
+  {
+    id: AnalysisMode.DEEP,
+    label: 'Deep Research',
+    icon: '🧠',
+    loadingCopy: 'Searching live sources & analyzing',
+    description: 'Searches the web for news, polls and data before pricing the market.',
+    builtIn: true,
+    gateway: { webSearch: true, estimatedCostUsd: 0.05 },
+  },
+  {
+    id: AnalysisMode.RULES_RISK,
+    label: 'Rules Risk',
+    icon: '📜',
+    loadingCopy: 'Reviewing the resolution rules',
+    description: 'Looks for ambiguity and edge cases in how the market resolves.',
+    builtIn: true,
+    gateway: {
+      webSearch: false,
+      estimatedCostUsd: 0.01,
+      promptTemplate:
+        'Review the resolution rules of "{{question}}" as a skeptical trader would.\n' +
+        'Rules:\n{{rules}}\n' +
+        'Identify ambiguous wording, edge cases, reliance on a single resolution source, and scenarios where the market could resolve differently from what the headline suggests. ' +
+        'Price the outcomes with that resolution risk included, and explain which traders are most exposed to it.',
+    },
+  },
+  {
+    id: AnalysisMode.CONTRARIAN,
+    label: "Devil's Advocate",
+    icon: '😈',
+    loadingCopy: 'Building the case against the crowd',
+    description: 'Argues the strongest case against the current favorite.',
+    builtIn: true,
+    gateway: {
+      webSearch: true,
+      estimatedCostUsd: 0.05,
+      promptTemplate:
+        'Act as a contrarian. The market currently prices:\n{{outcomes}}\n' +
+        'Build the strongest honest case against the favorite: what the consensus may be missing, overweighting or double-counting. ' +
+        'Then say whether that case is strong enough to move your fair probabilities, and by how much.',
+    },
+  },
+  {
+    id: AnalysisMode.BASE_RATE,
+    label: 'Base Rate',
+    icon: '📊',
+    loadingCopy: 'Estimating historical base rates',
+    description: 'Starts from how often comparable events happened before adjusting.',
+    builtIn: true,
+    gateway: {
+      webSearch: false,
+      estimatedCostUsd: 0.01,
+      promptTemplate:
+        'Estimate fair probabilities for "{{question}}" by reference class forecasting. ' +
+        'Name one or more reference classes of comparable past events, give their historical base rates, ' +
+        'and only then adjust for what is specific to this case. State each adjustment and its size.',
+    },
+  },
+  {
+    id: AnalysisMode.NEWS_CATALYST,
+    label: 'News Catalysts',
+    icon: '📰',
+    loadingCopy: 'Scanning for upcoming catalysts',
+    description: 'Finds scheduled events and recent news that could move the price before the market ends.',
+    builtIn: true,
+    gateway: {
+      webSearch: true,
+      estimatedCostUsd: 0.05,
+      promptTemplate:
+        'Search recent news and upcoming scheduled events (votes, releases, hearings, matches, data prints) relevant to "{{question}}" before it ends on {{endDate}}. ' +
+        'List the catalysts in date order with the direction and rough size of the move each could cause, and price the market accordingly.',
+    },
+  },
+];
+
+const listeners = new Set<() => void>();
+
+const storage = (): Storage | undefined => {
+  try {
+    return typeof localStorage === 'undefined' ? undefined : localStorage;
+  } catch {
+    return undefined;
+  }
+};
+
+const readCustomModes = (): AnalysisModeDefinition[] => {
+  const raw = storage()?.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.flatMap((entry) => {
+          try {
+            return [parseModeDefinition(entry)];
+          } catch {
+            return [];
+          }
+        })
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeCustomModes = (modes: AnalysisModeDefinition[]) => {
+  storage()?.setItem(STORAGE_KEY, JSON.stringify(modes));
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Every registered mode: built-ins first, then custom modes in the order they were created
+ */
+export const listModes = (): AnalysisModeDefinition[] => [...BUILT_IN_MODES, ...readCustomModes()];
+
+export const getMode = (id: AnalysisModeId): AnalysisModeDefinition | undefined => listModes().find((mode) => mode.id === id);
+
+/**
+ * Registered definition, or a plain stand-in for ids that are no longer registered
+ * (e.g. history saved under a custom mode that has since been deleted)
+ */
+export const modeFor = (id: AnalysisModeId): AnalysisModeDefinition =>
+  getMode(id) ?? {
+    id,
+    label: id,
+    icon: '•',
+    loadingCopy: 'Analyzing',
+    builtIn: false,
+    gateway: { webSearch: false, estimatedCostUsd: 0.01 },
+  };
+
+export const subscribeModes = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Id for a new custom mode, derived from its label and unique among registered modes
+ */
+export const customModeId = (label: string): string => {
+  const base = `CUSTOM_${label.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '') || 'MODE'}`;
+  const taken = new Set(listModes().map((mode) => mode.id));
+  let id = base;
+  for (let n = 2; taken.has(id); n += 1) id = `${base}_${n}`;
+  return id;
+};
+
+/**
+ * Validates a mode definition from storage, the settings form or a gateway request
+ */
+export const parseModeDefinition = (input: any): AnalysisModeDefinition => {
+  const id = typeof input?.id === 'string' ? input.id.trim() : '';
+  const label = typeof input?.label === 'string' ? input.label.trim() : '';
+  if (!id) throw new Error('Mode id is required');
+  if (!label) throw new Error('Mode label is required');
+
+  const gateway = input?.gateway ?? {};
+  const promptTemplate = typeof gateway.promptTemplate === 'string' ? gateway.promptTemplate.trim() : undefined;
+  if (promptTemplate && promptTemplate.length > MAX_TEMPLATE_LENGTH) {
+    throw new Error(`Prompt template must be at most ${MAX_TEMPLATE_LENGTH} characters`);
+  }
+  const temperature = gateway.temperature === undefined || gateway.temperature === '' ? undefined : Number(gateway.temperature);
+  if (temperature !== undefined && !(temperature >= 0 && temperature <= 2)) {
+    throw new Error('Temperature must be between 0 and 2');
+  }
+  const estimatedCostUsd = Number(gateway.estimatedCostUsd ?? 0.01);
+  if (!(estimatedCostUsd >= 0)) throw new Error('Estimated cost must be zero or more');
+
+  return {
+    id,
+    label,
+    icon: typeof input.icon === 'string' && input.icon.trim() ? input.icon.trim() : '✨',
+    loadingCopy: typeof input.loadingCopy === 'string' && input.loadingCopy.trim() ? input.loadingCopy.trim() : 'Analyzing',
+    description: typeof input.description === 'string' && input.description.trim() ? input.description.trim() : undefined,
+    builtIn: false,
+    gateway: {
+      webSearch: Boolean(gateway.webSearch),
+      promptTemplate: promptTemplate || undefined,
+      temperature,
+      estimatedCostUsd,
+    },
+  };
+};
+
+/**
+ * Creates or replaces a custom mode. Built-in ids cannot be overridden.
+ */
+export const saveCustomMode = (input: unknown): AnalysisModeDefinition => {
+  const mode = parseModeDefinition(input);
+  if (BUILT_IN_MODES.some((builtIn) => builtIn.id === mode.id)) {
+    throw new Error(`"${mode.id}" is a built-in mode`);
+  }
+  const modes = readCustomModes();
+  const idx = modes.findIndex((existing) => existing.id === mode.id);
+  writeCustomModes(idx === -1 ? [...modes, mode] : modes.map((existing, i) => (i === idx ? mode : existing)));
+  return mode;
+};
+
+export const deleteCustomMode = (id: AnalysisModeId) => {
+  writeCustomModes(readCustomModes().filter((mode) => mode.id !== id));
+};
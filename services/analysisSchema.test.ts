@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { isStaleSource, normalizeFollowUpReply, normalizePayload, sanitizeJsonText } from './analysisSchema';
+
+const base = { summary: 'Looks cheap', recommendation: 'buy', confidenceScore: 72.6, reasoning: ['Polls moved'] };
+
+describe('sanitizeJsonText', () => {
+  it('strips code fences and surrounding prose', () => {
+    expect(sanitizeJsonText('```json\n{"a": 1}\n```')).toBe('{"a": 1}');
+    expect(sanitizeJsonText('Here you go: {"a": {"b": 2}} hope it helps')).toBe('{"a": {"b": 2}}');
+  });
+
+  it('rejects an empty response', () => {
+    expect(() => sanitizeJsonText('   ')).toThrow('Empty analysis response');
+  });
+});
+
+describe('normalizePayload', () => {
+  it('normalizes the recommendation and clamps confidence', () => {
+    expect(normalizePayload(base)).toMatchObject({ recommendation: 'BUY', confidenceScore: 73 });
+    expect(normalizePayload({ ...base, recommendation: 'STRONG BUY', confidenceScore: 140 })).toMatchObject({
+      recommendation: 'HOLD',
+      confidenceScore: 100,
+    });
+    expect(normalizePayload({ ...base, confidenceScore: 'high' }).confidenceScore).toBe(0);
+  });
+
+  it('names missing required fields', () => {
+    expect(() => normalizePayload({ summary: 'x', reasoning: [] })).toThrow(
+      'Analysis response missing required fields: recommendation, confidenceScore'
+    );
+  });
+
+  it('turns 1-based citation markers into 0-based source indices', () => {
+    const result = normalizePayload({
+      ...base,
+      sources: [
+        { title: 'Poll', url: 'https://www.example.com/poll', published: '2025-10-01' },
+        { title: 'News', url: 'https://news.example.org/a' },
+        { title: 'No URL' },
+      ],
+      reasoning: ['Polls moved [1, 2].', { text: 'Turnout is up', sources: [2, 9] }, 'Uncited'],
+    });
+    expect(result.reasoning).toEqual(['Polls moved.', 'Turnout is up', 'Uncited']);
+    expect(result.citations).toEqual([[0, 1], [1], []]);
+    expect(result.sources?.[0]).toMatchObject({ domain: 'example.com', publishedAt: '2025-10-01T00:00:00.000Z' });
+    expect(result.sources).toHaveLength(2);
+  });
+
+  it('passes already normalized citations through', () => {
+    const once = normalizePayload({ ...base, sources: [{ title: 'Poll', url: 'https://example.com' }], reasoning: ['A [1]'] });
+    expect(normalizePayload(once).citations).toEqual([[0]]);
+  });
+
+  it('accepts fair probabilities as a list or a map, in fractions or percentages', () => {
+    expect(normalizePayload({ ...base, fairProbabilities: [{ outcome: 'Yes', probability: 62 }] }).fairProbabilities).toEqual([
+      { outcome: 'Yes', probability: 0.62 },
+    ]);
+    expect(normalizePayload({ ...base, fairProbabilities: { Yes: 0.4, No: '60', Maybe: 'n/a' } }).fairProbabilities).toEqual([
+      { outcome: 'Yes', probability: 0.4 },
+      { outcome: 'No', probability: 0.6 },
+    ]);
+  });
+
+  it('keeps only complete trade ideas', () => {
+    const { tradeIdeas } = normalizePayload({
+      ...base,
+      tradeIdeas: [
+        { outcome: 'No', side: 'buy', limitPrice: 35, target: 0.5, exit: 'Lead flips' },
+        { outcome: 'Yes', side: 'HODL', limitPrice: 0.4 },
+        { side: 'SELL', limitPrice: 0.4 },
+      ],
+    });
+    expect(tradeIdeas).toEqual([
+      { outcome: 'No', side: 'BUY', limitPrice: 0.35, targetPrice: 0.5, exitCondition: 'Lead flips', rationale: undefined },
+    ]);
+  });
+});
+
+describe('isStaleSource', () => {
+  it('flags sources published over 30 days before the analysis', () => {
+    const analyzedAt = Date.parse('2025-11-15T00:00:00Z');
+    expect(isStaleSource({ title: 'Old', url: 'u', publishedAt: '2025-10-01T00:00:00Z' }, analyzedAt)).toBe(true);
+    expect(isStaleSource({ title: 'New', url: 'u', publishedAt: '2025-11-01T00:00:00Z' }, analyzedAt)).toBe(false);
+    expect(isStaleSource({ title: 'Undated', url: 'u' }, analyzedAt)).toBe(false);
+  });
+});
+
+describe('normalizeFollowUpReply', () => {
+  it('accepts reply, answer or text', () => {
+    expect(normalizeFollowUpReply({ answer: ' Yes. ' })).toEqual({ reply: 'Yes.', sources: undefined });
+    expect(() => normalizeFollowUpReply({ reply: '' })).toThrow('missing required field: reply');
+  });
+});
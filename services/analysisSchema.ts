@@ -0,0 +1,237 @@
+import { AnalysisResult, AnalysisSource, FairProbability, FollowUpReply, TradeIdea } from "../types";
+
+/**
+ * Shared AnalysisResult and follow-up reply contracts.
+ *
+ * Used by the browser client (geminiService) and the local gateway server,
+ * so it must stay free of Vite-only globals like import.meta.env.
+ */
+
+const REQUIRED_FIELDS: Array<keyof AnalysisResult> = [
+  "summary",
+  "recommendation",
+  "confidenceScore",
+  "reasoning",
+];
+
+export const VALID_RECOMMENDATIONS: AnalysisResult["recommendation"][] = [
+  "BUY",
+  "SELL",
+  "HOLD",
+  "AVOID",
+];
+
+export const sanitizeJsonText = (rawText: string): string => {
+  const trimmed = rawText.trim();
+  if (!trimmed) {
+    throw new Error("Empty analysis response");
+  }
+
+  if (trimmed.startsWith("```")) {
+    return trimmed.replace(/^```[a-zA-Z]*\s*/u, "").replace(/```$/u, "").trim();
+  }
+
+  // Try to extract the first JSON object from an unstructured response
+  const firstBrace = trimmed.indexOf("{");
+  const lastBrace = trimmed.lastIndexOf("}");
+  if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
+    return trimmed.slice(firstBrace, lastBrace + 1);
+  }
+
+  return trimmed;
+};
+
+/**
+ * Sources older than this at analysis time are flagged as stale
+ */
+export const STALE_SOURCE_DAYS = 30;
+
+const DAY_MS = 86_400_000;
+
+/**
+ * True when the source was published more than STALE_SOURCE_DAYS before `analyzedAt`
+ */
+export const isStaleSource = (source: AnalysisSource, analyzedAt: number): boolean => {
+  const published = source.publishedAt ? Date.parse(source.publishedAt) : NaN;
+  return Number.isFinite(published) && analyzedAt - published > STALE_SOURCE_DAYS * DAY_MS;
+};
+
+export const domainOf = (url: string): string | undefined => {
+  try {
+    return new URL(url).hostname.replace(/^www\./u, "");
+  } catch {
+    return undefined;
+  }
+};
+
+const optionalText = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const toIsoDate = (value: unknown): string | undefined => {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const time = typeof value === "number" ? value : Date.parse(value);
+  return Number.isFinite(time) ? new Date(time).toISOString() : undefined;
+};
+
+const coerceSources = (input: unknown): AnalysisSource[] | undefined => {
+  if (!Array.isArray(input)) return undefined;
+  return input
+    .filter((s) => s && s.title && s.url)
+    .map((s) => ({
+      title: String(s.title),
+      url: String(s.url),
+      domain: optionalText(s.domain) ?? domainOf(String(s.url)),
+      publishedAt: toIsoDate(s.publishedAt ?? s.published ?? s.date),
+      snippet: optionalText(s.snippet),
+    }));
+};
+
+// Inline markers such as "[2]" or "[1, 3]"
+const CITATION_MARKER = /\s*\[(\d+(?:\s*,\s*\d+)*)\]/gu;
+
+/**
+ * Reasoning points and the sources each cites.
+ *
+ * Points may be strings with inline "[n]" markers or `{ text, sources: [n] }`
+ * objects; either way n is 1-based, as the prompt asks. A `citations` array
+ * already in normalized (0-based) form takes precedence, so normalized results
+ * pass through unchanged. Indices outside `sourceCount` are dropped.
+ */
+const coerceReasoning = (
+  input: unknown,
+  citationsInput: unknown,
+  sourceCount: number
+): { reasoning: string[]; citations?: number[][] } => {
+  const items: unknown[] = Array.isArray(input) ? input : typeof input === "string" && input.length > 0 ? [input] : [];
+  if (items.length === 0) {
+    return { reasoning: ["No reasoning returned by analysis service."] };
+  }
+
+  const inRange = (indices: number[]) =>
+    Array.from(new Set(indices.filter((i) => Number.isInteger(i) && i >= 0 && i < sourceCount)));
+
+  const points = items.map((item: any) => {
+    const raw = item && typeof item === "object" ? String(item.text ?? item.point ?? "") : String(item);
+    const cited: number[] = item && typeof item === "object" && Array.isArray(item.sources ?? item.citations)
+      ? (item.sources ?? item.citations).map((n: unknown) => Number(n) - 1)
+      : [];
+    const text = raw.replace(CITATION_MARKER, (_, list: string) => {
+      cited.push(...list.split(",").map((n) => Number(n) - 1));
+      return "";
+    });
+    return { text: text.trim(), cited };
+  });
+
+  const citations = Array.isArray(citationsInput)
+    ? points.map((_, idx) => inRange(Array.isArray(citationsInput[idx]) ? citationsInput[idx].map(Number) : []))
+    : points.map((point) => inRange(point.cited));
+
+  return {
+    reasoning: points.map((point) => point.text),
+    citations: citations.some((indices) => indices.length > 0) ? citations : undefined,
+  };
+};
+
+const toProbability = (value: unknown): number | undefined => {
+  const num = Number(value);
+  if (!Number.isFinite(num) || num < 0) return undefined;
+  // Accept percentages (e.g. 62 or "62") as well as fractions
+  const normalized = num > 1 ? num / 100 : num;
+  return normalized <= 1 ? normalized : undefined;
+};
+
+/**
+ * Accepts either `[{ outcome, probability }]` or an `{ [outcome]: probability }` map
+ */
+const coerceFairProbabilities = (input: unknown): FairProbability[] | undefined => {
+  const entries: Array<[unknown, unknown]> = Array.isArray(input)
+    ? input.map((item) => [item?.outcome ?? item?.name, item?.probability ?? item?.fair])
+    : input && typeof input === "object"
+      ? Object.entries(input)
+      : [];
+
+  const parsed = entries
+    .map(([outcome, probability]) => ({
+      outcome: outcome === undefined || outcome === null ? "" : String(outcome).trim(),
+      probability: toProbability(probability),
+    }))
+    .filter((entry): entry is FairProbability => entry.outcome.length > 0 && entry.probability !== undefined);
+
+  return parsed.length > 0 ? parsed : undefined;
+};
+
+export const VALID_SIDES: TradeIdea["side"][] = ["BUY", "SELL"];
+
+/**
+ * Keeps ideas that name an outcome, a BUY/SELL side and a usable limit price.
+ * Prices are accepted as fractions or percentages (cents), like probabilities.
+ */
+const coerceTradeIdeas = (input: unknown): TradeIdea[] | undefined => {
+  if (!Array.isArray(input)) return undefined;
+
+  const parsed = input
+    .map((item): TradeIdea | undefined => {
+      const outcome = optionalText(item?.outcome);
+      const side = String(item?.side ?? "").toUpperCase() as TradeIdea["side"];
+      const limitPrice = toProbability(item?.limitPrice ?? item?.maxEntryPrice ?? item?.entry);
+      if (!outcome || !VALID_SIDES.includes(side) || limitPrice === undefined) return undefined;
+      return {
+        outcome,
+        side,
+        limitPrice,
+        targetPrice: toProbability(item?.targetPrice ?? item?.target),
+        exitCondition: optionalText(item?.exitCondition ?? item?.exit),
+        rationale: optionalText(item?.rationale),
+      };
+    })
+    .filter((idea): idea is TradeIdea => idea !== undefined);
+
+  return parsed.length > 0 ? parsed : undefined;
+};
+
+export const normalizePayload = (payload: any): AnalysisResult => {
+  const missing = REQUIRED_FIELDS.filter(
+    (field) => payload?.[field] === undefined || payload?.[field] === null
+  );
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Analysis response missing required fields: ${missing.join(", ")}`
+    );
+  }
+
+  const confidenceScore = Number(payload.confidenceScore);
+  const normalizedRecommendation = String(payload.recommendation || "").toUpperCase();
+  const recommendation = VALID_RECOMMENDATIONS.includes(
+    normalizedRecommendation as AnalysisResult["recommendation"]
+  )
+    ? (normalizedRecommendation as AnalysisResult["recommendation"])
+    : "HOLD";
+
+  const sources = coerceSources(payload.sources);
+  const { reasoning, citations } = coerceReasoning(payload.reasoning, payload.citations, sources?.length ?? 0);
+
+  return {
+    summary: String(payload.summary),
+    recommendation,
+    confidenceScore: Number.isFinite(confidenceScore)
+      ? Math.max(0, Math.min(100, Math.round(confidenceScore)))
+      : 0,
+    reasoning,
+    sources,
+    citations,
+    fairProbabilities: coerceFairProbabilities(payload.fairProbabilities),
+    tradeIdeas: coerceTradeIdeas(payload.tradeIdeas),
+  };
+};
+
+/**
+ * Validates a follow-up answer. Accepts `reply`, `answer` or `text` for the message.
+ */
+export const normalizeFollowUpReply = (payload: any): FollowUpReply => {
+  const reply = optionalText(payload?.reply ?? payload?.answer ?? payload?.text);
+  if (!reply) {
+    throw new Error("Follow-up response missing required field: reply");
+  }
+  return { reply, sources: coerceSources(payload.sources) };
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { EventData, MarketData, OrderBook } from '../types';
+import { detectMispricing } from './arbitrage';
+
+const market = (id: string, yes: number, no = 1 - yes, overrides: Partial<MarketData> = {}): MarketData => ({
+  id,
+  question: `Will ${id} win?`,
+  groupItemTitle: id,
+  outcomes: [
+    { name: 'Yes', probability: yes, price: yes, tokenId: `${id}-yes` },
+    { name: 'No', probability: no, price: no, tokenId: `${id}-no` },
+  ],
+  url: `https://polymarket.com/event/race?tid=${id}`,
+  volume: '$0',
+  volumeNum: 0,
+  liquidity: '$0',
+  active: true,
+  provenance: 'live',
+  status: 'open',
+  ...overrides,
+});
+
+const event = (markets: MarketData[], negRisk = true): EventData => ({
+  id: 'race',
+  slug: 'race',
+  title: 'Who wins the race?',
+  url: 'https://polymarket.com/event/race',
+  volume: '$0',
+  volumeNum: 0,
+  liquidity: '$0',
+  active: true,
+  negRisk,
+  markets,
+  defaultMarketId: markets[0].id,
+  provenance: 'live',
+});
+
+const book = (tokenId: string, bid: number, ask: number, size = 100): [string, OrderBook] => [
+  tokenId,
+  { outcome: tokenId, tokenId, bids: [{ price: bid, size }], asks: [{ price: ask, size }], bestBid: bid, bestAsk: ask, timestamp: 0 },
+];
+
+describe('detectMispricing', () => {
+  it('flags an overround and prices the NO basket', () => {
+    const [finding] = detectMispricing(event([market('a', 0.5), market('b', 0.4), market('c', 0.2)]), 0.02);
+    expect(finding.kind).toBe('overround');
+    expect(finding.priceSum).toBeCloseTo(1.1);
+    expect(finding.indicative.legs.map((leg) => leg.outcome)).toEqual(['No', 'No', 'No']);
+    expect(finding.indicative.proceeds).toBe(2);
+    expect(finding.indicative.profit).toBeCloseTo(0.1);
+  });
+
+  it('prices an underround at the book asks', () => {
+    const markets = [market('a', 0.4), market('b', 0.4)];
+    const books = new Map([
+      book('a-yes', 0.39, 0.42, 50),
+      book('a-no', 0.58, 0.61),
+      book('b-yes', 0.39, 0.41, 80),
+      book('b-no', 0.58, 0.61),
+    ]);
+    const finding = detectMispricing(event(markets), 0.02, books).find((f) => f.kind === 'underround');
+    expect(finding?.executable?.cost).toBeCloseTo(0.83);
+    expect(finding?.executable?.profit).toBeCloseTo(0.17);
+    expect(finding?.executable?.maxSets).toBe(50);
+  });
+
+  it('skips the basket when a market that can still win is not tradable', () => {
+    const closed = market('c', 0.3, 0.7, { status: 'closed' });
+    const inactive = market('c', 0.3, 0.7, { active: false });
+    for (const excluded of [closed, inactive]) {
+      const findings = detectMispricing(event([market('a', 0.3), market('b', 0.3), excluded]), 0.02);
+      expect(findings.map((f) => f.kind)).not.toContain('underround');
+    }
+  });
+
+  it('keeps the basket when the left-out market resolved No', () => {
+    const resolvedNo = market('c', 0, 1, { status: 'resolved', winningOutcome: 'No' });
+    const findings = detectMispricing(event([market('a', 0.3), market('b', 0.3), resolvedNo]), 0.02);
+    expect(findings.map((f) => f.kind)).toContain('underround');
+  });
+
+  it('checks no basket once a market has resolved Yes, or outside neg-risk events', () => {
+    const resolvedYes = market('c', 1, 0, { status: 'resolved', winningOutcome: 'Yes' });
+    expect(detectMispricing(event([market('a', 0.3), market('b', 0.3), resolvedYes]), 0.02)).toEqual([]);
+    expect(detectMispricing(event([market('a', 0.3), market('b', 0.3)], false), 0.02)).toEqual([]);
+  });
+
+  it('flags YES and NO prices that do not add up', () => {
+    const [finding] = detectMispricing(event([market('a', 0.55, 0.5)], false), 0.02);
+    expect(finding).toMatchObject({ kind: 'complement', id: 'a:complement', market: undefined });
+    expect(finding.deviation).toBeCloseTo(0.05);
+    expect(finding.indicative.legs.every((leg) => leg.side === 'SELL')).toBe(true);
+  });
+});
@@ -0,0 +1,268 @@
+import { EventData, MarketData, OrderBook, Outcome } from '../types';
+import { AbortedError } from './errors';
+import { getEventData, getOrderBook } from './polymarketService';
+
+/**
+ * - overround: YES prices of a mutually exclusive event add up to more than 100%
+ * - underround: they add up to less than 100%
+ * - complement: a market's YES and NO prices do not add up to 100%
+ */
+export type MispricingKind = 'overround' | 'underround' | 'complement';
+
+export interface ArbitrageLeg {
+  marketId: string;
+  market: string; // Sub-market title, or the market question
+  outcome: string;
+  side: 'BUY' | 'SELL';
+  price: number;
+  size?: number; // Shares quoted at this price; undefined for displayed (non-book) prices
+}
+
+/**
+ * One set of trades that pays the same whatever the outcome
+ */
+export interface ArbitrageTrade {
+  legs: ArbitrageLeg[];
+  cost: number; // Outlay per set
+  proceeds: number; // Paid back per set, at resolution or from the sales
+  profit: number; // proceeds - cost; zero or negative when the spread eats the edge
+  returnPct: number; // profit / cost
+  maxSets?: number; // Sets fillable at the quoted prices, limited by the thinnest leg
+  note?: string;
+}
+
+export interface MispricingFinding {
+  id: string;
+  kind: MispricingKind;
+  eventId: string;
+  eventTitle: string;
+  url: string; // Opens the event, or the sub-market for complement findings
+  market?: string; // Sub-market, for complement findings
+  priceSum: number; // Sum of the displayed prices checked
+  deviation: number; // priceSum - 1
+  indicative: ArbitrageTrade; // At displayed prices, ignoring the spread
+  executable?: ArbitrageTrade; // At best bid/ask; undefined when books were not checked or a leg has no quote
+}
+
+export interface ArbitrageScanOptions {
+  minDeviation: number; // Smallest |priceSum - 1| worth flagging, e.g. 0.02
+  checkBooks: boolean;
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number, findings: MispricingFinding[]) => void;
+}
+
+export interface ArbitrageScanResult {
+  findings: MispricingFinding[];
+  scanned: number;
+  failed: Array<{ input: string; error: unknown }>;
+}
+
+type BookMap = Map<string, OrderBook>; // By token id
+
+const DEFAULT_CONCURRENCY = 4;
+
+const marketLabel = (market: MarketData) => market.groupItemTitle || market.question;
+
+// Inactive placeholders in neg-risk events are listed but cannot be traded
+const isTradable = (market: MarketData) => market.status === 'open' && market.active;
+
+/**
+ * YES and NO sides of a two-outcome market. Markets that are not Yes/No use
+ * their first outcome as YES.
+ */
+const sides = (market: MarketData): { yes: Outcome; no: Outcome } | undefined => {
+  if (market.outcomes.length !== 2) return undefined;
+  const yes = market.outcomes.find((o) => o.name.toLowerCase() === 'yes') ?? market.outcomes[0];
+  const no = market.outcomes.find((o) => o !== yes)!;
+  return { yes, no };
+};
+
+const quote = (books: BookMap | undefined, outcome: Outcome, side: 'BUY' | 'SELL') => {
+  const book = outcome.tokenId ? books?.get(outcome.tokenId) : undefined;
+  const level = side === 'BUY' ? book?.asks[0] : book?.bids[0];
+  return level && { price: level.price, size: level.size };
+};
+
+const trade = (legs: ArbitrageLeg[], cost: number, proceeds: number, note?: string): ArbitrageTrade => {
+  const sizes = legs.map((leg) => leg.size).filter((size): size is number => size !== undefined);
+  return {
+    legs,
+    cost,
+    proceeds,
+    profit: proceeds - cost,
+    returnPct: cost > 0 ? (proceeds - cost) / cost : 0,
+    maxSets: sizes.length === legs.length && sizes.length > 0 ? Math.min(...sizes) : undefined,
+    note,
+  };
+};
+
+const bestOf = (trades: Array<ArbitrageTrade | undefined>) =>
+  trades.reduce<ArbitrageTrade | undefined>((best, t) => (t && (!best || t.profit > best.profit) ? t : best), undefined);
+
+/**
+ * Buys one outcome per market, at book asks when `books` is given or at
+ * displayed prices otherwise. Undefined if any leg has no ask.
+ */
+const buyEach = (
+  legs: Array<{ market: MarketData; outcome: Outcome }>,
+  proceeds: number,
+  books?: BookMap,
+  note?: string
+): ArbitrageTrade | undefined => {
+  const priced: ArbitrageLeg[] = [];
+  for (const { market, outcome } of legs) {
+    const ask = books ? quote(books, outcome, 'BUY') : { price: outcome.price, size: undefined };
+    if (!ask) return undefined;
+    priced.push({ marketId: market.id, market: marketLabel(market), outcome: outcome.name, side: 'BUY', ...ask });
+  }
+  return trade(priced, priced.reduce((sum, leg) => sum + leg.price, 0), proceeds, note);
+};
+
+/**
+ * Splits $1 into a YES+NO pair and sells both sides
+ */
+const mintAndSell = (market: MarketData, yes: Outcome, no: Outcome, books?: BookMap): ArbitrageTrade | undefined => {
+  const bids = [yes, no].map((outcome) => (books ? quote(books, outcome, 'SELL') : { price: outcome.price, size: undefined }));
+  if (bids.some((bid) => !bid)) return undefined;
+  const legs = [yes, no].map((outcome, i) => ({
+    marketId: market.id,
+    market: marketLabel(market),
+    outcome: outcome.name,
+    side: 'SELL' as const,
+    ...bids[i]!,
+  }));
+  return trade(legs, 1, legs.reduce((sum, leg) => sum + leg.price, 0), 'Split $1 of collateral into a YES+NO pair, then sell both');
+};
+
+/**
+ * Mispricings within one event. Overround and underround are only checked for
+ * mutually exclusive (neg-risk) events, where exactly one child market pays YES,
+ * and only when every market that can still win is tradable: a basket missing
+ * one has no guaranteed payout. Pass `books` to price the trades at the top of the book.
+ */
+export const detectMispricing = (event: EventData, minDeviation: number, books?: BookMap): MispricingFinding[] => {
+  const findings: MispricingFinding[] = [];
+  const open = event.markets.filter(isTradable);
+  const settledYes = event.markets.some(
+    (market) => market.status === 'resolved' && market.winningOutcome?.toLowerCase() === 'yes'
+  );
+  // Closed-but-unresolved and inactive markets can still win without being in the basket
+  const untradableContender = event.markets.some((market) => market.status !== 'resolved' && !isTradable(market));
+
+  const legs = open.map((market) => ({ market, sides: sides(market) }));
+  if (event.negRisk && !settledYes && !untradableContender && legs.length > 1 && legs.every((leg) => leg.sides)) {
+    const yesLegs = legs.map(({ market, sides: s }) => ({ market, outcome: s!.yes }));
+    const noLegs = legs.map(({ market, sides: s }) => ({ market, outcome: s!.no }));
+    const priceSum = yesLegs.reduce((sum, leg) => sum + leg.outcome.price, 0);
+    const deviation = priceSum - 1;
+
+    // Every YES pays $1 in total; every NO pays n - 1
+    const buyYes = (b?: BookMap) => buyEach(yesLegs, 1, b, 'Buy YES in every market; exactly one pays $1');
+    const buyNo = (b?: BookMap) => buyEach(noLegs, noLegs.length - 1, b, 'Buy NO in every market; all but one pay $1');
+    const executable = books && bestOf([buyYes(books), buyNo(books)]);
+
+    if (Math.abs(deviation) >= minDeviation || (executable && executable.profit > 0)) {
+      const kind: MispricingKind = deviation > 0 ? 'overround' : 'underround';
+      findings.push({
+        id: `${event.id}:${kind}`,
+        kind,
+        eventId: event.id,
+        eventTitle: event.title,
+        url: event.url,
+        priceSum,
+        deviation,
+        indicative: (deviation > 0 ? buyNo() : buyYes())!,
+        executable,
+      });
+    }
+  }
+
+  legs.forEach(({ market, sides: s }) => {
+    if (!s) return;
+    const priceSum = s.yes.price + s.no.price;
+    const deviation = priceSum - 1;
+    const buyBoth = (b?: BookMap) =>
+      buyEach([{ market, outcome: s.yes }, { market, outcome: s.no }], 1, b, 'Buy both sides; one pays $1');
+    const executable = books && bestOf([buyBoth(books), mintAndSell(market, s.yes, s.no, books)]);
+
+    if (Math.abs(deviation) >= minDeviation || (executable && executable.profit > 0)) {
+      findings.push({
+        id: `${market.id}:complement`,
+        kind: 'complement',
+        eventId: event.id,
+        eventTitle: event.title,
+        url: event.markets.length > 1 ? `${event.url}?tid=${market.id}` : event.url,
+        market: event.markets.length > 1 ? marketLabel(market) : undefined,
+        priceSum,
+        deviation,
+        indicative: (deviation > 0 ? mintAndSell(market, s.yes, s.no) : buyBoth())!,
+        executable,
+      });
+    }
+  });
+
+  return findings;
+};
+
+/**
+ * Order books for every outcome of the event's open markets. Outcomes whose
+ * book fails to load are left out, so trades needing them have no executable price.
+ */
+const fetchEventBooks = async (event: EventData, signal?: AbortSignal): Promise<BookMap> => {
+  const outcomes = event.markets
+    .filter(isTradable)
+    .flatMap((market) => market.outcomes.filter((outcome) => outcome.tokenId));
+  const books: BookMap = new Map();
+  await Promise.all(
+    outcomes.map(async (outcome) => {
+      try {
+        books.set(outcome.tokenId!, await getOrderBook(outcome, signal));
+      } catch (e) {
+        if (e instanceof AbortedError) throw e;
+        console.warn(`No order book for ${outcome.name}`, e);
+      }
+    })
+  );
+  return books;
+};
+
+/**
+ * Ranks findings: executable profit first, then the size of the displayed mispricing
+ */
+const rank = (a: MispricingFinding, b: MispricingFinding) =>
+  (b.executable?.profit ?? -Infinity) - (a.executable?.profit ?? -Infinity) ||
+  Math.abs(b.deviation) - Math.abs(a.deviation);
+
+/**
+ * Loads each event with all of its child markets and checks it for mispricing.
+ * Events that fail to load are reported and skipped.
+ */
+export const scanForArbitrage = async (inputs: string[], options: ArbitrageScanOptions): Promise<ArbitrageScanResult> => {
+  const { minDeviation, checkBooks, signal, onProgress } = options;
+  const findings: MispricingFinding[] = [];
+  const failed: ArbitrageScanResult['failed'] = [];
+  let done = 0;
+  let next = 0;
+
+  const worker = async () => {
+    while (next < inputs.length) {
+      const input = inputs[next++];
+      try {
+        const event = await getEventData(input, signal);
+        const books = checkBooks ? await fetchEventBooks(event, signal) : undefined;
+        findings.push(...detectMispricing(event, minDeviation, books));
+        findings.sort(rank);
+      } catch (e) {
+        if (e instanceof AbortedError) throw e;
+        failed.push({ input, error: e });
+      }
+      done += 1;
+      onProgress?.(done, inputs.length, findings.slice());
+    }
+  };
+
+  const workers = Math.max(1, Math.min(options.concurrency ?? DEFAULT_CONCURRENCY, inputs.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return { findings, scanned: done, failed };
+};
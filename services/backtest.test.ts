@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AnalysisMode, AnalysisResult, MarketData } from '../types';
+import { AnalysisRecord } from './analysisHistory';
+import { backtestTrade, BacktestSample, scoreSamples, targetOutcome } from './backtest';
+
+// Only the pure scoring is tested; keep IndexedDB and the network out of it
+vi.mock('./analysisHistory', () => ({ listAllAnalyses: vi.fn() }));
+vi.mock('./polymarketService', () => ({ getMarketSettlement: vi.fn() }));
+
+const market = (yes: number, outcomes = ['Yes', 'No']): MarketData => ({
+  id: 'm1',
+  question: 'Will it happen?',
+  outcomes: outcomes.map((name, idx) => {
+    const price = outcomes.length === 2 ? (idx === 0 ? yes : 1 - yes) : 1 / outcomes.length;
+    return { name, probability: price, price };
+  }),
+  url: 'https://polymarket.com/event/it',
+  volume: '$0',
+  volumeNum: 0,
+  liquidity: '$0',
+  active: true,
+  provenance: 'live',
+  status: 'open',
+});
+
+const result = (overrides: Partial<AnalysisResult>): AnalysisResult => ({
+  summary: '',
+  recommendation: 'HOLD',
+  confidenceScore: 50,
+  reasoning: [],
+  ...overrides,
+});
+
+const sample = (data: MarketData, analysis: AnalysisResult, winningOutcome: string): BacktestSample => {
+  const record: AnalysisRecord = { id: 'r', marketId: data.id, mode: AnalysisMode.QUICK, timestamp: 0, market: data, result: analysis };
+  return { record, winningOutcome };
+};
+
+describe('backtestTrade', () => {
+  it('follows the first trade idea that names a market outcome', () => {
+    const analysis = result({
+      recommendation: 'BUY',
+      tradeIdeas: [
+        { outcome: 'Maybe', side: 'BUY', limitPrice: 0.2 },
+        { outcome: 'no', side: 'BUY', limitPrice: 0.6 },
+      ],
+    });
+    expect(backtestTrade(market(0.4), analysis)).toEqual({ outcome: 'no', side: 'BUY' });
+  });
+
+  it('falls back to the headline call on the target outcome', () => {
+    expect(backtestTrade(market(0.4), result({ recommendation: 'SELL' }))).toEqual({ outcome: 'Yes', side: 'SELL' });
+    expect(backtestTrade(market(0.4), result({ recommendation: 'HOLD' }))).toBeUndefined();
+  });
+});
+
+describe('targetOutcome', () => {
+  it('picks the outcome with the most edge when there is no Yes', () => {
+    const race = market(0, ['A', 'B', 'C']);
+    const analysis = result({ fairProbabilities: [{ outcome: 'B', probability: 0.5 }] });
+    expect(targetOutcome(race, analysis)).toBe('B');
+  });
+});
+
+describe('scoreSamples', () => {
+  it('pays out BUY and SELL trades at the analysis-time price', () => {
+    const metrics = scoreSamples([
+      sample(market(0.25), result({ recommendation: 'BUY', confidenceScore: 70 }), 'Yes'),
+      sample(market(0.8), result({ recommendation: 'SELL', confidenceScore: 30 }), 'Yes'),
+    ]);
+    expect(metrics.byRecommendation.BUY).toMatchObject({ count: 1, hits: 1, hitRate: 1, staked: 1 });
+    expect(metrics.byRecommendation.BUY.pnl).toBeCloseTo(3);
+    expect(metrics.byRecommendation.SELL).toMatchObject({ count: 1, hits: 0, hitRate: 0, pnl: -1 });
+    expect(metrics.pnl).toBeCloseTo(2);
+    expect(metrics.roi).toBeCloseTo(1);
+    expect(metrics.calibration.map((b) => [b.lower, b.count, b.hitRate])).toEqual([
+      [20, 1, 0],
+      [60, 1, 1],
+    ]);
+  });
+
+  it('files a call under the side of the trade that was simulated', () => {
+    const analysis = result({ recommendation: 'BUY', tradeIdeas: [{ outcome: 'Yes', side: 'SELL', limitPrice: 0.3 }] });
+    const metrics = scoreSamples([sample(market(0.7), analysis, 'No')]);
+    expect(metrics.byRecommendation.BUY.count).toBe(0);
+    expect(metrics.byRecommendation.SELL).toMatchObject({ count: 1, hits: 1, staked: 1 });
+    expect(metrics.byRecommendation.SELL.pnl).toBeCloseTo(1 / 0.3 - 1);
+  });
+
+  it('counts HOLD and AVOID without trading them', () => {
+    const metrics = scoreSamples([
+      sample(market(0.5), result({ recommendation: 'HOLD' }), 'Yes'),
+      sample(market(0.5), result({ recommendation: 'AVOID', tradeIdeas: [{ outcome: 'Yes', side: 'BUY', limitPrice: 0.5 }] }), 'Yes'),
+    ]);
+    expect(metrics.byRecommendation.HOLD.count).toBe(1);
+    expect(metrics.byRecommendation.AVOID.count).toBe(1);
+    expect(metrics.staked).toBe(0);
+    expect(metrics.roi).toBeUndefined();
+  });
+
+  it('scores fair probabilities against the market price over the same outcomes', () => {
+    const analysis = result({ fairProbabilities: [{ outcome: 'Yes', probability: 0.9 }] });
+    const metrics = scoreSamples([sample(market(0.6), analysis, 'Yes')]);
+    expect(metrics.scored).toBe(1);
+    expect(metrics.brier).toBeCloseTo(0.01);
+    expect(metrics.marketBrier).toBeCloseTo(0.16);
+    expect(metrics.logLoss).toBeCloseTo(-Math.log(0.9));
+  });
+});
@@ -0,0 +1,262 @@
+import { AnalysisModeId, AnalysisResult, MarketData } from '../types';
+import { AbortedError } from './errors';
+import { AnalysisRecord, listAllAnalyses } from './analysisHistory';
+import { getMarketSettlement, MarketSettlement } from './polymarketService';
+
+type Recommendation = AnalysisResult['recommendation'];
+
+const RECOMMENDATIONS: Recommendation[] = ['BUY', 'SELL', 'HOLD', 'AVOID'];
+const CONFIDENCE_BUCKET = 20; // Calibration buckets are 20 confidence points wide
+const LOG_LOSS_EPSILON = 0.001; // Keeps log loss finite for 0% / 100% forecasts
+const SETTLEMENT_CONCURRENCY = 4;
+
+/**
+ * One stored analysis paired with how its market resolved
+ */
+export interface BacktestSample {
+  record: AnalysisRecord;
+  winningOutcome: string;
+}
+
+export interface RecommendationStats {
+  count: number;
+  hits: number;
+  hitRate?: number; // Undefined for HOLD/AVOID, which make no directional call
+  staked: number; // $1 per BUY/SELL call
+  pnl: number;
+}
+
+export interface CalibrationBucket {
+  lower: number; // Confidence range, inclusive lower bound
+  upper: number;
+  count: number;
+  meanConfidence: number; // 0 to 1
+  hitRate: number;
+}
+
+export interface BacktestMetrics {
+  samples: number;
+  scored: number; // Samples with fair probabilities, used for Brier and log loss
+  brier?: number; // Mean squared error of the model's outcome probabilities
+  logLoss?: number;
+  marketBrier?: number; // Same scores for the market price at analysis time, as a baseline
+  marketLogLoss?: number;
+  byRecommendation: Record<Recommendation, RecommendationStats>; // BUY/SELL by the side of the simulated trade
+  staked: number;
+  pnl: number;
+  roi?: number;
+  calibration: CalibrationBucket[];
+}
+
+export interface BacktestReport {
+  overall: BacktestMetrics;
+  byMode: Record<AnalysisModeId, BacktestMetrics>; // Only modes with at least one resolved analysis
+  resolved: number; // Analyses whose market has settled with a known winner
+  pending: number; // Analyses whose market is unsettled, or settled without a single winner
+  failed: number; // Markets whose settlement could not be fetched
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined);
+
+/**
+ * The outcome a BUY/SELL call refers to when the analysis has no trade ideas: YES when
+ * the market has one, otherwise the outcome the model saw the most edge in, otherwise the favorite
+ */
+export const targetOutcome = (market: MarketData, result: AnalysisResult): string => {
+  const yes = market.outcomes.find((outcome) => normalizeName(outcome.name) === 'yes');
+  if (yes) return yes.name;
+
+  const fairFor = (name: string) =>
+    result.fairProbabilities?.find((fp) => normalizeName(fp.outcome) === normalizeName(name))?.probability;
+  const bestEdge = market.outcomes
+    .map((outcome) => ({ name: outcome.name, edge: (fairFor(outcome.name) ?? outcome.price) - outcome.price }))
+    .sort((a, b) => b.edge - a.edge)[0];
+  return bestEdge && bestEdge.edge > 0 ? bestEdge.name : market.outcomes[0]?.name ?? '';
+};
+
+/**
+ * The trade a directional call stands for: the first trade idea that names one of the
+ * market's outcomes, e.g. "BUY No", or else the headline call on the target outcome
+ */
+export const backtestTrade = (
+  market: MarketData,
+  result: AnalysisResult
+): { outcome: string; side: 'BUY' | 'SELL' } | undefined => {
+  const idea = result.tradeIdeas?.find((idea) =>
+    market.outcomes.some((outcome) => normalizeName(outcome.name) === normalizeName(idea.outcome))
+  );
+  if (idea) return { outcome: idea.outcome, side: idea.side };
+  if (result.recommendation !== 'BUY' && result.recommendation !== 'SELL') return undefined;
+  return { outcome: targetOutcome(market, result), side: result.recommendation };
+};
+
+/**
+ * Per-outcome binary forecasts (probability, did it win) for a sample
+ */
+const forecasts = (probabilities: Array<{ name: string; probability: number }>, winner: string) =>
+  probabilities.map(({ name, probability }) => ({
+    probability,
+    won: normalizeName(name) === normalizeName(winner),
+  }));
+
+const brierOf = (points: Array<{ probability: number; won: boolean }>) =>
+  mean(points.map(({ probability, won }) => (probability - (won ? 1 : 0)) ** 2));
+
+const logLossOf = (points: Array<{ probability: number; won: boolean }>) =>
+  mean(
+    points.map(({ probability, won }) => {
+      const p = Math.min(1 - LOG_LOSS_EPSILON, Math.max(LOG_LOSS_EPSILON, probability));
+      return -Math.log(won ? p : 1 - p);
+    })
+  );
+
+const emptyRecommendationStats = (): Record<Recommendation, RecommendationStats> =>
+  Object.fromEntries(RECOMMENDATIONS.map((rec) => [rec, { count: 0, hits: 0, staked: 0, pnl: 0 }])) as Record<
+    Recommendation,
+    RecommendationStats
+  >;
+
+/**
+ * Scores resolved samples. Pure, so it can be reused on any subset.
+ *
+ * - Brier and log loss treat each outcome the model priced as one binary forecast
+ * - Trades come from the first trade idea, falling back to the headline call (see backtestTrade)
+ * - A BUY hits when its outcome won, a SELL when it lost; BUY and SELL stats count
+ *   the side of the simulated trade, not the headline call
+ * - P&L stakes $1 per BUY/SELL at the price when the analysis ran; SELL buys the other side
+ */
+export const scoreSamples = (samples: BacktestSample[]): BacktestMetrics => {
+  const byRecommendation = emptyRecommendationStats();
+  const modelPoints: Array<{ probability: number; won: boolean }> = [];
+  const marketPoints: Array<{ probability: number; won: boolean }> = [];
+  const directional: Array<{ confidence: number; hit: boolean }> = [];
+  let scored = 0;
+
+  samples.forEach(({ record, winningOutcome }) => {
+    const { market, result } = record;
+
+    const fair = result.fairProbabilities ?? [];
+    if (fair.length > 0) {
+      scored += 1;
+      modelPoints.push(...forecasts(fair.map((fp) => ({ name: fp.outcome, probability: fp.probability })), winningOutcome));
+      // Baseline over the same outcomes so the two scores are comparable
+      const priced = market.outcomes.filter((outcome) =>
+        fair.some((fp) => normalizeName(fp.outcome) === normalizeName(outcome.name))
+      );
+      marketPoints.push(...forecasts(priced.map((o) => ({ name: o.name, probability: o.price })), winningOutcome));
+    }
+
+    const directionalCall = result.recommendation === 'BUY' || result.recommendation === 'SELL';
+    const trade = directionalCall ? backtestTrade(market, result) : undefined;
+    // Filed under the side that was simulated, which follows the trade idea when it disagrees with the headline
+    const stats = byRecommendation[trade?.side ?? result.recommendation] ?? byRecommendation.AVOID;
+    stats.count += 1;
+    if (!trade) return;
+    const price =
+      market.outcomes.find((outcome) => normalizeName(outcome.name) === normalizeName(trade.outcome))?.price ?? 0;
+    const targetWon = normalizeName(trade.outcome) === normalizeName(winningOutcome);
+    const hit = trade.side === 'BUY' ? targetWon : !targetWon;
+    const entry = trade.side === 'BUY' ? price : 1 - price;
+
+    stats.hits += hit ? 1 : 0;
+    if (entry > 0 && entry < 1) {
+      stats.staked += 1;
+      stats.pnl += hit ? 1 / entry - 1 : -1;
+    }
+    directional.push({ confidence: result.confidenceScore, hit });
+  });
+
+  RECOMMENDATIONS.forEach((rec) => {
+    const stats = byRecommendation[rec];
+    if ((rec === 'BUY' || rec === 'SELL') && stats.count > 0) stats.hitRate = stats.hits / stats.count;
+  });
+
+  const calibration: CalibrationBucket[] = [];
+  for (let lower = 0; lower < 100; lower += CONFIDENCE_BUCKET) {
+    const upper = lower + CONFIDENCE_BUCKET;
+    // The top bucket includes 100
+    const inBucket = directional.filter((d) => d.confidence >= lower && (d.confidence < upper || upper === 100));
+    if (inBucket.length === 0) continue;
+    calibration.push({
+      lower,
+      upper,
+      count: inBucket.length,
+      meanConfidence: mean(inBucket.map((d) => d.confidence / 100))!,
+      hitRate: inBucket.filter((d) => d.hit).length / inBucket.length,
+    });
+  }
+
+  const staked = byRecommendation.BUY.staked + byRecommendation.SELL.staked;
+  const pnl = byRecommendation.BUY.pnl + byRecommendation.SELL.pnl;
+
+  return {
+    samples: samples.length,
+    scored,
+    brier: brierOf(modelPoints),
+    logLoss: logLossOf(modelPoints),
+    marketBrier: brierOf(marketPoints),
+    marketLogLoss: logLossOf(marketPoints),
+    byRecommendation,
+    staked,
+    pnl,
+    roi: staked > 0 ? pnl / staked : undefined,
+    calibration,
+  };
+};
+
+/**
+ * Checks stored analyses against how their markets resolved.
+ * Only live data is backtested; simulated and fixture snapshots are ignored.
+ */
+export const runBacktest = async (
+  records?: AnalysisRecord[],
+  options: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+): Promise<BacktestReport> => {
+  const { signal, onProgress } = options;
+  const candidates = (records ?? (await listAllAnalyses())).filter(
+    (record) => (record.market.provenance ?? 'live') === 'live'
+  );
+
+  const marketIds = Array.from(new Set(candidates.map((record) => record.marketId)));
+  const settlements = new Map<string, MarketSettlement | undefined>();
+  let next = 0;
+  const worker = async () => {
+    while (next < marketIds.length) {
+      const id = marketIds[next++];
+      try {
+        settlements.set(id, await getMarketSettlement(id, signal));
+      } catch (e) {
+        if (e instanceof AbortedError) throw e;
+        console.warn(`Could not fetch settlement for ${id}`, e);
+        settlements.set(id, undefined);
+      }
+      onProgress?.(settlements.size, marketIds.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(SETTLEMENT_CONCURRENCY, marketIds.length) }, worker));
+
+  const samples: BacktestSample[] = [];
+  let pending = 0;
+  let failed = 0;
+  candidates.forEach((record) => {
+    const settlement = settlements.get(record.marketId);
+    if (!settlement) {
+      failed += 1;
+    } else if (settlement.status === 'resolved' && settlement.winningOutcome) {
+      samples.push({ record, winningOutcome: settlement.winningOutcome });
+    } else {
+      pending += 1;
+    }
+  });
+
+  const modes = Array.from(new Set(samples.map((s) => s.record.mode)));
+  return {
+    overall: scoreSamples(samples),
+    byMode: Object.fromEntries(modes.map((mode) => [mode, scoreSamples(samples.filter((s) => s.record.mode === mode))])),
+    resolved: samples.length,
+    pending,
+    failed,
+  };
+};
@@ -0,0 +1,47 @@
+/**
+ * The app's IndexedDB database. Each version bump only adds stores, so
+ * upgrading never touches data saved by an older version.
+ */
+
+const DB_NAME = 'edge-explorer';
+const DB_VERSION = 3;
+
+export const ANALYSES_STORE = 'analyses';
+export const POSITIONS_STORE = 'positions';
+export const THREADS_STORE = 'threads';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ANALYSES_STORE)) {
+          const store = db.createObjectStore(ANALYSES_STORE, { keyPath: 'id' });
+          store.createIndex('marketId', 'marketId');
+          store.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(POSITIONS_STORE)) {
+          db.createObjectStore(POSITIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(THREADS_STORE)) {
+          db.createObjectStore(THREADS_STORE, { keyPath: 'marketId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
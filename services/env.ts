@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+/**
+ * Reads configuration from Vite's import.meta.env in the browser, falling back
+ * to process.env so the service modules also run under Node (gateway, scripts).
+ */
+const viteEnv: Record<string, string | undefined> = import.meta.env ?? {};
+
+export const readEnv = (...keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = viteEnv[key] ?? globalThis.process?.env?.[key];
+    if (value) return value;
+  }
+  return undefined;
+};
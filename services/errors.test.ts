@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { AbortedError, NetworkError, NotFoundError, toNetworkError } from './errors';
+
+describe('toNetworkError', () => {
+  it('names the host of the failed request', () => {
+    const err = toNetworkError(new TypeError('Failed to fetch'), 'https://gamma-api.polymarket.com/events?slug=x');
+    expect(err).toBeInstanceOf(NetworkError);
+    expect(err.message).toBe('Network request to gamma-api.polymarket.com failed: Failed to fetch');
+  });
+
+  it('keeps the failure for a relative gateway URL', () => {
+    const err = toNetworkError(new DOMException('The operation timed out', 'TimeoutError'), '/api/analyze');
+    expect(err).toBeInstanceOf(NetworkError);
+    expect(err.message).toBe('Request to /api/analyze timed out');
+  });
+
+  it('reports the caller aborting rather than a network failure', () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(toNetworkError(new DOMException('Aborted', 'AbortError'), '/api/analyze', controller.signal)).toBeInstanceOf(AbortedError);
+  });
+
+  it('passes service errors through', () => {
+    const notFound = new NotFoundError('No market');
+    expect(toNetworkError(notFound, 'https://gamma-api.polymarket.com')).toBe(notFound);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Typed errors raised by polymarketService and geminiService.
+ * `kind` is the discriminator the UI switches on; `retryable` says whether
+ * repeating the same request can succeed without the user changing anything.
+ */
+
+export type ServiceErrorKind =
+  | 'NOT_FOUND'
+  | 'NETWORK'
+  | 'TIMEOUT'
+  | 'RATE_LIMITED'
+  | 'MALFORMED'
+  | 'GATEWAY_CONFIG'
+  | 'UPSTREAM'
+  | 'MARKET_RESOLVED'
+  | 'ABORTED';
+
+export class ServiceError extends Error {
+  constructor(
+    public readonly kind: ServiceErrorKind,
+    message: string,
+    public readonly retryable: boolean,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class NotFoundError extends ServiceError {
+  constructor(message: string, status?: number) {
+    super('NOT_FOUND', message, false, status);
+  }
+}
+
+export class NetworkError extends ServiceError {
+  constructor(message: string, timedOut = false) {
+    super(timedOut ? 'TIMEOUT' : 'NETWORK', message, true);
+  }
+}
+
+export class RateLimitError extends ServiceError {
+  constructor(message: string, public readonly retryAfterMs?: number) {
+    super('RATE_LIMITED', message, true, 429);
+  }
+}
+
+export class MalformedResponseError extends ServiceError {
+  constructor(message: string) {
+    super('MALFORMED', message, false);
+  }
+}
+
+export class GatewayConfigError extends ServiceError {
+  constructor(message: string, status?: number) {
+    super('GATEWAY_CONFIG', message, false, status);
+  }
+}
+
+export class UpstreamError extends ServiceError {
+  constructor(message: string, status: number) {
+    super('UPSTREAM', message, status >= 500, status);
+  }
+}
+
+/**
+ * The market has already settled, so there is nothing left to analyze
+ */
+export class MarketResolvedError extends ServiceError {
+  constructor(message: string) {
+    super('MARKET_RESOLVED', message, false);
+  }
+}
+
+/**
+ * The caller cancelled the request, usually because a newer one superseded it.
+ * Not an error to show the user.
+ */
+export class AbortedError extends ServiceError {
+  constructor(message = 'Request was cancelled') {
+    super('ABORTED', message, false);
+  }
+}
+
+/**
+ * Throws AbortedError if `signal` has already fired
+ */
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new AbortedError();
+};
+
+/**
+ * Parses a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Host part of a request URL for messages. Relative URLs (a dev proxy path like /api/analyze)
+ * resolve against the page; without one, the URL is shown as given.
+ */
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url, globalThis.location?.href).host || url;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Maps a thrown fetch() failure (abort, DNS, CORS, offline) to a NetworkError.
+ * Aborts caused by the caller's `signal` become AbortedError rather than timeouts.
+ */
+export const toNetworkError = (err: unknown, url: string, signal?: AbortSignal): ServiceError => {
+  if (err instanceof ServiceError) return err;
+  if (signal?.aborted) return new AbortedError();
+  const timedOut = err instanceof DOMException && (err.name === 'AbortError' || err.name === 'TimeoutError');
+  const detail = err instanceof Error ? err.message : String(err);
+  return new NetworkError(
+    timedOut ? `Request to ${hostOf(url)} timed out` : `Network request to ${hostOf(url)} failed: ${detail}`,
+    timedOut
+  );
+};
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  /** Rate-limit waits longer than this are surfaced instead of retried */
+  maxRetryAfterMs?: number;
+  /** Stops retrying (and cuts the backoff wait short) once aborted */
+  signal?: AbortSignal;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Retries retryable ServiceErrors with exponential backoff and jitter.
+ * Honors Retry-After for rate limits when it is short enough to wait out.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { retries, baseDelayMs, maxRetryAfterMs = 5_000, signal } = options;
+  for (let attempt = 0; ; attempt += 1) {
+    throwIfAborted(signal);
+    try {
+      return await fn();
+    } catch (err) {
+      if (!(err instanceof ServiceError) || !err.retryable || attempt >= retries) throw err;
+
+      let delay = baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      if (err instanceof RateLimitError && err.retryAfterMs !== undefined) {
+        if (err.retryAfterMs > maxRetryAfterMs) throw err;
+        delay = Math.max(delay, err.retryAfterMs);
+      }
+      await sleep(delay, signal);
+    }
+  }
+};
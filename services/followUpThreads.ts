@@ -0,0 +1,53 @@
+import { AnalysisResult, AnalysisSnapshot, ChatMessage } from '../types';
+import { AnalysisRecord } from './analysisHistory';
+import { THREADS_STORE as STORE, openDb, promisify } from './db';
+
+/**
+ * Follow-up conversation about a market's analyses. One thread per market, so
+ * it carries over when the market is re-analyzed.
+ */
+export interface FollowUpThread {
+  marketId: string;
+  messages: ChatMessage[];
+  updatedAt: number;
+}
+
+export const newMessageId = () => `${Date.now()}:${Math.random().toString(36).slice(2, 8)}`;
+
+export const loadThread = async (marketId: string): Promise<ChatMessage[]> => {
+  const db = await openDb();
+  const thread = (await promisify(db.transaction(STORE, 'readonly').objectStore(STORE).get(marketId))) as
+    | FollowUpThread
+    | undefined;
+  return thread?.messages ?? [];
+};
+
+export const saveThread = async (marketId: string, messages: ChatMessage[]): Promise<void> => {
+  const thread: FollowUpThread = { marketId, messages, updatedAt: Date.now() };
+  const db = await openDb();
+  await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).put(thread));
+};
+
+export const clearThread = async (marketId: string): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(marketId));
+};
+
+/**
+ * Earlier runs than `current`, newest first, in the compact form sent with follow-ups
+ */
+export const earlierSnapshots = (records: AnalysisRecord[], current: AnalysisResult, limit = 5): AnalysisSnapshot[] => {
+  // Saved records are stamped after their request was issued, so this excludes the current run itself
+  const before = current.request?.issuedAt ?? Date.now();
+  return records
+    .filter((record) => record.timestamp < before)
+    .slice(0, limit)
+    .map((record) => ({
+      timestamp: record.timestamp,
+      mode: record.mode,
+      recommendation: record.result.recommendation,
+      confidenceScore: record.result.confidenceScore,
+      summary: record.result.summary,
+      prices: record.market.outcomes.map((outcome) => ({ outcome: outcome.name, price: outcome.price })),
+    }));
+};
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisMode, AnalysisStreamEvent, MarketData } from '../types';
+
+const market: MarketData = {
+  id: '1',
+  question: 'Will it rain tomorrow?',
+  outcomes: [
+    { name: 'Yes', probability: 0.4, price: 0.4 },
+    { name: 'No', probability: 0.6, price: 0.6 },
+  ],
+  url: 'https://polymarket.com/event/rain',
+  volume: '$0',
+  volumeNum: 0,
+  liquidity: '$0',
+  active: true,
+  provenance: 'live',
+  status: 'open',
+};
+
+/**
+ * An NDJSON response that sends `lines` and then stays open, recording whether the reader cancelled it
+ */
+const openStream = (lines: string[]) => {
+  const state = { cancelled: false };
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      lines.forEach((line) => controller.enqueue(new TextEncoder().encode(`${line}\n`)));
+    },
+    cancel() {
+      state.cancelled = true;
+    },
+  });
+  return { state, response: new Response(body, { headers: { 'Content-Type': 'application/x-ndjson' } }) };
+};
+
+describe('analyzeMarket streaming', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv('VITE_GEMINI_GATEWAY_URL', '/api/analyze');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('forwards events and cancels the response on an unreadable line', async () => {
+    const status: AnalysisStreamEvent = { type: 'status', stage: 'queued', message: 'Starting' };
+    const { state, response } = openStream([JSON.stringify(status), '{"type": "summ']);
+    vi.stubGlobal('fetch', vi.fn(async () => response));
+    const { analyzeMarket } = await import('./geminiService');
+
+    const events: AnalysisStreamEvent[] = [];
+    await expect(analyzeMarket(market, AnalysisMode.QUICK, { onEvent: (event) => events.push(event) })).rejects.toMatchObject({
+      kind: 'MALFORMED',
+    });
+    expect(events).toEqual([status]);
+    expect(state.cancelled).toBe(true);
+  });
+});
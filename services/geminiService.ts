@@ -1,151 +1,323 @@
-import { MarketData, AnalysisResult, AnalysisMode } from "../types";
+import {
+  MarketData,
+  AnalysisResult,
+  AnalysisModeId,
+  AnalysisSnapshot,
+  AnalysisStreamEvent,
+  ChatMessage,
+  FollowUpReply,
+  PartialAnalysis,
+} from "../types";
+import { normalizeFollowUpReply, normalizePayload, sanitizeJsonText } from "./analysisSchema";
+import { modeFor } from "./analysisModes";
+import { analyzeResolutionRules } from "./resolutionRules";
+import { readEnv } from "./env";
+import {
+  GatewayConfigError,
+  MalformedResponseError,
+  MarketResolvedError,
+  parseRetryAfter,
+  RateLimitError,
+  toNetworkError,
+  UpstreamError,
+} from "./errors";
 
-const GATEWAY_URL =
-  import.meta.env.VITE_GEMINI_GATEWAY_URL ||
-  import.meta.env.VITE_ANALYSIS_ENDPOINT ||
-  import.meta.env.VITE_GEMINI_APP_URL;
+const GATEWAY_URL = readEnv(
+  "VITE_GEMINI_GATEWAY_URL",
+  "VITE_ANALYSIS_ENDPOINT",
+  "VITE_GEMINI_APP_URL"
+);
 
-const GATEWAY_KEY =
-  import.meta.env.VITE_GEMINI_GATEWAY_KEY ||
-  import.meta.env.VITE_ANALYSIS_API_KEY ||
-  import.meta.env.VITE_GEMINI_APP_KEY;
+const GATEWAY_KEY = readEnv(
+  "VITE_GEMINI_GATEWAY_KEY",
+  "VITE_ANALYSIS_API_KEY",
+  "VITE_GEMINI_APP_KEY"
+);
 
-const REQUIRED_FIELDS: Array<keyof AnalysisResult> = [
-  "summary",
-  "recommendation",
-  "confidenceScore",
-  "reasoning",
-];
-
-const VALID_RECOMMENDATIONS: AnalysisResult["recommendation"][] = [
-  "BUY",
-  "SELL",
-  "HOLD",
-  "AVOID",
-];
+const decodeResponse = async (response: Response, signal?: AbortSignal): Promise<AnalysisResult> => {
+  const contentType = response.headers.get("content-type");
 
-const sanitizeJsonText = (rawText: string): string => {
-  const trimmed = rawText.trim();
-  if (!trimmed) {
-    throw new Error("Empty analysis response");
+  let text: string;
+  try {
+    text = await response.text();
+  } catch (err) {
+    throw toNetworkError(err, GATEWAY_URL!, signal);
+  }
+  try {
+    if (contentType?.includes("application/json")) {
+      return normalizePayload(JSON.parse(text));
+    }
+    const cleaned = sanitizeJsonText(text);
+    return normalizePayload(JSON.parse(cleaned));
+  } catch (err) {
+    throw new MalformedResponseError(
+      `Failed to parse analysis response: ${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
   }
+};
+
+const STREAM_TYPES = ["application/x-ndjson", "text/event-stream"];
 
-  if (trimmed.startsWith("```")) {
-    return trimmed.replace(/^```[a-zA-Z]*\s*/u, "").replace(/```$/u, "").trim();
+/**
+ * Extracts the JSON payload of one NDJSON line or SSE `data:` line
+ */
+const parseStreamLine = (line: string): AnalysisStreamEvent | undefined => {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith(":")) return undefined;
+  if (trimmed.startsWith("event:") || trimmed.startsWith("id:") || trimmed.startsWith("retry:")) {
+    return undefined;
   }
+  const json = trimmed.startsWith("data:") ? trimmed.slice(5).trim() : trimmed;
+  return JSON.parse(json) as AnalysisStreamEvent;
+};
 
-  // Try to extract the first JSON object from an unstructured response
-  const firstBrace = trimmed.indexOf("{");
-  const lastBrace = trimmed.lastIndexOf("}");
-  if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-    return trimmed.slice(firstBrace, lastBrace + 1);
+/**
+ * Reads a streamed gateway response, forwarding events as they arrive.
+ * Resolves with the final `result` event, normalized like the buffered path.
+ */
+const decodeStream = async (
+  response: Response,
+  onEvent: (event: AnalysisStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  if (!response.body) {
+    return decodeResponse(response, signal);
   }
 
-  return trimmed;
-};
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let result: AnalysisResult | undefined;
+
+  const handleLine = (line: string) => {
+    let event: AnalysisStreamEvent | undefined;
+    try {
+      event = parseStreamLine(line);
+    } catch {
+      throw new MalformedResponseError(`Unreadable analysis stream line: ${line.slice(0, 120)}`);
+    }
+    if (!event) return;
+    if (event.type === "error") {
+      throw new UpstreamError(`Analysis gateway error: ${event.message}`, 502);
+    }
+    if (event.type === "result") {
+      try {
+        result = normalizePayload(event.result);
+      } catch (err) {
+        throw new MalformedResponseError(err instanceof Error ? err.message : String(err));
+      }
+      onEvent({ type: "result", result });
+      return;
+    }
+    onEvent(event);
+  };
 
-const coerceReasoning = (input: unknown): string[] => {
-  if (Array.isArray(input)) {
-    return input.map((item) => String(item));
+  try {
+    while (true) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (err) {
+        throw toNetworkError(err, GATEWAY_URL!, signal);
+      }
+      const { done, value } = chunk;
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer + decoder.decode());
+  } finally {
+    // Closes the response when a bad line stops the read early, so the gateway stops streaming
+    reader.cancel().catch(() => undefined);
   }
-  if (typeof input === "string" && input.length > 0) {
-    return [input];
+
+  if (!result) {
+    throw new MalformedResponseError("Analysis stream ended without a result");
   }
-  return ["No reasoning returned by analysis service."];
+  return result;
 };
 
-const normalizePayload = (payload: any): AnalysisResult => {
-  const missing = REQUIRED_FIELDS.filter(
-    (field) => payload?.[field] === undefined || payload?.[field] === null
-  );
+export const EMPTY_PARTIAL: PartialAnalysis = { reasoning: [], citations: [], sources: [] };
+
+/**
+ * Folds a stream event into the progressive analysis shown while loading
+ */
+export const applyStreamEvent = (
+  partial: PartialAnalysis,
+  event: AnalysisStreamEvent
+): PartialAnalysis => {
+  switch (event.type) {
+    case "status":
+      return { ...partial, status: { stage: event.stage, message: event.message } };
+    case "summary":
+      return { ...partial, summary: event.text };
+    case "reasoning":
+      return {
+        ...partial,
+        reasoning: [...partial.reasoning, event.text],
+        citations: [...partial.citations, event.citations ?? []],
+      };
+    case "source":
+      return { ...partial, sources: [...partial.sources, event.source] };
+    default:
+      return partial;
+  }
+};
 
-  if (missing.length > 0) {
-    throw new Error(
-      `Analysis response missing required fields: ${missing.join(", ")}`
+const assertGatewayConfigured = () => {
+  if (!GATEWAY_URL) {
+    throw new GatewayConfigError(
+      "Missing VITE_GEMINI_GATEWAY_URL (or VITE_ANALYSIS_ENDPOINT) environment variable."
     );
   }
+};
 
-  const confidenceScore = Number(payload.confidenceScore);
-  const normalizedRecommendation = String(payload.recommendation || "").toUpperCase();
-  const recommendation = VALID_RECOMMENDATIONS.includes(
-    normalizedRecommendation as AnalysisResult["recommendation"]
-  )
-    ? (normalizedRecommendation as AnalysisResult["recommendation"])
-    : "HOLD";
-
-  return {
-    summary: String(payload.summary),
-    recommendation,
-    confidenceScore: Number.isFinite(confidenceScore)
-      ? Math.max(0, Math.min(100, Math.round(confidenceScore)))
-      : 0,
-    reasoning: coerceReasoning(payload.reasoning),
-    sources: Array.isArray(payload.sources)
-      ? payload.sources
-          .filter((s) => s && s.title && s.url)
-          .map((s) => ({ title: String(s.title), url: String(s.url) }))
-      : undefined,
-  };
+/**
+ * Maps a non-2xx gateway response to a typed error
+ */
+const toGatewayError = async (response: Response) => {
+  const errorText = await response.text().catch(() => "");
+  const detail = `Analysis gateway error (${response.status}): ${errorText || response.statusText}`;
+
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new GatewayConfigError(`${detail}. Check VITE_GEMINI_GATEWAY_KEY.`, response.status);
+    case 404:
+    case 405:
+      return new GatewayConfigError(`${detail}. Check VITE_GEMINI_GATEWAY_URL.`, response.status);
+    case 429:
+      return new RateLimitError(detail, parseRetryAfter(response.headers.get("retry-after")));
+    default:
+      return new UpstreamError(detail, response.status);
+  }
 };
 
-const decodeResponse = async (response: Response): Promise<AnalysisResult> => {
-  const contentType = response.headers.get("content-type");
+/**
+ * POSTs a JSON body to the gateway and maps transport and HTTP failures to typed errors
+ */
+const postToGateway = async (body: unknown, accept: string, signal?: AbortSignal): Promise<Response> => {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Accept: accept,
+  };
 
-  if (contentType?.includes("application/json")) {
-    const data = await response.json();
-    return normalizePayload(data);
+  if (GATEWAY_KEY) {
+    headers["x-api-key"] = GATEWAY_KEY;
   }
 
-  const text = await response.text();
+  let response: Response;
   try {
-    const cleaned = sanitizeJsonText(text);
-    return normalizePayload(JSON.parse(cleaned));
+    response = await fetch(GATEWAY_URL!, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
   } catch (err) {
-    throw new Error(
-      `Failed to parse analysis response: ${
-        err instanceof Error ? err.message : String(err)
-      }`
-    );
+    throw toNetworkError(err, GATEWAY_URL!, signal);
   }
-};
 
-const assertGatewayConfigured = () => {
-  if (!GATEWAY_URL) {
-    throw new Error(
-      "Missing VITE_GEMINI_GATEWAY_URL (or VITE_ANALYSIS_ENDPOINT) environment variable."
-    );
+  if (!response.ok) {
+    throw await toGatewayError(response);
   }
+  return response;
 };
 
+export interface AnalyzeOptions {
+  /** Receives progress events when the gateway streams its response */
+  onEvent?: (event: AnalysisStreamEvent) => void;
+  /** Aborting cancels the request (and the stream) with an AbortedError */
+  signal?: AbortSignal;
+}
+
 export const analyzeMarket = async (
   market: MarketData,
-  mode: AnalysisMode
+  mode: AnalysisModeId,
+  options: AnalyzeOptions = {}
 ): Promise<AnalysisResult> => {
   assertGatewayConfigured();
 
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-  };
-
-  if (GATEWAY_KEY) {
-    headers["x-api-key"] = GATEWAY_KEY;
+  // Settled markets have nothing left to price; closed-but-unsettled ones are still allowed
+  if (market.status === "resolved") {
+    throw new MarketResolvedError(
+      market.winningOutcome
+        ? `This market already resolved to "${market.winningOutcome}".`
+        : "This market has already resolved."
+    );
   }
 
-  const response = await fetch(GATEWAY_URL!, {
-    method: "POST",
-    headers,
-    body: JSON.stringify({
+  // Analyses are slow and may be billed, so failures are surfaced rather than auto-retried
+  const response = await postToGateway(
+    {
       mode,
+      // The definition lets the gateway run custom modes it has never seen
+      modeDefinition: modeFor(mode),
+      market,
+      rules: analyzeResolutionRules(market),
+    },
+    // Gateways that don't stream ignore this and answer with buffered JSON
+    options.onEvent ? `${STREAM_TYPES.join(", ")}, application/json;q=0.9` : "application/json",
+    options.signal
+  );
+
+  const contentType = response.headers.get("content-type") ?? "";
+  if (options.onEvent && STREAM_TYPES.some((type) => contentType.includes(type))) {
+    return decodeStream(response, options.onEvent, options.signal);
+  }
+
+  return decodeResponse(response, options.signal);
+};
+
+// Older turns are dropped so long threads stay within the gateway's body limit
+const MAX_FOLLOW_UP_MESSAGES = 20;
+
+export interface FollowUpOptions {
+  /** Earlier analyses of the same market, for questions that compare over time */
+  earlier?: AnalysisSnapshot[];
+  signal?: AbortSignal;
+}
+
+/**
+ * Asks a follow-up question about an analysis. `messages` is the thread so far,
+ * ending with the user's new question; the gateway also gets the market snapshot
+ * and the analysis being discussed.
+ */
+export const askFollowUp = async (
+  market: MarketData,
+  analysis: AnalysisResult,
+  messages: ChatMessage[],
+  options: FollowUpOptions = {}
+): Promise<FollowUpReply> => {
+  assertGatewayConfigured();
+
+  const response = await postToGateway(
+    {
+      type: "followup",
       market,
-    }),
-  });
+      analysis,
+      earlier: options.earlier ?? [],
+      messages: messages.slice(-MAX_FOLLOW_UP_MESSAGES).map(({ role, content }) => ({ role, content })),
+    },
+    "application/json",
+    options.signal
+  );
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `Analysis gateway error (${response.status}): ${errorText || response.statusText}`
+  let text: string;
+  try {
+    text = await response.text();
+  } catch (err) {
+    throw toNetworkError(err, GATEWAY_URL!, options.signal);
+  }
+  try {
+    return normalizeFollowUpReply(JSON.parse(sanitizeJsonText(text)));
+  } catch (err) {
+    throw new MalformedResponseError(
+      `Failed to parse follow-up response: ${err instanceof Error ? err.message : String(err)}`
     );
   }
-
-  return decodeResponse(response);
-};
\ No newline at end of file
+};
@@ -0,0 +1,49 @@
+import { FillEstimate, OrderBook } from '../types';
+
+/**
+ * Simulates a market BUY of `stake` dollars walking up the ask side of the book
+ */
+export const estimateFill = (book: OrderBook, stake: number): FillEstimate => {
+  const mid = book.mid ?? book.bestAsk ?? 0;
+  let remaining = Math.max(0, stake);
+  let shares = 0;
+  let spent = 0;
+  let worstPrice = book.bestAsk ?? 0;
+
+  for (const level of book.asks) {
+    if (remaining <= 0) break;
+    const levelCost = level.price * level.size;
+    const cost = Math.min(remaining, levelCost);
+    shares += cost / level.price;
+    spent += cost;
+    remaining -= cost;
+    worstPrice = level.price;
+  }
+
+  const avgPrice = shares > 0 ? spent / shares : 0;
+  const slippage = shares > 0 ? avgPrice - mid : 0;
+
+  return {
+    stake,
+    filledStake: spent,
+    shares,
+    avgPrice,
+    worstPrice,
+    slippage,
+    slippagePct: mid > 0 ? slippage / mid : 0,
+    complete: remaining <= 1e-9,
+  };
+};
+
+/**
+ * Total dollars resting within `band` of the mid on each side
+ */
+export const depthWithin = (book: OrderBook, band: number) => {
+  if (book.mid === undefined) return { bid: 0, ask: 0 };
+  const sum = (levels: OrderBook['bids'], inBand: (price: number) => boolean) =>
+    levels.filter((level) => inBand(level.price)).reduce((total, level) => total + level.price * level.size, 0);
+  return {
+    bid: sum(book.bids, (price) => price >= book.mid! - band),
+    ask: sum(book.asks, (price) => price <= book.mid! + band),
+  };
+};
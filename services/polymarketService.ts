@@ -1,13 +1,61 @@
+import { DataProvenance, EventData, MarketData, OrderBook, OrderBookLevel, Outcome, OutcomePriceHistory, PriceHistoryRange } from '../types';
+import {
+  AbortedError,
+  MalformedResponseError,
+  NotFoundError,
+  parseRetryAfter,
+  RateLimitError,
+  toNetworkError,
+  UpstreamError,
+  withRetry,
+} from './errors';
+import { readEnv } from './env';
+import { cachedFetch } from './requestCache';
 
-import { MarketData, Outcome } from '../types';
-
-const BASE_URL = 'https://gamma-api.polymarket.com';
+/**
+ * VITE_FIXTURE_URL routes every request through the fixture server
+ * (npm run fixtures), which records or replays Gamma/CLOB responses on disk.
+ */
+const FIXTURE_URL = readEnv('VITE_FIXTURE_URL')?.replace(/\/$/, '');
+const BASE_URL = FIXTURE_URL ? `${FIXTURE_URL}/gamma` : 'https://gamma-api.polymarket.com';
+const CLOB_URL = FIXTURE_URL ? `${FIXTURE_URL}/clob` : 'https://clob.polymarket.com';
+const SOURCE_PROVENANCE: DataProvenance = FIXTURE_URL ? 'fixture' : 'live';
 
 export interface TrendingMarket {
   slug: string;
   title: string;
 }
 
+/**
+ * Where a market stands now, for checking past analyses against the result
+ */
+export type MarketSettlement = Pick<MarketData, 'status' | 'winningOutcome' | 'resolvedAt'>;
+
+/**
+ * Gamma tag slugs offered as market categories
+ */
+export const MARKET_CATEGORIES: Array<{ slug: string; label: string }> = [
+  { slug: 'politics', label: 'Politics' },
+  { slug: 'crypto', label: 'Crypto' },
+  { slug: 'sports', label: 'Sports' },
+  { slug: 'economy', label: 'Economy' },
+  { slug: 'tech', label: 'Tech' },
+  { slug: 'geopolitics', label: 'Geopolitics' },
+  { slug: 'pop-culture', label: 'Culture' },
+];
+
+export interface SearchResult {
+  type: 'event' | 'market';
+  id: string;
+  title: string;
+  subtitle?: string; // Parent event title for market results
+  url: string; // Polymarket URL accepted by getEventData
+  volume: string;
+  volumeNum: number;
+  endDate?: string;
+  active: boolean;
+}
+
 /**
  * Parsed URL information
  */
@@ -114,15 +162,17 @@ const buildOutcomes = (market: any): Outcome[] => {
 
   const priceSource = market.outcomePrices ?? market.prices ?? market.outcomeProbability;
   const probabilities = parseNumberArray(priceSource);
+  const tokenIds = parseStringArray(market.clobTokenIds);
 
   if (names && probabilities && names.length && probabilities.length) {
     const usableLength = Math.min(names.length, probabilities.length);
-    const outcomes = [];
+    const outcomes: Outcome[] = [];
     for (let i = 0; i < usableLength; i += 1) {
       outcomes.push({
         name: names[i],
         probability: clampProbability(probabilities[i]),
         price: clampProbability(probabilities[i]),
+        tokenId: tokenIds?.[i],
       });
     }
     return outcomes.sort((a, b) => b.probability - a.probability);
@@ -134,6 +184,40 @@ const buildOutcomes = (market: any): Outcome[] => {
   ];
 };
 
+/**
+ * Gamma timestamps come either as ISO strings or as "2024-11-06 12:00:00+00"
+ */
+const parseTimestamp = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' || !value) return undefined;
+  const time = Date.parse(value.replace(' ', 'T').replace(/([+-]\d{2})$/, '$1:00'));
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+/**
+ * Settlement fields for a Gamma market. A closed market whose prices have
+ * collapsed to 1/0, or that UMA reports as resolved, counts as resolved.
+ */
+const deriveSettlement = (
+  market: any,
+  outcomes: Outcome[]
+): Pick<MarketData, 'status' | 'winningOutcome' | 'resolvedAt' | 'resolutionSource'> => {
+  const resolutionSource = market.resolutionSource || undefined;
+  if (!market.closed) {
+    return { status: 'open', resolutionSource };
+  }
+
+  const winner = outcomes.find((outcome) => outcome.price >= 0.99);
+  if (!winner && market.umaResolutionStatus !== 'resolved') {
+    return { status: 'closed', resolutionSource };
+  }
+  return {
+    status: 'resolved',
+    winningOutcome: winner?.name,
+    resolvedAt: parseTimestamp(market.closedTime) ?? parseTimestamp(market.umaEndDate) ?? parseTimestamp(market.endDate),
+    resolutionSource,
+  };
+};
+
 const selectMarket = (markets: any[], targetId?: string) => {
   if (!Array.isArray(markets) || markets.length === 0) return undefined;
   if (targetId) {
@@ -141,8 +225,9 @@ const selectMarket = (markets: any[], targetId?: string) => {
     if (viaId) return viaId;
   }
 
-  const activeMarket = markets.find((market) => market.active);
-  if (activeMarket) return activeMarket;
+  // Prefer markets still trading; settled ones are only picked when nothing else is left
+  const openMarket = markets.find((market) => market.active && !market.closed);
+  if (openMarket) return openMarket;
 
   return markets.reduce((prev, current) => {
     const prevVolume = Number(prev?.volumeNum ?? prev?.volume ?? 0);
@@ -151,21 +236,136 @@ const selectMarket = (markets: any[], targetId?: string) => {
   }, markets[0]);
 };
 
+export type DiscoverySort = 'volume24hr' | 'liquidity' | 'newest' | 'endingSoon';
+
+export interface DiscoveryQuery {
+  category?: string; // Gamma tag slug, see MARKET_CATEGORIES
+  sort: DiscoverySort;
+  minLiquidity?: number;
+  endDateFrom?: string; // ISO date or datetime, inclusive
+  endDateTo?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface DiscoveryItem {
+  id: string;
+  slug: string;
+  title: string;
+  url: string;
+  image?: string;
+  volume24hr: string;
+  volume24hrNum: number;
+  volume: string;
+  liquidity: string;
+  liquidityNum: number;
+  endDate?: string;
+  marketCount: number; // Open child markets
+  leading?: { name: string; price: number }; // Likeliest outcome across the event
+}
+
+export interface DiscoveryPage {
+  items: DiscoveryItem[];
+  nextOffset?: number; // Undefined once the feed is exhausted
+}
+
+const HOUR_MS = 3_600_000;
+
+/**
+ * Gamma `order`/`ascending` for each sort
+ */
+const DISCOVERY_ORDER: Record<DiscoverySort, { order: string; ascending: boolean }> = {
+  volume24hr: { order: 'volume24hr', ascending: false },
+  liquidity: { order: 'liquidity', ascending: false },
+  newest: { order: 'startDate', ascending: false },
+  endingSoon: { order: 'endDate', ascending: true },
+};
+
+/**
+ * Likeliest outcome of an event: the favorite of a single market, or the
+ * child market with the highest YES price
+ */
+const leadingOutcome = (rawMarkets: any[]): DiscoveryItem['leading'] => {
+  if (rawMarkets.length === 1) {
+    const [top] = buildOutcomes(rawMarkets[0]);
+    return top && { name: top.name, price: top.price };
+  }
+  return rawMarkets
+    .map((market) => {
+      const outcomes = buildOutcomes(market);
+      const yes = outcomes.find((outcome) => outcome.name.toLowerCase() === 'yes') ?? outcomes[0];
+      return { name: market.groupItemTitle || market.question, price: yes.price };
+    })
+    .sort((a, b) => b.price - a.price)[0];
+};
+
+const toDiscoveryItem = (event: any): DiscoveryItem => {
+  const openMarkets = (Array.isArray(event.markets) ? event.markets : []).filter(
+    (market: any) => market.active !== false && !market.closed
+  );
+  const liquidityNum = Number(event.liquidity ?? 0);
+  const volume24hrNum = Number(event.volume24hr ?? 0);
+  return {
+    id: String(event.id),
+    slug: event.slug,
+    title: event.title,
+    url: `https://polymarket.com/event/${event.slug}`,
+    image: event.image || event.icon || undefined,
+    volume24hr: formatMoney(volume24hrNum),
+    volume24hrNum,
+    volume: formatMoney(event.volume ?? 0),
+    liquidity: formatMoney(liquidityNum),
+    liquidityNum,
+    endDate: event.endDate,
+    marketCount: openMarkets.length,
+    leading: openMarkets.length > 0 ? leadingOutcome(openMarkets) : undefined,
+  };
+};
+
 /**
- * Fetch top trending markets (Events)
+ * One page of open events matching the discovery filters.
+ * Pages are offset-based; pass `nextOffset` back in to continue.
  */
-export const getTrendingMarkets = async (): Promise<TrendingMarket[]> => {
+export const getDiscoveryFeed = async (query: DiscoveryQuery, signal?: AbortSignal): Promise<DiscoveryPage> => {
+  const { order, ascending } = DISCOVERY_ORDER[query.sort];
+  const limit = query.limit ?? 20;
+  const offset = query.offset ?? 0;
+  // "Ending soon" only makes sense for events that have not ended yet. The cutoff is
+  // rounded down to the hour so the URL stays stable for the request cache and fixtures.
+  const thisHour = new Date(Math.floor(Date.now() / HOUR_MS) * HOUR_MS).toISOString();
+  const endDateFrom = query.endDateFrom ?? (query.sort === 'endingSoon' ? thisHour : undefined);
+
+  const params = new URLSearchParams({
+    limit: String(limit),
+    offset: String(offset),
+    active: 'true',
+    closed: 'false',
+    order,
+    ascending: String(ascending),
+  });
+  if (query.category) params.set('tag_slug', query.category);
+  if (query.minLiquidity) params.set('liquidity_min', String(query.minLiquidity));
+  if (endDateFrom) params.set('end_date_min', endDateFrom);
+  if (query.endDateTo) params.set('end_date_max', query.endDateTo);
+
+  const data = await fetchWithTimeout(`${BASE_URL}/events?${params}`, signal);
+  if (!Array.isArray(data)) {
+    throw new MalformedResponseError('Discovery feed did not return a list of events');
+  }
+
+  return {
+    items: data.map(toDiscoveryItem),
+    nextOffset: data.length === limit ? offset + limit : undefined,
+  };
+};
+
+/**
+ * Fetch top trending markets (Events) by 24h volume, optionally within a category tag
+ */
+export const getTrendingMarkets = async (limit = 5, category?: string): Promise<TrendingMarket[]> => {
   try {
-    // Fetch top 5 events by 24h volume
-    const data = await fetchWithTimeout(`${BASE_URL}/events?limit=5&active=true&closed=false&order=volume24hr&ascending=false`);
-    
-    if (Array.isArray(data)) {
-      return data.map((event: any) => ({
-        slug: event.slug,
-        title: event.title
-      }));
-    }
-    return [];
+    const { items } = await getDiscoveryFeed({ sort: 'volume24hr', category, limit });
+    return items.map((item) => ({ slug: item.slug, title: item.title }));
   } catch (e) {
     console.warn("Failed to fetch trending markets", e);
     return [];
@@ -173,102 +373,630 @@ export const getTrendingMarkets = async (): Promise<TrendingMarket[]> => {
 };
 
 /**
- * Main fetch function
+ * Free-text search across events and their markets via Gamma's public-search.
+ * Events come first, followed by child markets whose question matches every term.
  */
-export const getMarketData = async (url: string): Promise<MarketData> => {
+export const searchMarkets = async (query: string, limit = 8, signal?: AbortSignal): Promise<SearchResult[]> => {
+  const trimmed = query.trim();
+  if (trimmed.length < 2) return [];
+
+  const data = await fetchWithTimeout(
+    `${BASE_URL}/public-search?q=${encodeURIComponent(trimmed)}&limit_per_type=${limit}&events_status=active`,
+    signal
+  );
+  const events: any[] = Array.isArray(data?.events) ? data.events : [];
+  const terms = trimmed.toLowerCase().split(/\s+/);
+
+  const eventResults: SearchResult[] = events.map((event) => {
+    const volumeNum = Number(event.volume ?? 0);
+    return {
+      type: 'event',
+      id: String(event.id),
+      title: event.title,
+      url: `https://polymarket.com/event/${event.slug}`,
+      volume: formatMoney(volumeNum),
+      volumeNum,
+      endDate: event.endDate,
+      active: Boolean(event.active) && !event.closed,
+    };
+  });
+
+  const marketResults: SearchResult[] = events.flatMap((event) =>
+    (Array.isArray(event.markets) && event.markets.length > 1 ? event.markets : [])
+      .filter((market: any) => {
+        const text = `${market.question ?? ''} ${market.groupItemTitle ?? ''}`.toLowerCase();
+        return terms.every((term) => text.includes(term));
+      })
+      .map((market: any) => {
+        const volumeNum = Number(market.volumeNum ?? market.volume ?? 0);
+        return {
+          type: 'market' as const,
+          id: String(market.id),
+          title: market.groupItemTitle || market.question,
+          subtitle: event.title,
+          url: `https://polymarket.com/event/${event.slug}?tid=${market.id}`,
+          volume: formatMoney(volumeNum),
+          volumeNum,
+          endDate: market.endDate ?? event.endDate,
+          active: Boolean(market.active) && !market.closed,
+        };
+      })
+  );
+
+  return [...eventResults, ...marketResults].slice(0, limit * 2);
+};
+
+/**
+ * True for input that reads like a search query rather than a URL or slug
+ */
+const isFreeText = (input: string): boolean => /\s/.test(input.trim()) && !/^https?:\/\//.test(input.trim());
+
+/**
+ * Main fetch function. Resolves the full event with every child market.
+ * Free-text input is resolved to the top search hit first.
+ * Aborting `signal` rejects with AbortedError.
+ */
+export const getEventData = async (input: string, signal?: AbortSignal): Promise<EventData> => {
+  let url = input;
+  if (isFreeText(input)) {
+    try {
+      const [topHit] = await searchMarkets(input, 1, signal);
+      if (topHit) url = topHit.url;
+    } catch (e) {
+      if (e instanceof AbortedError) throw e;
+      console.warn("Search failed, treating input as slug...", e);
+    }
+  }
+
   const { slug, id } = parsePolymarketUrl(url);
-  
-  // 1. Try Events API (Most robust for groups)
-  try {
-    const eventData = await fetchWithTimeout(`${BASE_URL}/events?slug=${slug}`);
-    if (eventData && eventData.length > 0) {
-      return transformEventData(eventData[0], id);
+
+  /**
+   * Runs one lookup strategy. Not-found and empty responses move on to the next
+   * strategy; anything else (offline, rate limited, malformed) stops the cascade,
+   * since every strategy hits the same host.
+   */
+  const attempt = async <T>(label: string, lookup: () => Promise<T | undefined>): Promise<T | undefined> => {
+    try {
+      return await lookup();
+    } catch (e) {
+      // 4xx other than 429 means this strategy doesn't apply to the input
+      if (e instanceof NotFoundError || (e instanceof UpstreamError && !e.retryable)) {
+        console.warn(`${label} found nothing, trying next strategy...`);
+        return undefined;
+      }
+      throw e;
     }
-  } catch (e) {
-    console.log("Event API failed or empty, trying markets...", e);
+  };
+
+  const firstOf = (data: any) => (Array.isArray(data) && data.length > 0 ? data[0] : undefined);
+
+  // 1. Try Events API (Most robust for groups)
+  const event = await attempt('Event API', async () => firstOf(await fetchWithTimeout(`${BASE_URL}/events?slug=${slug}`, signal)));
+  if (event) {
+    return transformEventData(event, id);
   }
 
   // 2. Try Markets API (For single markets)
-  try {
-    const marketData = await fetchWithTimeout(`${BASE_URL}/markets?slug=${slug}`);
-    if (marketData && marketData.length > 0) {
-      return transformMarketData(marketData[0]);
-    }
-  } catch (e) {
-    console.log("Market API failed, trying ID...", e);
+  const market = await attempt('Market API', async () => firstOf(await fetchWithTimeout(`${BASE_URL}/markets?slug=${slug}`, signal)));
+  if (market) {
+    return wrapMarket(transformMarketData(market));
   }
 
   // 3. Try ID if available
   if (id) {
-    try {
-      const marketData = await fetchWithTimeout(`${BASE_URL}/markets/${id}`);
-      if (marketData) {
-        return transformMarketData(marketData);
-      }
-    } catch (e) {
-      console.log("ID lookup failed...", e);
+    const byId = await attempt('ID lookup', () => fetchWithTimeout(`${BASE_URL}/markets/${id}`, signal));
+    if (byId) {
+      return wrapMarket(transformMarketData(byId));
     }
   }
 
   // 4. Search Fallback
-  try {
-    const searchData = await fetchWithTimeout(`${BASE_URL}/markets?limit=1&active=true&closed=false&order=volume24hr&ascending=false&slug=${slug}`);
-    if (searchData && searchData.length > 0) {
-      return transformMarketData(searchData[0]);
+  const searched = await attempt('Search fallback', async () =>
+    firstOf(await fetchWithTimeout(`${BASE_URL}/markets?limit=1&active=true&closed=false&order=volume24hr&ascending=false&slug=${slug}`, signal))
+  );
+  if (searched) {
+    return wrapMarket(transformMarketData(searched));
+  }
+
+  // Never fall back to made-up numbers silently; callers can opt into getSimulatedEvent
+  throw new NotFoundError(`No Polymarket event or market found for "${input}"`);
+};
+
+/**
+ * Fetches a single market: the one the URL points at, or the event's best candidate
+ */
+export const getMarketData = async (url: string, signal?: AbortSignal): Promise<MarketData> => {
+  const event = await getEventData(url, signal);
+  return event.markets.find((market) => market.id === event.defaultMarketId) ?? event.markets[0];
+};
+
+const getYesOutcome = (market: MarketData): Outcome | undefined =>
+  market.outcomes.find((outcome) => outcome.name.toLowerCase() === 'yes') ?? market.outcomes[0];
+
+/**
+ * YES price of a binary market, or the leading outcome's price otherwise
+ */
+export const getYesPrice = (market: MarketData): number => getYesOutcome(market)?.price ?? 0;
+
+/**
+ * Builds the MarketData sent to analyzeMarket for a selection of sub-markets.
+ * A single selection is passed through; several are merged into one market whose
+ * outcomes are the selected sub-markets priced at their YES price.
+ */
+export const buildAnalysisTarget = (event: EventData, marketIds: string[]): MarketData => {
+  const selected = event.markets.filter((market) => marketIds.includes(market.id));
+  if (selected.length === 0) {
+    throw new Error("Select at least one market to analyze");
+  }
+  if (selected.length === 1) {
+    return selected[0];
+  }
+
+  const outcomes = selected
+    .map((market) => {
+      const price = getYesPrice(market);
+      return {
+        name: market.groupItemTitle || market.question,
+        probability: price,
+        price,
+        tokenId: getYesOutcome(market)?.tokenId,
+      };
+    })
+    .sort((a, b) => b.probability - a.probability);
+  const volumeNum = selected.reduce((sum, market) => sum + market.volumeNum, 0);
+  const liquidityNum = selected.reduce((sum, market) => sum + (market.liquidityNum ?? 0), 0);
+
+  return {
+    id: `${event.id}:${selected.map((market) => market.id).join(',')}`,
+    question: event.title,
+    description: event.description,
+    outcomes,
+    url: event.url,
+    volume: formatMoney(volumeNum),
+    volumeNum,
+    liquidity: formatMoney(liquidityNum),
+    liquidityNum,
+    endDate: event.endDate,
+    active: selected.some((market) => market.active),
+    provenance: event.provenance,
+    ...combineSettlement(selected),
+    resolutionSource: selected[0].resolutionSource,
+  };
+};
+
+/**
+ * Settlement of several sub-markets analyzed as one. The combination trades while
+ * any leg does, is settled once every leg is, and is won by the leg that paid YES.
+ */
+const combineSettlement = (legs: MarketData[]): MarketSettlement => {
+  if (legs.some((market) => market.status === 'open')) return { status: 'open' };
+  if (!legs.every((market) => market.status === 'resolved')) return { status: 'closed' };
+
+  const winner = legs.find((market) => market.winningOutcome?.toLowerCase() === 'yes');
+  return {
+    status: 'resolved',
+    winningOutcome: winner && (winner.groupItemTitle || winner.question),
+    resolvedAt: legs.map((market) => market.resolvedAt).filter(Boolean).sort().pop(),
+  };
+};
+
+/**
+ * Current settlement of an analysis target, looked up by its MarketData id.
+ * Composite ids (`eventId:marketId,marketId`) are resolved leg by leg.
+ */
+export const getMarketSettlement = async (marketId: string, signal?: AbortSignal): Promise<MarketSettlement> => {
+  const legIds = (marketId.includes(':') ? marketId.slice(marketId.indexOf(':') + 1) : marketId).split(',');
+  const legs = await Promise.all(
+    legIds.map(async (id) => transformMarketData(await fetchWithTimeout(`${BASE_URL}/markets/${id}`, signal)))
+  );
+  if (legs.length === 1) {
+    const [{ status, winningOutcome, resolvedAt }] = legs;
+    return { status, winningOutcome, resolvedAt };
+  }
+  return combineSettlement(legs);
+};
+
+/**
+ * CLOB prices-history parameters per range. Fidelity is the bucket size in minutes.
+ */
+const HISTORY_PARAMS: Record<PriceHistoryRange, { interval: string; fidelity: number }> = {
+  '1h': { interval: '1h', fidelity: 1 },
+  '1d': { interval: '1d', fidelity: 5 },
+  '1w': { interval: '1w', fidelity: 60 },
+  all: { interval: 'max', fidelity: 720 },
+};
+
+/**
+ * Fetch price history for each outcome token from the CLOB.
+ * Outcomes without a token id, or whose request fails, come back with no points.
+ */
+export const getPriceHistory = async (
+  outcomes: Outcome[],
+  range: PriceHistoryRange
+): Promise<OutcomePriceHistory[]> => {
+  const { interval, fidelity } = HISTORY_PARAMS[range];
+
+  return Promise.all(
+    outcomes
+      .filter((outcome) => outcome.tokenId)
+      .map(async (outcome) => {
+        const tokenId = outcome.tokenId!;
+        try {
+          const data = await fetchWithTimeout(
+            `${CLOB_URL}/prices-history?market=${tokenId}&interval=${interval}&fidelity=${fidelity}`
+          );
+          const history = Array.isArray(data?.history) ? data.history : [];
+          return {
+            outcome: outcome.name,
+            tokenId,
+            points: history
+              .map((point: any) => ({ t: Number(point.t) * 1000, p: clampProbability(Number(point.p)) }))
+              .filter((point: { t: number }) => Number.isFinite(point.t)),
+          };
+        } catch (e) {
+          console.warn(`Price history failed for ${outcome.name}`, e);
+          return { outcome: outcome.name, tokenId, points: [] };
+        }
+      })
+  );
+};
+
+const parseBookLevels = (levels: unknown): OrderBookLevel[] =>
+  (Array.isArray(levels) ? levels : [])
+    .map((level: any) => ({ price: Number(level?.price), size: Number(level?.size) }))
+    .filter((level) => Number.isFinite(level.price) && Number.isFinite(level.size) && level.size > 0);
+
+/**
+ * Fetch the CLOB order book for an outcome token
+ */
+export const getOrderBook = async (outcome: Outcome, signal?: AbortSignal): Promise<OrderBook> => {
+  if (!outcome.tokenId) {
+    throw new Error(`Outcome "${outcome.name}" has no CLOB token id`);
+  }
+
+  const data = await fetchWithTimeout(`${CLOB_URL}/book?token_id=${outcome.tokenId}`, signal);
+  const bids = parseBookLevels(data?.bids).sort((a, b) => b.price - a.price);
+  const asks = parseBookLevels(data?.asks).sort((a, b) => a.price - b.price);
+  const bestBid = bids[0]?.price;
+  const bestAsk = asks[0]?.price;
+  const hasBoth = bestBid !== undefined && bestAsk !== undefined;
+
+  return {
+    outcome: outcome.name,
+    tokenId: outcome.tokenId,
+    bids,
+    asks,
+    bestBid,
+    bestAsk,
+    mid: hasBoth ? (bestBid + bestAsk) / 2 : bestAsk ?? bestBid,
+    spread: hasBoth ? bestAsk - bestBid : undefined,
+    timestamp: Number(data?.timestamp) || Date.now(),
+  };
+};
+
+/**
+ * Price of one outcome token pushed by the CLOB market channel
+ */
+export interface PriceTick {
+  tokenId: string;
+  price: number;
+  timestamp: number; // Unix ms
+}
+
+export type PriceStreamStatus = 'connecting' | 'live' | 'reconnecting' | 'closed';
+
+export interface PriceStreamHandlers {
+  onTick: (tick: PriceTick) => void;
+  onStatus?: (status: PriceStreamStatus) => void;
+}
+
+export interface PriceStream {
+  close: () => void;
+}
+
+const WS_URL = FIXTURE_URL
+  ? `${FIXTURE_URL.replace(/^http/, 'ws')}/ws/market`
+  : 'wss://ws-subscriptions-clob.polymarket.com/ws/market';
+const PING_INTERVAL = 10000;
+const RECONNECT_BASE = 1000;
+const RECONNECT_MAX = 30000;
+// Polymarket shows the last trade instead of the midpoint once the spread is this wide
+const WIDE_SPREAD = 0.1;
+
+interface TokenQuote {
+  bestBid?: number;
+  bestAsk?: number;
+  lastTrade?: number;
+  price?: number; // Last price emitted
+}
+
+const quotePrice = (quote: TokenQuote): number | undefined => {
+  const { bestBid, bestAsk, lastTrade } = quote;
+  if (bestBid !== undefined && bestAsk !== undefined) {
+    return bestAsk - bestBid > WIDE_SPREAD && lastTrade !== undefined ? lastTrade : (bestBid + bestAsk) / 2;
+  }
+  return lastTrade ?? bestAsk ?? bestBid;
+};
+
+const finite = (value: unknown): number | undefined => {
+  const num = Number(value);
+  return value !== undefined && value !== null && value !== '' && Number.isFinite(num) ? num : undefined;
+};
+
+const bestLevel = (levels: unknown, pick: (a: number, b: number) => number): number | undefined => {
+  const prices = parseBookLevels(levels).map((level) => level.price);
+  return prices.length > 0 ? prices.reduce((best, price) => pick(best, price)) : undefined;
+};
+
+/**
+ * Folds one market channel event into the quotes, returning the tokens it touched
+ */
+const applyChannelEvent = (quotes: Map<string, TokenQuote>, event: any): string[] => {
+  const quoteFor = (tokenId: unknown) => (typeof tokenId === 'string' ? quotes.get(tokenId) : undefined);
+
+  switch (event?.event_type) {
+    case 'book': {
+      const quote = quoteFor(event.asset_id);
+      if (!quote) return [];
+      quote.bestBid = bestLevel(event.bids ?? event.buys, Math.max);
+      quote.bestAsk = bestLevel(event.asks ?? event.sells, Math.min);
+      return [event.asset_id];
     }
-  } catch (e) {
-     console.log("Search fallback failed...", e);
+    case 'price_change': {
+      // Current format: one entry per asset with the new best bid/ask
+      if (Array.isArray(event.price_changes)) {
+        return event.price_changes.flatMap((change: any) => {
+          const quote = quoteFor(change?.asset_id);
+          if (!quote) return [];
+          quote.bestBid = finite(change.best_bid) ?? quote.bestBid;
+          quote.bestAsk = finite(change.best_ask) ?? quote.bestAsk;
+          return [change.asset_id];
+        });
+      }
+      // Older format: level changes for a single asset, without best prices
+      const quote = quoteFor(event.asset_id);
+      if (!quote || !Array.isArray(event.changes)) return [];
+      for (const change of event.changes) {
+        const price = finite(change?.price);
+        if (price === undefined) continue;
+        const emptied = finite(change?.size) === 0;
+        if (change?.side === 'BUY') {
+          if (!emptied && (quote.bestBid === undefined || price > quote.bestBid)) quote.bestBid = price;
+          else if (emptied && price === quote.bestBid) quote.bestBid = undefined;
+        } else if (change?.side === 'SELL') {
+          if (!emptied && (quote.bestAsk === undefined || price < quote.bestAsk)) quote.bestAsk = price;
+          else if (emptied && price === quote.bestAsk) quote.bestAsk = undefined;
+        }
+      }
+      return [event.asset_id];
+    }
+    case 'last_trade_price': {
+      const quote = quoteFor(event.asset_id);
+      const price = finite(event.price);
+      if (!quote || price === undefined) return [];
+      quote.lastTrade = price;
+      return [event.asset_id];
+    }
+    default:
+      return [];
   }
+};
+
+/**
+ * Streams prices for the given outcome tokens from the CLOB market channel,
+ * reconnecting with exponential backoff until closed. Ticks are only emitted
+ * when a token's displayed price changes.
+ */
+export const subscribeToPrices = (tokenIds: string[], handlers: PriceStreamHandlers): PriceStream => {
+  const quotes = new Map<string, TokenQuote>(tokenIds.map((tokenId) => [tokenId, {}]));
+  let socket: WebSocket | undefined;
+  let pingTimer: ReturnType<typeof setInterval> | undefined;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempt = 0;
+  let closed = false;
+
+  const setStatus = (status: PriceStreamStatus) => handlers.onStatus?.(status);
+
+  const handleMessage = (raw: unknown) => {
+    if (typeof raw !== 'string' || raw === 'PONG') return;
+    let payload: unknown;
+    try {
+      payload = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    attempt = 0;
+    const touched = new Set((Array.isArray(payload) ? payload : [payload]).flatMap((event) => applyChannelEvent(quotes, event)));
+    for (const tokenId of touched) {
+      const quote = quotes.get(tokenId)!;
+      const price = quotePrice(quote);
+      if (price === undefined || !Number.isFinite(price) || price === quote.price) continue;
+      quote.price = price;
+      handlers.onTick({ tokenId, price, timestamp: Date.now() });
+    }
+  };
+
+  const scheduleReconnect = () => {
+    clearInterval(pingTimer);
+    if (closed) return;
+    setStatus('reconnecting');
+    const backoff = Math.min(RECONNECT_MAX, RECONNECT_BASE * 2 ** attempt);
+    attempt += 1;
+    retryTimer = setTimeout(connect, backoff / 2 + Math.random() * (backoff / 2));
+  };
+
+  function connect() {
+    if (closed) return;
+    try {
+      socket = new WebSocket(WS_URL);
+    } catch (error) {
+      console.warn('Price stream failed to connect', error);
+      scheduleReconnect();
+      return;
+    }
+    socket.onopen = () => {
+      socket?.send(JSON.stringify({ assets_ids: tokenIds, type: 'market' }));
+      pingTimer = setInterval(() => socket?.readyState === WebSocket.OPEN && socket.send('PING'), PING_INTERVAL);
+      setStatus('live');
+    };
+    socket.onmessage = (message) => handleMessage(message.data);
+    socket.onclose = scheduleReconnect;
+  }
+
+  setStatus('connecting');
+  connect();
+
+  return {
+    close: () => {
+      if (closed) return;
+      closed = true;
+      clearTimeout(retryTimer);
+      clearInterval(pingTimer);
+      socket?.close();
+      setStatus('closed');
+    },
+  };
+};
 
-  // 5. Mock Data Fallback
-  console.warn("All API methods failed. Returning mock data.");
-  return getMockData(url, slug);
+/**
+ * Copy of the market with one outcome token's price replaced. Outcome order is kept,
+ * so live ticks don't reshuffle the card.
+ */
+export const applyPriceTick = (market: MarketData, tick: PriceTick): MarketData => {
+  if (!market.outcomes.some((outcome) => outcome.tokenId === tick.tokenId && outcome.price !== tick.price)) {
+    return market;
+  }
+  return {
+    ...market,
+    outcomes: market.outcomes.map((outcome) =>
+      outcome.tokenId === tick.tokenId ? { ...outcome, price: tick.price, probability: tick.price } : outcome
+    ),
+  };
+};
+
+/**
+ * Copy of the event with the tick applied to the child market that trades the token,
+ * so targets rebuilt from the event keep live prices
+ */
+export const applyEventPriceTick = (event: EventData, tick: PriceTick): EventData => {
+  const markets = event.markets.map((market) => applyPriceTick(market, tick));
+  return markets.some((market, idx) => market !== event.markets[idx]) ? { ...event, markets } : event;
 };
 
-const fetchWithTimeout = async (url: string, timeout = 12000) => {
+/**
+ * Single GET with timeout, mapping failures to typed ServiceErrors
+ */
+const fetchOnce = async (url: string, timeout: number, signal: AbortSignal) => {
   const controller = new AbortController();
   const id = setTimeout(() => controller.abort(), timeout);
+  const onAbort = () => controller.abort();
+  signal.addEventListener('abort', onAbort, { once: true });
+  let response: Response;
   try {
-    const response = await fetch(url, { signal: controller.signal });
-    clearTimeout(id);
-    if (!response.ok) throw new Error(`HTTP ${response.status}`);
-    return await response.json();
+    response = await fetch(url, { signal: controller.signal });
   } catch (e) {
+    throw toNetworkError(e, url, signal);
+  } finally {
     clearTimeout(id);
-    throw e;
+    signal.removeEventListener('abort', onAbort);
+  }
+
+  if (response.status === 404) {
+    throw new NotFoundError(`Not found: ${url}`, 404);
+  }
+  if (response.status === 429) {
+    throw new RateLimitError('Polymarket rate limit reached', parseRetryAfter(response.headers.get('retry-after')));
+  }
+  if (!response.ok) {
+    throw new UpstreamError(`HTTP ${response.status} from ${new URL(url).host}`, response.status);
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new MalformedResponseError(`Invalid JSON from ${new URL(url).host}`);
   }
 };
 
+/**
+ * GETs are idempotent, so network failures, timeouts, 5xx and short
+ * rate limits are retried with backoff before surfacing.
+ * Responses are served through the request cache (TTL + stale-while-revalidate).
+ */
+const fetchWithTimeout = (url: string, signal?: AbortSignal, timeout = 12000): Promise<any> =>
+  cachedFetch(
+    url,
+    (loadSignal) => withRetry(() => fetchOnce(url, timeout, loadSignal), { retries: 2, baseDelayMs: 400, signal: loadSignal }),
+    signal
+  );
+
 /**
  * Transform Event API response
  */
-const transformEventData = (event: any, targetId?: string): MarketData => {
-  const markets = Array.isArray(event.markets) ? event.markets : [];
-  const selectedMarket = selectMarket(markets, targetId);
+const transformEventData = (event: any, targetId?: string): EventData => {
+  const rawMarkets = Array.isArray(event.markets) ? event.markets : [];
+  const selectedMarket = selectMarket(rawMarkets, targetId);
 
   if (!selectedMarket) {
-    throw new Error("Event returned no markets to evaluate");
+    throw new MalformedResponseError("Event returned no markets to evaluate");
   }
 
-  const outcomes = buildOutcomes(selectedMarket);
-  const volumeNum = Number(selectedMarket.volumeNum ?? selectedMarket.volume ?? 0);
-  const liquidityNum = Number(selectedMarket.liquidityNum ?? selectedMarket.liquidity ?? 0);
+  const url = `https://polymarket.com/event/${event.slug}`;
+  const markets: MarketData[] = rawMarkets.map((market: any) => ({
+    ...transformMarketData(market),
+    question: market.question || event.title,
+    description: market.description || event.description,
+    url,
+    endDate: market.endDate ?? event.endDate,
+    resolutionSource: market.resolutionSource || event.resolutionSource || undefined,
+  }));
+
+  // Open markets first, then by YES price so the likeliest candidates lead
+  const isOpen = (market: MarketData) => Number(market.status === 'open');
+  markets.sort((a, b) => isOpen(b) - isOpen(a) || getYesPrice(b) - getYesPrice(a));
+
+  const volumeNum = Number(event.volume ?? 0) || markets.reduce((sum, market) => sum + market.volumeNum, 0);
+  const liquidityNum =
+    Number(event.liquidity ?? 0) ||
+    rawMarkets.reduce((sum: number, market: any) => sum + Number(market.liquidityNum ?? market.liquidity ?? 0), 0);
 
   return {
-    id: selectedMarket.id,
-    question: event.title || selectedMarket.question,
+    id: String(event.id),
+    slug: event.slug,
+    title: event.title || selectedMarket.question,
     description: event.description || selectedMarket.description,
-    outcomes,
-    url: `https://polymarket.com/event/${event.slug}`,
+    url,
     volume: formatMoney(volumeNum),
     volumeNum,
     liquidity: formatMoney(liquidityNum),
-    endDate: selectedMarket.endDate ?? event.endDate,
-    active: Boolean(selectedMarket.active ?? event.active),
-    groupItemTitle: selectedMarket.groupItemTitle,
+    endDate: event.endDate ?? selectedMarket.endDate,
+    active: Boolean(event.active ?? selectedMarket.active),
+    negRisk: Boolean(event.negRisk ?? event.enableNegRisk),
+    markets,
+    defaultMarketId: String(selectedMarket.id),
+    provenance: SOURCE_PROVENANCE,
   };
 };
 
+/**
+ * Wraps a standalone market in a single-market event
+ */
+const wrapMarket = (market: MarketData): EventData => ({
+  id: market.id,
+  slug: market.url.split('/').pop() || market.id,
+  title: market.question,
+  description: market.description,
+  url: market.url,
+  volume: market.volume,
+  volumeNum: market.volumeNum,
+  liquidity: market.liquidity,
+  endDate: market.endDate,
+  active: market.active,
+  markets: [market],
+  defaultMarketId: market.id,
+  provenance: market.provenance,
+});
+
 /**
  * Transform Market API response
  */
@@ -278,7 +1006,7 @@ const transformMarketData = (market: any): MarketData => {
   const liquidityNum = Number(market.liquidityNum ?? market.liquidity ?? 0);
 
   return {
-    id: market.id,
+    id: String(market.id),
     question: market.question || market.title,
     description: market.description || market.resolution || market.resolutionRules,
     outcomes,
@@ -286,12 +1014,24 @@ const transformMarketData = (market: any): MarketData => {
     volume: formatMoney(volumeNum),
     volumeNum,
     liquidity: formatMoney(liquidityNum),
+    liquidityNum,
     endDate: market.endDate,
     active: Boolean(market.active),
     groupItemTitle: market.groupItemTitle,
+    provenance: SOURCE_PROVENANCE,
+    ...deriveSettlement(market, outcomes),
   };
 };
 
+/**
+ * Explicitly requested simulated event, e.g. for demos while offline.
+ * Always tagged with provenance 'simulated'.
+ */
+export const getSimulatedEvent = (input: string): EventData => {
+  const url = input.startsWith('http') ? input : `https://polymarket.com/event/${input}`;
+  return wrapMarket(getMockData(url, parsePolymarketUrl(input).slug));
+};
+
 /**
  * Mock Data Generator
  */
@@ -317,15 +1057,18 @@ const getMockData = (url: string, slug: string): MarketData => {
       ];
 
   return {
-    id: "mock-" + Math.random(),
+    id: `mock-${slug}`,
     question,
-    description: "This is a simulated market data response because the API connection failed.",
+    description: "This is simulated market data. The odds, volume and liquidity are made up.",
     outcomes,
     url,
     volume: "$1.2m",
     volumeNum: 1200000,
     liquidity: "$150k",
+    liquidityNum: 150000,
     endDate: "2024-12-31",
-    active: true
+    active: true,
+    provenance: 'simulated',
+    status: 'open',
   };
 };
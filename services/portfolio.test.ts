@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { EventData, MarketData } from '../types';
+import { getEventData } from './polymarketService';
+import { importPositionsCsv, markPositions, parseCsv, Position, positionFor, summarizeExposure } from './portfolio';
+
+vi.mock('./polymarketService', () => ({ getEventData: vi.fn() }));
+
+// Positions are written to IndexedDB; the tests only need the writes to succeed
+vi.mock('./db', () => ({
+  POSITIONS_STORE: 'positions',
+  openDb: async () => ({ transaction: () => ({ objectStore: () => ({ put: () => ({}) }) }) }),
+  promisify: async () => undefined,
+}));
+
+const market = (id: string, yes: number, overrides: Partial<MarketData> = {}): MarketData => ({
+  id,
+  question: `Will ${id} win?`,
+  groupItemTitle: id,
+  outcomes: [
+    { name: 'Yes', probability: yes, price: yes },
+    { name: 'No', probability: 1 - yes, price: 1 - yes },
+  ],
+  url: `https://polymarket.com/event/race?tid=${id}`,
+  volume: '$0',
+  volumeNum: 0,
+  liquidity: '$0',
+  active: true,
+  provenance: 'live',
+  status: 'open',
+  ...overrides,
+});
+
+const event = (markets: MarketData[], negRisk = true): EventData => ({
+  id: 'race',
+  slug: 'race',
+  title: 'Who wins the race?',
+  url: 'https://polymarket.com/event/race',
+  volume: '$0',
+  volumeNum: 0,
+  liquidity: '$0',
+  active: true,
+  negRisk,
+  markets,
+  defaultMarketId: markets[0].id,
+  provenance: 'live',
+});
+
+const position = (data: EventData, marketId: string, outcome: string, shares: number, avgPrice: number): Position => ({
+  ...positionFor(data, data.markets.find((m) => m.id === marketId)!, outcome, shares, avgPrice),
+  id: `${marketId}:${outcome}`,
+  openedAt: 0,
+});
+
+describe('parseCsv', () => {
+  it('reads quoted commas, newlines and escaped quotes', () => {
+    const rows = parseCsv('url,market\r\n"a,b","say ""hi""\nagain"\r\n');
+    expect(rows.map((row) => row.cells)).toEqual([
+      ['url', 'market'],
+      ['a,b', 'say "hi"\nagain'],
+    ]);
+  });
+
+  it('keeps the source line of each row across blank and multi-line rows', () => {
+    const rows = parseCsv('header\n\n"two\nlines"\n\n  \nlast');
+    expect(rows.map((row) => row.line)).toEqual([1, 3, 7]);
+  });
+});
+
+describe('importPositionsCsv', () => {
+  beforeEach(() => {
+    vi.mocked(getEventData).mockReset();
+  });
+
+  it('reports errors on the line they appear in', async () => {
+    vi.mocked(getEventData).mockResolvedValue(event([market('a', 0.6), market('b', 0.4)]));
+    const csv = [
+      'url,market,outcome,shares,avg_price',
+      '',
+      'https://polymarket.com/event/race,a,Yes,10,0.5',
+      '',
+      'https://polymarket.com/event/race,b,Maybe,10,0.5',
+      'https://polymarket.com/event/race,c,Yes,10,0.5',
+      'https://polymarket.com/event/race,a,No,-1,0.5',
+    ].join('\n');
+
+    const result = await importPositionsCsv(csv);
+    expect(result.added.map((p) => `${p.marketId}:${p.outcome}`)).toEqual(['a:Yes']);
+    expect(result.errors).toEqual([
+      { line: 5, message: 'No outcome "Maybe"; expected one of Yes, No' },
+      { line: 6, message: 'No market "c" in Who wins the race?' },
+      { line: 7, message: 'Invalid shares "-1"' },
+    ]);
+  });
+
+  it('names missing columns', async () => {
+    const result = await importPositionsCsv('\nurl,shares\n');
+    expect(result.errors).toEqual([{ line: 2, message: 'Missing column(s): outcome, avgPrice' }]);
+  });
+});
+
+describe('summarizeExposure', () => {
+  const exposure = async (data: EventData, positions: Position[]) => {
+    vi.mocked(getEventData).mockResolvedValue(data);
+    return summarizeExposure(await markPositions(positions))[0];
+  };
+
+  it('takes negRisk scenarios over which market wins', async () => {
+    const race = event([market('a', 0.3), market('b', 0.2), market('c', 0.5)]);
+    const result = await exposure(race, [position(race, 'a', 'Yes', 10, 0.3), position(race, 'b', 'Yes', 10, 0.2)]);
+    expect(result.cost).toBeCloseTo(5);
+    expect(result.value).toBeCloseTo(5);
+    expect(result.bestCase).toBeCloseTo(5); // One of a or b wins
+    expect(result.worstCase).toBeCloseTo(-5); // c wins
+  });
+
+  it('counts NO positions as paying in every market that loses', async () => {
+    const race = event([market('a', 0.3), market('b', 0.2), market('c', 0.5)]);
+    const result = await exposure(race, [position(race, 'a', 'No', 10, 0.7), position(race, 'b', 'No', 10, 0.8)]);
+    expect(result.bestCase).toBeCloseTo(5); // c wins: both NOs pay
+    expect(result.worstCase).toBeCloseTo(-5); // a or b wins: one NO pays
+  });
+
+  it('only counts the market that already resolved YES', async () => {
+    const race = event([
+      market('a', 1, { status: 'resolved', winningOutcome: 'Yes' }),
+      market('b', 0, { status: 'resolved', winningOutcome: 'No' }),
+    ]);
+    const result = await exposure(race, [position(race, 'a', 'Yes', 10, 0.3), position(race, 'b', 'Yes', 10, 0.2)]);
+    expect(result.bestCase).toBeCloseTo(5);
+    expect(result.worstCase).toBeCloseTo(5);
+  });
+
+  it('sums independent markets', async () => {
+    const pair = event([market('a', 0.5), market('b', 0.5)], false);
+    const result = await exposure(pair, [position(pair, 'a', 'Yes', 10, 0.5), position(pair, 'b', 'Yes', 10, 0.5)]);
+    expect(result.bestCase).toBeCloseTo(10);
+    expect(result.worstCase).toBeCloseTo(-10);
+  });
+
+  it('leaves value unset when the event cannot be loaded', async () => {
+    const race = event([market('a', 0.3), market('b', 0.7)]);
+    vi.mocked(getEventData).mockRejectedValue(new Error('offline'));
+    const [result] = summarizeExposure(await markPositions([position(race, 'a', 'Yes', 10, 0.3)]));
+    expect(result.value).toBeUndefined();
+    expect(result.bestCase).toBeCloseTo(7);
+    expect(result.worstCase).toBeCloseTo(-3);
+  });
+});
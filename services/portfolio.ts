@@ -0,0 +1,355 @@
+import { EventData, MarketData } from '../types';
+import { AbortedError } from './errors';
+import { openDb, POSITIONS_STORE as STORE, promisify } from './db';
+import { getEventData } from './polymarketService';
+
+const MARK_CONCURRENCY = 4;
+
+/**
+ * A holding of one outcome's shares, entered by hand or imported from CSV
+ */
+export interface Position {
+  id: string;
+  eventUrl: string; // Event URL accepted by getEventData
+  eventId: string;
+  eventTitle: string;
+  marketId: string;
+  question: string; // Sub-market title for multi-market events, the market question otherwise
+  outcome: string; // Matches Outcome.name
+  shares: number;
+  avgPrice: number; // Average entry price per share, 0 to 1
+  openedAt: number; // Unix ms
+}
+
+export type PositionInput = Omit<Position, 'id' | 'openedAt'>;
+
+/**
+ * A position valued at the current outcome price
+ */
+export interface PositionMark {
+  position: Position;
+  event?: EventData; // Missing when the event could not be loaded
+  market?: MarketData; // Missing when the market could not be loaded
+  price?: number; // Current outcome price; 1 or 0 once the market has resolved
+  cost: number; // shares * avgPrice
+  value?: number; // shares * price
+  unrealized?: number; // value - cost
+  ifWins: number; // Profit if the outcome resolves YES
+  ifLoses: number; // Profit if it resolves NO
+  error?: unknown;
+}
+
+/**
+ * Totals for every position in one event. Best and worst case are the payoff at
+ * resolution, taken per market over which outcome wins and summed across markets.
+ * In negRisk events only one market can resolve YES, so the scenarios are which market wins.
+ */
+export interface EventExposure {
+  eventId: string;
+  eventTitle: string;
+  eventUrl: string;
+  positions: number;
+  cost: number;
+  value?: number; // Undefined while any of the event's markets could not be priced
+  unrealized?: number;
+  bestCase: number;
+  worstCase: number;
+}
+
+export interface CsvImportResult {
+  added: Position[];
+  errors: Array<{ line: number; message: string }>;
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * URL that opens this position's market in the analyze view
+ */
+export const positionUrl = (position: Position): string =>
+  position.eventId === position.marketId ? position.eventUrl : `${position.eventUrl}?tid=${position.marketId}`;
+
+/**
+ * Every stored position, oldest first
+ */
+export const listPositions = async (): Promise<Position[]> => {
+  const db = await openDb();
+  const positions = await promisify(db.transaction(STORE, 'readonly').objectStore(STORE).getAll());
+  return (positions as Position[]).sort((a, b) => a.openedAt - b.openedAt);
+};
+
+export const savePosition = async (input: PositionInput | Position): Promise<Position> => {
+  const position: Position =
+    'id' in input
+      ? input
+      : { ...input, id: `${input.marketId}:${Date.now()}:${Math.random().toString(36).slice(2, 8)}`, openedAt: Date.now() };
+  const db = await openDb();
+  await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).put(position));
+  return position;
+};
+
+export const deletePosition = async (id: string): Promise<void> => {
+  const db = await openDb();
+  await promisify(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(id));
+};
+
+/**
+ * Builds a position for one outcome of a loaded event
+ */
+export const positionFor = (
+  event: EventData,
+  market: MarketData,
+  outcome: string,
+  shares: number,
+  avgPrice: number
+): PositionInput => ({
+  eventUrl: event.url,
+  eventId: event.id,
+  eventTitle: event.title,
+  marketId: market.id,
+  question: market.groupItemTitle || market.question,
+  outcome,
+  shares,
+  avgPrice,
+});
+
+export interface CsvRow {
+  line: number; // 1-based line the row starts on
+  cells: string[];
+}
+
+/**
+ * Minimal RFC 4180 parser: comma separated, double-quoted fields may contain
+ * commas, newlines and "" escapes. Blank rows are dropped; the others keep
+ * their line number in the file.
+ */
+export const parseCsv = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line += 1;
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i += 1;
+        line += 1;
+      }
+      row.push(field);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = '';
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push({ line: rowLine, cells: row });
+  }
+  return rows.filter(({ cells }) => cells.some((cell) => cell.trim()));
+};
+
+const CSV_COLUMNS: Record<string, 'url' | 'market' | 'outcome' | 'shares' | 'avgPrice'> = {
+  url: 'url',
+  event: 'url',
+  market: 'market',
+  outcome: 'outcome',
+  shares: 'shares',
+  size: 'shares',
+  avg_price: 'avgPrice',
+  avgprice: 'avgPrice',
+  price: 'avgPrice',
+};
+
+/**
+ * Imports positions from CSV with a header row. Columns: url, outcome, shares,
+ * avg_price, and optionally market (sub-market title or id, for multi-market
+ * events). Rows that fail are reported by line and the rest are still saved.
+ */
+export const importPositionsCsv = async (text: string, signal?: AbortSignal): Promise<CsvImportResult> => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { added: [], errors: [{ line: 1, message: 'The file is empty' }] };
+
+  const columns = header.cells.map((name) => CSV_COLUMNS[normalizeName(name)]);
+  const missing = (['url', 'outcome', 'shares', 'avgPrice'] as const).filter((col) => !columns.includes(col));
+  if (missing.length) {
+    return { added: [], errors: [{ line: header.line, message: `Missing column(s): ${missing.join(', ')}` }] };
+  }
+
+  const result: CsvImportResult = { added: [], errors: [] };
+  for (const { line, cells } of rows) {
+    const get = (col: string) => cells[columns.indexOf(col as never)]?.trim() ?? '';
+    try {
+      const shares = Number(get('shares'));
+      const avgPrice = Number(get('avgPrice'));
+      if (!(shares > 0)) throw new Error(`Invalid shares "${get('shares')}"`);
+      if (!(avgPrice >= 0 && avgPrice <= 1)) throw new Error(`Price must be between 0 and 1, got "${get('avgPrice')}"`);
+
+      const event = await getEventData(get('url'), signal);
+      const marketKey = normalizeName(get('market'));
+      const market = marketKey
+        ? event.markets.find(
+            (m) => m.id === marketKey || normalizeName(m.groupItemTitle || '') === marketKey || normalizeName(m.question) === marketKey
+          )
+        : event.markets.find((m) => m.id === event.defaultMarketId);
+      if (!market) throw new Error(`No market "${get('market')}" in ${event.title}`);
+
+      const outcome = market.outcomes.find((o) => normalizeName(o.name) === normalizeName(get('outcome')));
+      if (!outcome) {
+        throw new Error(`No outcome "${get('outcome')}"; expected one of ${market.outcomes.map((o) => o.name).join(', ')}`);
+      }
+
+      result.added.push(await savePosition(positionFor(event, market, outcome.name, shares, avgPrice)));
+    } catch (e) {
+      if (e instanceof AbortedError) throw e;
+      result.errors.push({ line, message: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return result;
+};
+
+/**
+ * Current price of a position's outcome, settling to 1/0 once the market resolves
+ */
+const currentPrice = (market: MarketData, outcome: string): number | undefined => {
+  if (market.status === 'resolved' && market.winningOutcome) {
+    return normalizeName(market.winningOutcome) === normalizeName(outcome) ? 1 : 0;
+  }
+  return market.outcomes.find((o) => normalizeName(o.name) === normalizeName(outcome))?.price;
+};
+
+/**
+ * Values positions at live outcome prices. Each event is fetched once; events
+ * that fail leave their positions unpriced rather than failing the whole mark.
+ */
+export const markPositions = async (positions: Position[], signal?: AbortSignal): Promise<PositionMark[]> => {
+  const eventUrls = Array.from(new Set(positions.map((position) => position.eventUrl)));
+  const events = new Map<string, EventData>();
+  const failures = new Map<string, unknown>();
+  let next = 0;
+  const worker = async () => {
+    while (next < eventUrls.length) {
+      const url = eventUrls[next++];
+      try {
+        events.set(url, await getEventData(url, signal));
+      } catch (e) {
+        if (e instanceof AbortedError) throw e;
+        failures.set(url, e);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(MARK_CONCURRENCY, eventUrls.length) }, worker));
+
+  return positions.map((position) => {
+    const cost = position.shares * position.avgPrice;
+    const base = { position, cost, ifWins: position.shares - cost, ifLoses: -cost };
+    const event = events.get(position.eventUrl);
+    if (!event) return { ...base, error: failures.get(position.eventUrl) };
+
+    const market = event.markets.find((m) => m.id === position.marketId);
+    const price = market && currentPrice(market, position.outcome);
+    if (!market || price === undefined) {
+      return { ...base, event, market, error: new Error('Market or outcome no longer listed') };
+    }
+    const value = position.shares * price;
+    return { ...base, event, market, price, value, unrealized: value - cost };
+  });
+};
+
+/**
+ * Profit of the positions in one market under each outcome that could win,
+ * plus "none of the held outcomes" unless every outcome is held
+ */
+const marketScenarios = (marks: PositionMark[]): number[] => {
+  const cost = marks.reduce((sum, mark) => sum + mark.cost, 0);
+  const held = Array.from(new Set(marks.map((mark) => normalizeName(mark.position.outcome))));
+  const market = marks[0].market;
+  const winner = market?.status === 'resolved' && market.winningOutcome ? normalizeName(market.winningOutcome) : undefined;
+
+  const payoutIf = (outcome: string) =>
+    marks.filter((mark) => normalizeName(mark.position.outcome) === outcome).reduce((sum, mark) => sum + mark.position.shares, 0);
+
+  if (winner !== undefined) return [payoutIf(winner) - cost];
+  const coversAll = market ? market.outcomes.every((o) => held.includes(normalizeName(o.name))) : false;
+  return [...held.map((outcome) => payoutIf(outcome) - cost), ...(coversAll ? [] : [-cost])];
+};
+
+/**
+ * Profit of a negRisk event's positions under each market that could win, plus
+ * "a market with no positions wins" when there is one. Markets already resolved NO drop out.
+ */
+const negRiskScenarios = (event: EventData, marks: PositionMark[]): number[] => {
+  const cost = marks.reduce((sum, mark) => sum + mark.cost, 0);
+  const payoutIf = (winnerId: string | undefined) =>
+    marks.reduce((sum, mark) => {
+      const side = mark.position.marketId === winnerId ? 'yes' : 'no';
+      return sum + (normalizeName(mark.position.outcome) === side ? mark.position.shares : 0);
+    }, 0);
+
+  const resolvedYes = (market: MarketData) =>
+    market.status === 'resolved' && normalizeName(market.winningOutcome ?? '') === 'yes';
+  const settled = event.markets.find(resolvedYes);
+  const candidates = settled
+    ? [settled]
+    : event.markets.filter((market) => !(market.status === 'resolved' && market.winningOutcome));
+  const held = new Set(marks.map((mark) => mark.position.marketId));
+
+  const winners: Array<string | undefined> = candidates.filter((market) => held.has(market.id)).map((market) => market.id);
+  if (candidates.some((market) => !held.has(market.id))) winners.push(undefined);
+  return (winners.length > 0 ? winners : [undefined]).map((winnerId) => payoutIf(winnerId) - cost);
+};
+
+/**
+ * Groups marks by event with cost, value, unrealized P&L and payoff range at resolution
+ */
+export const summarizeExposure = (marks: PositionMark[]): EventExposure[] => {
+  const byEvent = new Map<string, PositionMark[]>();
+  marks.forEach((mark) => byEvent.set(mark.position.eventId, [...(byEvent.get(mark.position.eventId) ?? []), mark]));
+
+  return Array.from(byEvent.values()).map((eventMarks) => {
+    const { eventId, eventTitle, eventUrl } = eventMarks[0].position;
+    const byMarket = new Map<string, PositionMark[]>();
+    eventMarks.forEach((mark) => byMarket.set(mark.position.marketId, [...(byMarket.get(mark.position.marketId) ?? []), mark]));
+    const event = eventMarks.find((mark) => mark.event)?.event;
+    // Mutually exclusive markets are one set of scenarios; independent ones are summed per market
+    const scenarios =
+      event?.negRisk && event.markets.length > 1
+        ? [negRiskScenarios(event, eventMarks)]
+        : Array.from(byMarket.values()).map(marketScenarios);
+
+    const priced = eventMarks.every((mark) => mark.value !== undefined);
+    const cost = eventMarks.reduce((sum, mark) => sum + mark.cost, 0);
+    const value = priced ? eventMarks.reduce((sum, mark) => sum + mark.value!, 0) : undefined;
+    return {
+      eventId,
+      eventTitle,
+      eventUrl,
+      positions: eventMarks.length,
+      cost,
+      value,
+      unrealized: value === undefined ? undefined : value - cost,
+      bestCase: scenarios.reduce((sum, s) => sum + Math.max(...s), 0),
+      worstCase: scenarios.reduce((sum, s) => sum + Math.min(...s), 0),
+    };
+  });
+};
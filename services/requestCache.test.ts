@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AbortedError } from './errors';
+import { cachedFetch, clearCache, getCacheStats } from './requestCache';
+
+/**
+ * A load that settles when the test says so, recording the signal it was given
+ */
+const deferredLoad = <T>() => {
+  const calls: AbortSignal[] = [];
+  let resolve!: (value: T) => void;
+  const load = vi.fn((signal: AbortSignal) => {
+    calls.push(signal);
+    return new Promise<T>((res, rej) => {
+      resolve = res;
+      signal.addEventListener('abort', () => rej(new AbortedError()));
+    });
+  });
+  return { load, calls, resolve: (value: T) => resolve(value) };
+};
+
+describe('cachedFetch', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    clearCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves fresh entries without loading again', async () => {
+    const load = vi.fn(async () => 'event');
+    await expect(cachedFetch('https://gamma/events/slug/a', load)).resolves.toBe('event');
+    await expect(cachedFetch('https://gamma/events/slug/a', load)).resolves.toBe('event');
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(getCacheStats().byRule.events).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  it('serves stale entries while revalidating in the background', async () => {
+    const load = vi.fn(async () => `book ${load.mock.calls.length}`);
+    await cachedFetch('https://clob/book?token_id=1', load);
+    vi.setSystemTime(Date.now() + 6_000);
+
+    await expect(cachedFetch('https://clob/book?token_id=1', load)).resolves.toBe('book 1');
+    expect(load).toHaveBeenCalledTimes(2);
+    await vi.waitFor(() => expect(getCacheStats().inFlight).toBe(0));
+    await expect(cachedFetch('https://clob/book?token_id=1', load)).resolves.toBe('book 2');
+  });
+
+  it('shares one load between concurrent callers', async () => {
+    const { load, resolve } = deferredLoad<string>();
+    const first = cachedFetch('https://gamma/markets/1', load);
+    const second = cachedFetch('https://gamma/markets/1', load);
+    resolve('market');
+    await expect(Promise.all([first, second])).resolves.toEqual(['market', 'market']);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(getCacheStats().byRule.markets.deduped).toBe(1);
+  });
+
+  it('keeps loading while another caller still waits', async () => {
+    const { load, calls, resolve } = deferredLoad<string>();
+    const controller = new AbortController();
+    const cancelled = cachedFetch('https://gamma/markets/2', load, controller.signal);
+    const kept = cachedFetch('https://gamma/markets/2', load, new AbortController().signal);
+
+    controller.abort();
+    await expect(cancelled).rejects.toBeInstanceOf(AbortedError);
+    expect(calls[0].aborted).toBe(false);
+    resolve('market');
+    await expect(kept).resolves.toBe('market');
+  });
+
+  it('starts a fresh load once the last caller has cancelled', async () => {
+    const first = deferredLoad<string>();
+    const second = deferredLoad<string>();
+    const controller = new AbortController();
+    const cancelled = cachedFetch('https://gamma/markets/3', first.load, controller.signal);
+    controller.abort();
+    // Same tick as the abort, before the old load has settled
+    const retry = cachedFetch('https://gamma/markets/3', second.load);
+
+    await expect(cancelled).rejects.toBeInstanceOf(AbortedError);
+    expect(first.calls[0].aborted).toBe(true);
+    second.resolve('market');
+    await expect(retry).resolves.toBe('market');
+    expect(getCacheStats().inFlight).toBe(0);
+  });
+
+  it('rejects at once for an already aborted signal', async () => {
+    const load = vi.fn(async () => 'unused');
+    await expect(cachedFetch('https://gamma/markets/4', load, AbortSignal.abort())).rejects.toBeInstanceOf(AbortedError);
+    expect(load).not.toHaveBeenCalled();
+  });
+});
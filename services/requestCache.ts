@@ -0,0 +1,243 @@
+/**
+ * Response cache for polymarketService GETs.
+ *
+ * - Per-endpoint TTLs, with a stale window served while revalidating in the background
+ * - Concurrent requests for the same URL share one in-flight fetch, which is
+ *   only aborted once every caller waiting on it has aborted
+ * - Selected endpoints persist to localStorage so reloads start warm
+ * - Hit/miss counters for the debug panel
+ */
+
+import { AbortedError, throwIfAborted } from './errors';
+
+interface CacheRule {
+  name: string;
+  match: RegExp;
+  ttlMs: number; // Served as fresh while younger than this
+  staleMs: number; // Then served stale (and revalidated) for this much longer
+  persist: boolean;
+}
+
+const SECOND = 1_000;
+const MINUTE = 60 * SECOND;
+
+// First match wins
+const RULES: CacheRule[] = [
+  { name: 'order book', match: /\/book\?/, ttlMs: 5 * SECOND, staleMs: 10 * SECOND, persist: false },
+  { name: 'price history', match: /\/prices-history\?/, ttlMs: 1 * MINUTE, staleMs: 5 * MINUTE, persist: true },
+  { name: 'search', match: /\/public-search\?/, ttlMs: 1 * MINUTE, staleMs: 5 * MINUTE, persist: false },
+  { name: 'discovery', match: /\/events\?.*order=/, ttlMs: 5 * MINUTE, staleMs: 30 * MINUTE, persist: true },
+  { name: 'events', match: /\/events[?/]/, ttlMs: 30 * SECOND, staleMs: 5 * MINUTE, persist: true },
+  { name: 'markets', match: /\/markets[?/]/, ttlMs: 30 * SECOND, staleMs: 5 * MINUTE, persist: true },
+  { name: 'default', match: /./, ttlMs: 15 * SECOND, staleMs: 1 * MINUTE, persist: false },
+];
+
+const STORAGE_PREFIX = 'edge-cache:';
+const MAX_PERSISTED_BYTES = 250_000;
+
+interface CacheEntry {
+  data: unknown;
+  storedAt: number;
+}
+
+export interface RuleStats {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  deduped: number;
+  revalidations: number;
+  errors: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  inFlight: number;
+  byRule: Record<string, RuleStats>;
+}
+
+interface InFlightLoad {
+  url: string;
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, InFlightLoad>();
+const stats: Record<string, RuleStats> = {};
+const listeners = new Set<() => void>();
+
+const storage = (): Storage | undefined => {
+  try {
+    return typeof localStorage === 'undefined' ? undefined : localStorage;
+  } catch {
+    return undefined;
+  }
+};
+
+const ruleFor = (url: string) => RULES.find((rule) => rule.match.test(url))!;
+
+const bump = (rule: CacheRule, field: keyof RuleStats) => {
+  stats[rule.name] ??= { hits: 0, staleHits: 0, misses: 0, deduped: 0, revalidations: 0, errors: 0 };
+  stats[rule.name][field] += 1;
+  listeners.forEach((listener) => listener());
+};
+
+const readEntry = (url: string, rule: CacheRule): CacheEntry | undefined => {
+  const cached = entries.get(url);
+  if (cached || !rule.persist) return cached;
+
+  const raw = storage()?.getItem(STORAGE_PREFIX + url);
+  if (!raw) return undefined;
+  try {
+    const restored = JSON.parse(raw) as CacheEntry;
+    entries.set(url, restored);
+    return restored;
+  } catch {
+    storage()?.removeItem(STORAGE_PREFIX + url);
+    return undefined;
+  }
+};
+
+const writeEntry = (url: string, rule: CacheRule, data: unknown) => {
+  const entry = { data, storedAt: Date.now() };
+  entries.set(url, entry);
+  if (!rule.persist) return;
+
+  try {
+    const serialized = JSON.stringify(entry);
+    if (serialized.length <= MAX_PERSISTED_BYTES) {
+      storage()?.setItem(STORAGE_PREFIX + url, serialized);
+    }
+  } catch {
+    // Quota exceeded: the in-memory entry still works
+  }
+};
+
+/**
+ * Runs `load` at most once at a time per URL and stores the result
+ */
+const loadShared = (url: string, rule: CacheRule, load: (signal: AbortSignal) => Promise<unknown>): InFlightLoad => {
+  const pending = inFlight.get(url);
+  // An aborted load is on its way out; joining it would only reject with AbortedError
+  if (pending && !pending.controller.signal.aborted) {
+    bump(rule, 'deduped');
+    return pending;
+  }
+
+  const controller = new AbortController();
+  const shared: InFlightLoad = { url, controller, waiters: 0, promise: Promise.resolve() };
+  shared.promise = load(controller.signal)
+    .then((data) => {
+      writeEntry(url, rule, data);
+      return data;
+    })
+    .catch((err) => {
+      if (!controller.signal.aborted) bump(rule, 'errors');
+      throw err;
+    })
+    .finally(() => {
+      if (inFlight.get(url) === shared) inFlight.delete(url);
+      listeners.forEach((listener) => listener());
+    });
+
+  inFlight.set(url, shared);
+  return shared;
+};
+
+/**
+ * Waits on a shared load on behalf of one caller. When the caller's signal
+ * aborts, it stops waiting; the load itself is aborted only if no one else is.
+ */
+const waitFor = <T>(shared: InFlightLoad, signal?: AbortSignal): Promise<T> => {
+  throwIfAborted(signal);
+  shared.waiters += 1;
+  if (!signal) {
+    return shared.promise as Promise<T>;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      shared.waiters -= 1;
+      if (shared.waiters === 0) {
+        // Forget it now so the next request for the URL starts a fresh load
+        if (inFlight.get(shared.url) === shared) inFlight.delete(shared.url);
+        shared.controller.abort();
+      }
+      reject(new AbortedError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    shared.promise.then(
+      (data) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(data as T);
+      },
+      (err) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(err);
+      }
+    );
+  });
+};
+
+/**
+ * Returns a cached response for `url`, or loads it.
+ * Stale entries are returned immediately while a background refresh runs.
+ * `signal` cancels this caller's wait (and the fetch, if no one else needs it).
+ */
+export const cachedFetch = async <T>(
+  url: string,
+  load: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  throwIfAborted(signal);
+  const rule = ruleFor(url);
+  const entry = readEntry(url, rule);
+  const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+  if (entry && age < rule.ttlMs) {
+    bump(rule, 'hits');
+    return entry.data as T;
+  }
+
+  if (entry && age < rule.ttlMs + rule.staleMs) {
+    bump(rule, 'staleHits');
+    if (!inFlight.has(url)) {
+      bump(rule, 'revalidations');
+      // Background refreshes are never cancelled by the caller that triggered them
+      waitFor(loadShared(url, rule, load)).catch((err) => console.warn(`Background refresh failed for ${url}`, err));
+    }
+    return entry.data as T;
+  }
+
+  bump(rule, 'misses');
+  return waitFor<T>(loadShared(url, rule, load), signal);
+};
+
+export const getCacheStats = (): CacheStats => ({
+  entries: entries.size,
+  inFlight: inFlight.size,
+  byRule: Object.fromEntries(Object.entries(stats).map(([name, value]) => [name, { ...value }])),
+});
+
+export const subscribeCacheStats = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Drops every cached response (memory and localStorage) and resets counters
+ */
+export const clearCache = () => {
+  entries.clear();
+  Object.keys(stats).forEach((name) => delete stats[name]);
+  const store = storage();
+  if (store) {
+    Object.keys(store)
+      .filter((key) => key.startsWith(STORAGE_PREFIX))
+      .forEach((key) => store.removeItem(key));
+  }
+  listeners.forEach((listener) => listener());
+};
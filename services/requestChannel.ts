@@ -0,0 +1,69 @@
+import { RequestTag } from '../types';
+import { AbortedError } from './errors';
+
+/**
+ * A result together with the request that produced it
+ */
+export interface Tagged<T> {
+  request: RequestTag;
+  value: T;
+}
+
+export interface RequestChannel {
+  /**
+   * Starts `task`, aborting whatever this channel was running before.
+   * Rejects with AbortedError if the task is superseded or cancelled, even when
+   * the task itself ignores its signal, so stale results never reach the caller.
+   */
+  run<T>(label: string, task: (signal: AbortSignal, request: RequestTag) => Promise<T>): Promise<Tagged<T>>;
+  /** Aborts the running task, if any */
+  cancel(): void;
+  /** The request currently running, if any */
+  current(): RequestTag | undefined;
+  /** True while `request` is the latest one issued and has not been cancelled */
+  isCurrent(request: RequestTag): boolean;
+}
+
+let nextRequestId = 1;
+
+/**
+ * Latest-wins request slot: one task at a time, newer requests supersede older ones
+ */
+export const createRequestChannel = (channel: string): RequestChannel => {
+  let active: { request: RequestTag; controller: AbortController } | undefined;
+
+  const cancel = () => {
+    active?.controller.abort();
+    active = undefined;
+  };
+
+  const isCurrent = (request: RequestTag) => active?.request.id === request.id;
+
+  const run = async <T>(
+    label: string,
+    task: (signal: AbortSignal, request: RequestTag) => Promise<T>
+  ): Promise<Tagged<T>> => {
+    cancel();
+    const request: RequestTag = { id: nextRequestId++, channel, label, issuedAt: Date.now() };
+    const controller = new AbortController();
+    active = { request, controller };
+
+    try {
+      const value = await task(controller.signal, request);
+      if (!isCurrent(request)) {
+        throw new AbortedError(`${channel} request superseded: ${label}`);
+      }
+      return { request, value };
+    } catch (err) {
+      if (!isCurrent(request) && !(err instanceof AbortedError)) {
+        // A superseded request failing is as irrelevant as it succeeding
+        throw new AbortedError(`${channel} request superseded: ${label}`);
+      }
+      throw err;
+    } finally {
+      if (isCurrent(request)) active = undefined;
+    }
+  };
+
+  return { run, cancel, current: () => active?.request, isCurrent };
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeResolutionRules, rulesRisk } from './resolutionRules';
+
+const BTC_RULES =
+  'This market will resolve to "Yes" if the Binance 1 minute candle for BTC/USDT closes above $150,000 at any point ' +
+  'between October 13, 2025, 12:00 PM ET and December 31, 2025, 11:59 PM ET. Otherwise, this market will resolve to "No". ' +
+  'The resolution source for this market is Binance, specifically the BTC/USDT "High" prices available at ' +
+  'https://www.binance.com/en/trade/BTC_USDT with the chart settings on "1m" Candles selected.';
+
+const analyze = (description: string, endDate?: string) => analyzeResolutionRules({ description, endDate });
+
+describe('analyzeResolutionRules', () => {
+  it('pairs each date in a range with its own time', () => {
+    const rules = analyze(BTC_RULES, '2025-12-31T12:00:00Z');
+    expect(rules.deadlineText).toBe('December 31, 2025, 11:59 PM ET');
+    expect(rules.deadline).toBe('2026-01-01T04:59:00.000Z');
+    expect(rules.timezone).toBe('ET');
+  });
+
+  it('reads a time written before its date', () => {
+    const rules = analyze('This market resolves to "Yes" if the bill is signed by 5 PM PT on March 20, 2026.');
+    expect(rules.deadlineText).toBe('March 20, 2026, 5 PM PT');
+    expect(rules.deadline).toBe('2026-03-21T00:00:00.000Z');
+  });
+
+  it('applies a zone named elsewhere in the sentence', () => {
+    const rules = analyze('All times are UTC: the market closes on 2026-02-01 at 18:30.');
+    expect(rules.deadlineText).toBe('2026-02-01, 18:30 UTC');
+    expect(rules.deadline).toBe('2026-02-01T18:30:00.000Z');
+  });
+
+  it('takes the end of the day and assumes ET when no time or zone is given', () => {
+    const rules = analyze('This market resolves to "Yes" if it happens by June 30, 2026.');
+    expect(rules.deadline).toBe('2026-07-01T03:59:00.000Z');
+    expect(rules.flags.map((flag) => flag.kind)).toContain('missing-timezone');
+  });
+
+  it('names the source without the URL or the rest of its clause', () => {
+    const rules = analyze(BTC_RULES);
+    expect(rules.source).toBe('Binance, specifically the BTC/USDT "High" prices');
+    expect(rules.sourceUrls).toEqual(['https://www.binance.com/en/trade/BTC_USDT']);
+  });
+
+  it('prefers the resolution source the market lists', () => {
+    const rules = analyzeResolutionRules({ description: BTC_RULES, resolutionSource: 'https://binance.com' });
+    expect(rules.source).toBe('https://binance.com');
+  });
+
+  it('flags a deadline that disagrees with the end date', () => {
+    const mismatch = analyze(BTC_RULES, '2025-12-01T12:00:00Z').flags.find((flag) => flag.kind === 'end-date-mismatch');
+    expect(mismatch?.severity).toBe('high');
+    expect(mismatch?.message).toContain('31 days after');
+  });
+
+  it('collects 50-50 and edge-case clauses and rates vague wording', () => {
+    const rules = analyze(
+      'This market resolves to "Yes" if the match is won by Team A by May 1, 2026, 8 PM ET. ' +
+        'If the match is postponed past May 8, 2026, this market will resolve 50-50. ' +
+        'The outcome will be determined at the sole discretion of the resolution committee.'
+    );
+    expect(rules.edgeCases).toHaveLength(1);
+    expect(rules.fiftyFifty).toHaveLength(1);
+    expect(rules.flags[0]).toMatchObject({ kind: 'vague-wording', severity: 'high' });
+    expect(rulesRisk(rules)).toBe('high');
+  });
+
+  it('flags markets without rules', () => {
+    expect(analyze('').flags).toEqual([expect.objectContaining({ kind: 'no-rules', severity: 'high' })]);
+  });
+});
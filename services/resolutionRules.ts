@@ -0,0 +1,290 @@
+import { MarketData, ResolutionRules, RuleRiskFlag, RuleRiskSeverity } from '../types';
+
+/**
+ * Local, rule-based reading of a market's resolution rules. Shared with the
+ * gateway, so it must not touch browser APIs.
+ */
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Polymarket states most deadlines in Eastern Time, so that is assumed when the rules name none
+const DEFAULT_ZONE = 'ET';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const ZONE_PATTERN = '(ET|EST|EDT|CT|CST|CDT|MT|MST|MDT|PT|PST|PDT|UTC|GMT)';
+const MONTH_DATE_RE =
+  /\b(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/gi;
+const ISO_DATE_RE = /\b(\d{4})-(\d{2})-(\d{2})\b/g;
+const TIME_RE = /\b(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?(?![a-z])|\b([01]?\d|2[0-3]):([0-5]\d)\b/gi;
+const ZONE_RE = new RegExp(`\\b${ZONE_PATTERN}\\b|\\b(Eastern|Central|Mountain|Pacific) Time\\b`);
+const LEADING_ZONE_RE = new RegExp(`^\\s*\\(?(?:${ZONE_PATTERN}\\b|(Eastern|Central|Mountain|Pacific) Time\\b)\\)?`);
+// What may sit between a date and the time that belongs to it
+const TIME_AFTER_DATE_RE = /^[\s,]*(?:at\s+|@\s*)?$/i;
+const TIME_BEFORE_DATE_RE = /^[\s,]*(?:on\s+)?(?:the\s+)?$/i;
+const URL_RE = /https?:\/\/[^\s<>"')\]]+/g;
+
+// "available at", "(see" and the like, left dangling once a URL is cut off
+const LINK_LEAD_IN_RE = /[\s,(:]*(?:\b(?:available|found|accessible|published|located)\s+)?(?:\b(?:at|on|via|see|here)\b)?[\s:(]*$/i;
+
+const DEADLINE_CUE_RE = /\b(by|before|until|through|no later than|deadline|end of|expires?|between)\b/i;
+const EDGE_CASE_RE =
+  /\b(postpone|delay|cancel|reschedul|tie|tied|draw|overtime|recount|disput|withdr[ae]w|void|annul|suspend|forfeit|in the event|in case|if no|if the .* (?:does not|doesn't|fails to))\w*/i;
+const FIFTY_FIFTY_RE = /\b50[-\s/]50\b|\bfifty[-\s]fifty\b|\bresolves? (?:to )?(?:\$?0?\.5\b|50%)/i;
+const EARLY_RE = /\b(immediately|as soon as|once|early|before the (?:end|deadline))\b/i;
+const RESOLVE_RE = /\bresol(?:ve|ves|ved|ution)\b/i;
+
+/**
+ * Phrases that leave the outcome to judgment. Discretion phrases are rated
+ * higher because they let the resolver decide, not just interpret.
+ */
+const VAGUE_PHRASES: Array<{ re: RegExp; severity: RuleRiskSeverity }> = [
+  { re: /\b(?:sole|own) discretion\b|\bat the discretion\b/i, severity: 'high' },
+  { re: /\b(?:may|might) (?:use|consider|determine)\b/i, severity: 'medium' },
+  { re: /\bconsensus of credible reporting\b|\bcredible report(?:s|ing)\b|\bwidely reported\b/i, severity: 'medium' },
+  { re: /\bspirit of\b|\bintent of\b/i, severity: 'medium' },
+  { re: /\bsubstantial(?:ly)?\b|\bsignificant(?:ly)?\b|\bmaterial(?:ly)?\b/i, severity: 'low' },
+  { re: /\bapproximately\b|\broughly\b|\breasonabl[ey]\b|\bgenerally\b/i, severity: 'low' },
+];
+
+const SEVERITY_RANK: Record<RuleRiskSeverity, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Splits rules into sentences; URLs and decimals stay intact because a split needs whitespace after the stop
+ */
+const sentencesOf = (text: string): string[] =>
+  text
+    .split(/\n+|(?<=[.!?])\s+(?=[A-Z0-9"“(])/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+const nthSunday = (year: number, month: number, n: number) => {
+  const first = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  return 1 + ((7 - first) % 7) + 7 * (n - 1);
+};
+
+// US daylight saving: second Sunday of March to first Sunday of November
+const isUsDst = (year: number, month: number, day: number) => {
+  const t = Date.UTC(year, month, day);
+  return t >= Date.UTC(year, 2, nthSunday(year, 2, 2)) && t < Date.UTC(year, 10, nthSunday(year, 10, 1));
+};
+
+const normalizeZone = (match: RegExpMatchArray): string =>
+  match[1] ?? { Eastern: 'ET', Central: 'CT', Mountain: 'MT', Pacific: 'PT' }[match[2] as 'Eastern']!;
+
+/**
+ * UTC offset in hours of a US zone abbreviation on the given date
+ */
+const zoneOffset = (zone: string, year: number, month: number, day: number): number => {
+  if (zone === 'UTC' || zone === 'GMT') return 0;
+  const standard = { E: -5, C: -6, M: -7, P: -8 }[zone[0] as 'E'];
+  if (zone.length === 3) return standard + (zone[1] === 'D' ? 1 : 0);
+  return standard + (isUsDst(year, month, day) ? 1 : 0);
+};
+
+interface DateMention {
+  time: number; // Unix ms
+  text: string;
+  cued: boolean; // The sentence reads like a deadline ("by", "before", ...)
+  zone?: string; // Zone given with the date's time, or named in the sentence
+}
+
+interface TimeMention {
+  start: number;
+  end: number; // Past the zone, when one follows the time
+  hours: number;
+  minutes: number;
+  text: string;
+  zone?: string;
+}
+
+const timesIn = (sentence: string): TimeMention[] =>
+  Array.from(sentence.matchAll(TIME_RE), (m) => {
+    const zoneMatch = sentence.slice(m.index + m[0].length).match(LEADING_ZONE_RE);
+    const end = m.index + m[0].length + (zoneMatch?.[0].length ?? 0);
+    return {
+      start: m.index,
+      end,
+      hours: m[1] ? (Number(m[1]) % 12) + (m[3].toLowerCase() === 'p' ? 12 : 0) : Number(m[4]),
+      minutes: Number(m[1] ? (m[2] ?? 0) : m[5]),
+      text: sentence.slice(m.index, end),
+      zone: zoneMatch ? normalizeZone(zoneMatch) : undefined,
+    };
+  });
+
+/**
+ * Dates in one sentence, each with the time written right after it ("December 31, 2025, 11:59 PM ET")
+ * or right before it ("11:59 PM ET on December 31, 2025"). A zone named elsewhere in the sentence
+ * applies to times without one; dates without a time mean the end of that day.
+ */
+const datesIn = (sentence: string): DateMention[] => {
+  const zoneMatch = sentence.match(ZONE_RE);
+  const sentenceZone = zoneMatch ? normalizeZone(zoneMatch) : undefined;
+  const times = timesIn(sentence);
+
+  const found: Array<{ year: number; month: number; day: number; text: string; start: number; end: number }> = [];
+  const span = (m: RegExpMatchArray) => ({ text: m[0], start: m.index!, end: m.index! + m[0].length });
+  for (const m of sentence.matchAll(MONTH_DATE_RE)) {
+    found.push({ year: Number(m[3]), month: MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()), day: Number(m[2]), ...span(m) });
+  }
+  for (const m of sentence.matchAll(ISO_DATE_RE)) {
+    found.push({ year: Number(m[1]), month: Number(m[2]) - 1, day: Number(m[3]), ...span(m) });
+  }
+  found.sort((a, b) => a.start - b.start);
+
+  const cued = DEADLINE_CUE_RE.test(sentence);
+  return found
+    .map((date, idx) => {
+      const after = times.find((t) => t.start >= date.end && TIME_AFTER_DATE_RE.test(sentence.slice(date.end, t.start)));
+      const before = times.find(
+        (t) =>
+          t.end <= date.start &&
+          (idx === 0 || t.start >= found[idx - 1].end) &&
+          TIME_BEFORE_DATE_RE.test(sentence.slice(t.end, date.start))
+      );
+      return { ...date, clock: after ?? before };
+    })
+    .filter(({ month, day }) => month >= 0 && day >= 1 && day <= 31)
+    .map(({ year, month, day, text, clock }) => {
+      const zone = clock?.zone ?? sentenceZone;
+      return {
+        time:
+          Date.UTC(year, month, day, clock?.hours ?? 23, clock?.minutes ?? 59) -
+          zoneOffset(zone ?? DEFAULT_ZONE, year, month, day) * HOUR_MS,
+        text: clock ? `${text}, ${clock.text}${zone && !clock.zone ? ` ${zone}` : ''}` : text,
+        cued,
+        zone,
+      };
+    });
+};
+
+/**
+ * The latest date in a deadline-like sentence, or the latest date mentioned at all
+ */
+const pickDeadline = (mentions: DateMention[]): DateMention | undefined => {
+  const pool = mentions.some((m) => m.cued) ? mentions.filter((m) => m.cued) : mentions;
+  return pool.reduce<DateMention | undefined>((latest, m) => (!latest || m.time > latest.time ? m : latest), undefined);
+};
+
+const sourceFromText = (sentences: string[]): string | undefined => {
+  for (const sentence of sentences) {
+    const m =
+      sentence.match(/\bresolution source (?:for this market )?(?:will be|is)\s+(.+?)[.;]?$/i) ??
+      sentence.match(/\b(?:according to|as reported by|per)\s+(?:the\s+)?(?:official\s+)?(.+?)(?:[,;]|\.$|$)/i);
+    // A linked source reads "X, available at <url> ..."; the name is X
+    const name = m?.[1].split(URL_RE)[0].replace(LINK_LEAD_IN_RE, '').trim();
+    if (name) return name;
+  }
+  return undefined;
+};
+
+const truncate = (text: string, max = 200) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+const formatGap = (ms: number) => {
+  const days = Math.abs(ms) / DAY_MS;
+  return days >= 1 ? `${Math.round(days)} day${Math.round(days) === 1 ? '' : 's'}` : `${Math.round(Math.abs(ms) / HOUR_MS)} hours`;
+};
+
+/**
+ * Parses the rules in `market.description` into a resolution source, deadline,
+ * edge-case clauses and 50-50 or early-resolution conditions, and flags vague
+ * wording and deadlines that disagree with `market.endDate`.
+ */
+export const analyzeResolutionRules = (market: Pick<MarketData, 'description' | 'endDate' | 'resolutionSource'>): ResolutionRules => {
+  const text = market.description?.trim() ?? '';
+  const sentences = sentencesOf(text);
+  const flags: RuleRiskFlag[] = [];
+
+  const sourceUrls = Array.from(new Set((text.match(URL_RE) ?? []).map((url) => url.replace(/[.,;:]+$/, ''))));
+  const source = market.resolutionSource || sourceFromText(sentences) || sourceUrls[0];
+
+  const deadline = pickDeadline(sentences.flatMap(datesIn));
+  const zoneMatch = text.match(ZONE_RE);
+  const timezone = deadline?.zone ?? (zoneMatch ? normalizeZone(zoneMatch) : undefined);
+
+  const edgeCases = sentences.filter((s) => EDGE_CASE_RE.test(s));
+  const fiftyFifty = sentences.filter((s) => FIFTY_FIFTY_RE.test(s));
+  const earlyResolution = sentences.filter((s) => RESOLVE_RE.test(s) && EARLY_RE.test(s) && !FIFTY_FIFTY_RE.test(s));
+
+  if (!text) {
+    flags.push({ kind: 'no-rules', severity: 'high', message: 'The market publishes no resolution rules.' });
+  } else {
+    if (!source) {
+      flags.push({ kind: 'missing-source', severity: 'medium', message: 'No resolution source is named.' });
+    }
+
+    if (!deadline) {
+      if (!market.endDate) {
+        flags.push({ kind: 'missing-deadline', severity: 'medium', message: 'Neither the rules nor the market give a deadline.' });
+      }
+    } else if (!timezone) {
+      flags.push({
+        kind: 'missing-timezone',
+        severity: 'low',
+        message: `The deadline (${deadline.text}) has no timezone; ${DEFAULT_ZONE} was assumed.`,
+      });
+    }
+
+    const endTime = market.endDate ? Date.parse(market.endDate) : NaN;
+    if (deadline && Number.isFinite(endTime)) {
+      const gap = deadline.time - endTime;
+      // Less than a day apart is usually just the end date being stored at noon or midnight UTC
+      if (Math.abs(gap) > DAY_MS) {
+        flags.push({
+          kind: 'end-date-mismatch',
+          severity: Math.abs(gap) > 7 * DAY_MS ? 'high' : 'medium',
+          message: `The rules' deadline (${deadline.text}) is ${formatGap(gap)} ${gap > 0 ? 'after' : 'before'} the market's end date (${new Date(endTime).toISOString().slice(0, 10)}).`,
+          excerpt: truncate(sentences.find((s) => s.includes(deadline.text.split(',')[0])) ?? deadline.text),
+        });
+      }
+    }
+
+    if (fiftyFifty.length > 0) {
+      flags.push({
+        kind: 'fifty-fifty',
+        severity: 'medium',
+        message: 'The market can resolve 50-50, which caps the payout of either side.',
+        excerpt: truncate(fiftyFifty[0]),
+      });
+    }
+
+    if (earlyResolution.length > 0) {
+      flags.push({
+        kind: 'early-resolution',
+        severity: 'low',
+        message: 'The market can resolve before its end date.',
+        excerpt: truncate(earlyResolution[0]),
+      });
+    }
+
+    sentences.forEach((sentence) => {
+      const hits = VAGUE_PHRASES.map(({ re, severity }) => ({ match: sentence.match(re), severity })).filter((hit) => hit.match);
+      if (hits.length === 0) return;
+      const severity = hits.reduce<RuleRiskSeverity>((worst, hit) => (SEVERITY_RANK[hit.severity] < SEVERITY_RANK[worst] ? hit.severity : worst), 'low');
+      flags.push({
+        kind: 'vague-wording',
+        severity,
+        message: `Vague wording: ${hits.map((hit) => `"${hit.match![0]}"`).join(', ')}.`,
+        excerpt: truncate(sentence),
+      });
+    });
+  }
+
+  return {
+    source,
+    sourceUrls,
+    deadline: deadline ? new Date(deadline.time).toISOString() : undefined,
+    deadlineText: deadline?.text,
+    timezone,
+    edgeCases: edgeCases.map((s) => truncate(s)),
+    fiftyFifty: fiftyFifty.map((s) => truncate(s)),
+    earlyResolution: earlyResolution.map((s) => truncate(s)),
+    flags: flags.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]),
+  };
+};
+
+/**
+ * Severity of the worst flag, or undefined when nothing was flagged
+ */
+export const rulesRisk = (rules: ResolutionRules): RuleRiskSeverity | undefined => rules.flags[0]?.severity;
@@ -0,0 +1,139 @@
+import { AnalysisModeId, AnalysisResult, MarketData } from '../types';
+import { AbortedError } from './errors';
+import { analyzeMarket } from './geminiService';
+import { getMarketData } from './polymarketService';
+import { computeEdges, OutcomeEdge } from './sizing';
+import { saveAnalysis } from './analysisHistory';
+import { modeFor } from './analysisModes';
+
+export interface ScreenerBudget {
+  maxCostUsd: number; // No analysis starts once its estimated cost would exceed this
+  maxDurationMs: number; // In-flight work is cancelled when this runs out
+}
+
+export type ScreenerRowStatus = 'queued' | 'loading' | 'analyzing' | 'done' | 'error' | 'skipped';
+
+export interface ScreenerRow {
+  input: string; // URL or slug as given
+  status: ScreenerRowStatus;
+  market?: MarketData;
+  result?: AnalysisResult;
+  bestEdge?: OutcomeEdge; // Largest fair-minus-price edge across outcomes
+  error?: unknown;
+  skippedReason?: string;
+}
+
+export type ScreenerStopReason = 'completed' | 'cost' | 'time' | 'cancelled';
+
+export interface ScreenerSummary {
+  rows: ScreenerRow[];
+  spentUsd: number;
+  elapsedMs: number;
+  stoppedBy: ScreenerStopReason;
+}
+
+export interface ScreenerOptions {
+  mode: AnalysisModeId;
+  concurrency: number;
+  budget: ScreenerBudget;
+  signal?: AbortSignal;
+  /** Called with a fresh copy of the rows whenever one changes */
+  onUpdate?: (rows: ScreenerRow[], spentUsd: number) => void;
+}
+
+/**
+ * Splits pasted text into unique market URLs or slugs (one per line, or comma/space separated)
+ */
+export const parseMarketList = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\s,]+/).map((item) => item.trim()).filter(Boolean)));
+
+/**
+ * Picks the outcome with the largest positive edge, if the model priced any
+ */
+export const bestEdgeFor = (market: MarketData, result: AnalysisResult): OutcomeEdge | undefined =>
+  computeEdges(market.outcomes, result.fairProbabilities).reduce<OutcomeEdge | undefined>(
+    (best, edge) => (!best || edge.edge > best.edge ? edge : best),
+    undefined
+  );
+
+/**
+ * Resolves and analyzes every input with at most `concurrency` in flight.
+ * Stops starting new work when the cost budget is spent, and cancels in-flight
+ * work when the time budget runs out or `signal` aborts. Finished analyses are
+ * saved to history like single-market runs.
+ */
+export const runScreener = async (inputs: string[], options: ScreenerOptions): Promise<ScreenerSummary> => {
+  const { mode, budget, signal, onUpdate } = options;
+  const rows: ScreenerRow[] = inputs.map((input) => ({ input, status: 'queued' }));
+  const costPerAnalysis = modeFor(mode).gateway.estimatedCostUsd;
+  const startedAt = Date.now();
+  let spentUsd = 0;
+  let stoppedBy = 'completed' as ScreenerStopReason; // Widened: workers and timers update it
+  let next = 0;
+
+  const controller = new AbortController();
+  const stop = (reason: ScreenerStopReason) => {
+    if (stoppedBy === 'completed') stoppedBy = reason;
+    controller.abort();
+  };
+  const onAbort = () => stop('cancelled');
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const deadline = setTimeout(() => stop('time'), budget.maxDurationMs);
+
+  const update = (index: number, patch: Partial<ScreenerRow>) => {
+    rows[index] = { ...rows[index], ...patch };
+    onUpdate?.(rows.slice(), spentUsd);
+  };
+
+  const worker = async () => {
+    while (next < rows.length && !controller.signal.aborted) {
+      const index = next++;
+      try {
+        update(index, { status: 'loading' });
+        const market = await getMarketData(rows[index].input, controller.signal);
+        if (market.status === 'resolved') {
+          update(index, { status: 'skipped', market, skippedReason: 'Already resolved' });
+          continue;
+        }
+
+        // Cost is committed when the request is sent, whether or not it completes
+        if (spentUsd + costPerAnalysis > budget.maxCostUsd + 1e-9) {
+          if (stoppedBy === 'completed') stoppedBy = 'cost';
+          update(index, { status: 'skipped', market, skippedReason: 'Cost budget reached' });
+          next = rows.length;
+          break;
+        }
+        spentUsd += costPerAnalysis;
+        update(index, { status: 'analyzing', market });
+
+        const result = await analyzeMarket(market, mode, { signal: controller.signal });
+        update(index, { status: 'done', result, bestEdge: bestEdgeFor(market, result) });
+        saveAnalysis(market, mode, result).catch((e) => console.warn('Failed to save screener analysis', e));
+      } catch (err) {
+        if (err instanceof AbortedError) {
+          update(index, { status: 'skipped', skippedReason: stoppedBy === 'time' ? 'Time budget reached' : 'Cancelled' });
+        } else {
+          update(index, { status: 'error', error: err });
+        }
+      }
+    }
+  };
+
+  try {
+    const workers = Math.max(1, Math.min(options.concurrency, rows.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+  } finally {
+    clearTimeout(deadline);
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  // Anything never started was cut off by whichever budget stopped the run
+  const reason =
+    stoppedBy === 'cost' ? 'Cost budget reached' : stoppedBy === 'time' ? 'Time budget reached' : 'Cancelled';
+  rows.forEach((row, index) => {
+    if (row.status === 'queued') rows[index] = { ...row, status: 'skipped', skippedReason: reason };
+  });
+  onUpdate?.(rows.slice(), spentUsd);
+
+  return { rows, spentUsd, elapsedMs: Date.now() - startedAt, stoppedBy };
+};
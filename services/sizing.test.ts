@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { Outcome } from '../types';
+import { computeEdges, kellyFraction } from './sizing';
+
+const outcome = (name: string, price: number): Outcome => ({ name, price, probability: price });
+
+describe('kellyFraction', () => {
+  it('stakes the edge over the odds', () => {
+    expect(kellyFraction(0.6, 0.5)).toBeCloseTo(0.2);
+    expect(kellyFraction(0.3, 0.25)).toBeCloseTo(0.0667, 4);
+  });
+
+  it('stakes nothing without an edge or at a degenerate price', () => {
+    expect(kellyFraction(0.4, 0.5)).toBe(0);
+    expect(kellyFraction(0.9, 0)).toBe(0);
+    expect(kellyFraction(0.9, 1)).toBe(0);
+  });
+});
+
+describe('computeEdges', () => {
+  it('pairs fair probabilities with prices by outcome name', () => {
+    const [yes, no] = computeEdges(
+      [outcome('Yes', 0.4), outcome('No', 0.6)],
+      [
+        { outcome: ' yes ', probability: 0.5 },
+        { outcome: 'NO', probability: 0.5 },
+      ]
+    );
+    expect(yes).toMatchObject({ fair: 0.5, kelly: expect.closeTo(1 / 6) });
+    expect(yes.edge).toBeCloseTo(0.1);
+    expect(yes.evPerDollar).toBeCloseTo(0.25);
+    expect(no.edge).toBeCloseTo(-0.1);
+    expect(no.kelly).toBe(0);
+  });
+
+  it('skips outcomes the model did not price', () => {
+    const edges = computeEdges([outcome('A', 0.2), outcome('B', 0.3)], [{ outcome: 'B', probability: 0.4 }]);
+    expect(edges.map((edge) => edge.outcome.name)).toEqual(['B']);
+    expect(computeEdges([outcome('A', 0.2)])).toEqual([]);
+  });
+
+  it('reports no EV for a free outcome', () => {
+    expect(computeEdges([outcome('A', 0)], [{ outcome: 'A', probability: 0.1 }])[0].evPerDollar).toBe(0);
+  });
+});
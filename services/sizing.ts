@@ -0,0 +1,39 @@
+import { FairProbability, Outcome } from '../types';
+
+export interface OutcomeEdge {
+  outcome: Outcome;
+  fair: number;
+  edge: number; // fair - price, in probability points
+  evPerDollar: number; // Expected profit per $1 staked on the outcome at its price
+  kelly: number; // Full Kelly fraction of bankroll, 0 when there is no edge
+}
+
+/**
+ * Kelly fraction for buying a binary share at `price` that pays $1 with probability `fair`
+ */
+export const kellyFraction = (fair: number, price: number): number => {
+  if (price <= 0 || price >= 1) return 0;
+  return Math.max(0, (fair - price) / (1 - price));
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Pairs the model's fair probabilities with live outcome prices.
+ * Outcomes the model did not price are skipped.
+ */
+export const computeEdges = (outcomes: Outcome[], fairProbabilities: FairProbability[] = []): OutcomeEdge[] =>
+  outcomes
+    .map((outcome) => {
+      const match = fairProbabilities.find((fp) => normalizeName(fp.outcome) === normalizeName(outcome.name));
+      if (!match) return undefined;
+      const fair = match.probability;
+      return {
+        outcome,
+        fair,
+        edge: fair - outcome.price,
+        evPerDollar: outcome.price > 0 ? fair / outcome.price - 1 : 0,
+        kelly: kellyFraction(fair, outcome.price),
+      };
+    })
+    .filter((entry): entry is OutcomeEdge => entry !== undefined);
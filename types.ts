@@ -4,8 +4,20 @@ export interface Outcome {
   probability: number; // 0 to 1
   price: number;
   color?: string;
+  tokenId?: string; // CLOB token id, used for price history and order books
 }
 
+/**
+ * Where market numbers came from. Anything other than 'live' must never be
+ * mistaken for the real order book.
+ */
+export type DataProvenance = 'live' | 'fixture' | 'simulated';
+
+/**
+ * Trading lifecycle: open, closed to trading but not yet settled, or settled
+ */
+export type MarketStatus = 'open' | 'closed' | 'resolved';
+
 export interface MarketData {
   id: string;
   question: string;
@@ -17,11 +29,142 @@ export interface MarketData {
   volume: string; // Formatted total volume
   volumeNum: number; // Raw volume for calculations
   liquidity: string;
+  liquidityNum?: number; // Raw liquidity; missing on analyses saved before it existed
   endDate?: string;
   
   // Metadata
   active: boolean;
   groupItemTitle?: string; // For multi-market events
+  provenance: DataProvenance;
+
+  // Settlement
+  status: MarketStatus;
+  winningOutcome?: string; // Name of the outcome that paid out, once resolved
+  resolvedAt?: string; // ISO timestamp of resolution (or of closing, if unknown)
+  resolutionSource?: string; // Source named in the market rules, usually a URL
+}
+
+export interface EventData {
+  id: string;
+  slug: string;
+  title: string;
+  description?: string;
+  url: string;
+
+  // Metrics (event-level aggregates)
+  volume: string;
+  volumeNum: number;
+  liquidity: string;
+  endDate?: string;
+
+  active: boolean;
+  negRisk?: boolean; // Child markets are mutually exclusive: exactly one resolves YES
+  markets: MarketData[]; // Every child market, one entry for standalone markets
+  defaultMarketId: string; // Market picked from the URL's tid, or the best candidate
+  provenance: DataProvenance;
+}
+
+export type PriceHistoryRange = '1h' | '1d' | '1w' | 'all';
+
+export interface PricePoint {
+  t: number; // Unix timestamp (ms)
+  p: number; // Price 0 to 1
+}
+
+export interface OutcomePriceHistory {
+  outcome: string;
+  tokenId: string;
+  points: PricePoint[];
+}
+
+export interface OrderBookLevel {
+  price: number; // 0 to 1
+  size: number; // Shares resting at this price
+}
+
+export interface OrderBook {
+  outcome: string;
+  tokenId: string;
+  bids: OrderBookLevel[]; // Best (highest) first
+  asks: OrderBookLevel[]; // Best (lowest) first
+  bestBid?: number;
+  bestAsk?: number;
+  mid?: number;
+  spread?: number;
+  timestamp: number;
+}
+
+export interface FillEstimate {
+  stake: number; // Dollars requested
+  filledStake: number; // Dollars the book could absorb
+  shares: number;
+  avgPrice: number;
+  worstPrice: number;
+  slippage: number; // avgPrice - mid, in price units
+  slippagePct: number; // slippage relative to mid
+  complete: boolean; // False when the book ran out before the stake was filled
+}
+
+export interface FairProbability {
+  outcome: string; // Matches Outcome.name
+  probability: number; // Model's estimate of the true probability, 0 to 1
+}
+
+/**
+ * A source the analysis relied on
+ */
+export interface AnalysisSource {
+  title: string;
+  url: string;
+  domain?: string; // Publisher host without "www.", e.g. "reuters.com"
+  publishedAt?: string; // ISO date, when the publisher or the model gave one
+  snippet?: string; // Passage the analysis drew on
+}
+
+/**
+ * A concrete trade on one outcome. SELL means selling the outcome, i.e. buying its complement.
+ */
+export interface TradeIdea {
+  outcome: string; // Matches Outcome.name
+  side: 'BUY' | 'SELL';
+  limitPrice: number; // Worst acceptable entry, 0 to 1: the most to pay on a BUY, the least to accept on a SELL
+  targetPrice?: number; // Price at which to take profit
+  exitCondition?: string; // What would invalidate the idea or trigger an exit, e.g. "poll lead drops below 3 pts"
+  rationale?: string;
+}
+
+export type RuleRiskKind =
+  | 'no-rules'
+  | 'missing-source'
+  | 'missing-deadline'
+  | 'missing-timezone'
+  | 'end-date-mismatch'
+  | 'vague-wording'
+  | 'fifty-fifty'
+  | 'early-resolution';
+
+export type RuleRiskSeverity = 'low' | 'medium' | 'high';
+
+export interface RuleRiskFlag {
+  kind: RuleRiskKind;
+  severity: RuleRiskSeverity;
+  message: string;
+  excerpt?: string; // Sentence of the rules that triggered the flag
+}
+
+/**
+ * Structured reading of a market's resolution rules (MarketData.description)
+ */
+export interface ResolutionRules {
+  source?: string; // Resolution source named by the market or its rules
+  sourceUrls: string[];
+  deadline?: string; // ISO timestamp of the deadline in the rules
+  deadlineText?: string; // The deadline as written
+  timezone?: string; // Timezone the rules state, e.g. "ET"; undefined when none is given
+  edgeCases: string[]; // Clauses covering postponement, cancellation, ties and the like
+  fiftyFifty: string[]; // Clauses that resolve the market 50-50
+  earlyResolution: string[]; // Conditions for resolving before the deadline
+  flags: RuleRiskFlag[]; // Most severe first
 }
 
 export interface AnalysisResult {
@@ -29,20 +172,130 @@ export interface AnalysisResult {
   recommendation: 'BUY' | 'SELL' | 'HOLD' | 'AVOID';
   confidenceScore: number; // 0 to 100
   reasoning: string[];
-  sources?: Array<{
-    title: string;
-    url: string;
-  }>;
+  sources?: AnalysisSource[];
+  citations?: number[][]; // citations[i] lists the indices into `sources` that back reasoning[i]
+  fairProbabilities?: FairProbability[];
+  tradeIdeas?: TradeIdea[]; // Outcome-level trades behind the headline recommendation
+  request?: RequestTag; // The request this result answers
+}
+
+/**
+ * One turn of a follow-up conversation about an analysis
+ */
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number; // Unix ms
+  sources?: AnalysisSource[]; // Assistant replies only
+}
+
+/**
+ * Compact record of an earlier analysis of the same market, so follow-ups can compare over time
+ */
+export interface AnalysisSnapshot {
+  timestamp: number; // Unix ms
+  mode: AnalysisModeId;
+  recommendation: AnalysisResult['recommendation'];
+  confidenceScore: number;
+  summary: string;
+  prices: Array<{ outcome: string; price: number }>; // Market prices when it ran
+}
+
+export interface FollowUpReply {
+  reply: string;
+  sources?: AnalysisSource[];
+}
+
+/**
+ * Identifies one request issued through a request channel
+ */
+export interface RequestTag {
+  id: number; // Increases across all channels, so later requests have larger ids
+  channel: string; // e.g. 'fetch' or 'analysis'
+  label: string; // What was asked for, e.g. the market id and mode
+  issuedAt: number; // Unix ms
 }
 
+/**
+ * Ids of the built-in analysis modes. Custom modes use their own ids, so code
+ * that handles stored or user-selected modes takes an AnalysisModeId.
+ */
 export enum AnalysisMode {
   QUICK = 'QUICK',
   DEEP = 'DEEP',
+  RULES_RISK = 'RULES_RISK',
+  CONTRARIAN = 'CONTRARIAN',
+  BASE_RATE = 'BASE_RATE',
+  NEWS_CATALYST = 'NEWS_CATALYST',
+}
+
+export type AnalysisModeId = AnalysisMode | string;
+
+/**
+ * How the gateway runs a mode
+ */
+export interface AnalysisModeParams {
+  webSearch: boolean; // Ground the analysis in live web results
+  promptTemplate?: string; // Analyst instructions; may use {{question}}, {{outcomes}}, {{endDate}} and {{rules}}
+  temperature?: number; // 0 to 2; backend default when unset
+  estimatedCostUsd: number; // Rough per-run cost, used for screener budgets
 }
 
+/**
+ * One entry in the analysis mode registry
+ */
+export interface AnalysisModeDefinition {
+  id: AnalysisModeId;
+  label: string;
+  icon: string; // Emoji shown on the tab
+  loadingCopy: string; // Shown while the analysis runs
+  description?: string;
+  builtIn: boolean;
+  gateway: AnalysisModeParams;
+}
+
+/**
+ * Gemini grounding metadata: the web results a grounded answer used...
+ */
 export interface GroundingChunk {
   web?: {
     uri?: string;
     title?: string;
+    domain?: string;
   };
 }
+
+/**
+ * ...and which part of the answer each of them supports
+ */
+export interface GroundingSupport {
+  segment?: {
+    text?: string;
+  };
+  groundingChunkIndices?: number[];
+}
+
+export type AnalysisStage = 'queued' | 'searching' | 'reading' | 'scoring' | 'writing';
+
+/**
+ * Events streamed by the analysis gateway (NDJSON lines or SSE `data:` payloads)
+ */
+export type AnalysisStreamEvent =
+  | { type: 'status'; stage: AnalysisStage; message: string }
+  | { type: 'summary'; text: string }
+  | { type: 'reasoning'; text: string; citations?: number[] }
+  | { type: 'source'; source: AnalysisSource }
+  | { type: 'result'; result: AnalysisResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Progressive view of an analysis while it streams in
+ */
+export interface PartialAnalysis {
+  status?: { stage: AnalysisStage; message: string };
+  summary?: string;
+  reasoning: string[];
+  citations: number[][]; // Parallel to reasoning
+  sources: AnalysisSource[];
+}